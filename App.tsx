@@ -1,5 +1,5 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   Compass, 
   MapPin, 
@@ -8,39 +8,114 @@ import {
   MessageSquare, 
   ChevronRight, 
   Languages,
-  Upload,
   Search,
   Loader2,
   X,
   History,
-  Info
+  Info,
+  RefreshCw,
+  Map as MapIcon,
+  Landmark,
+  Utensils,
+  Palette,
+  ScrollText,
+  Wheat,
+  Users,
+  List,
+  Columns2,
+  GraduationCap,
+  AlertTriangle,
+  Clock
 } from 'lucide-react';
-import { WikipediaService } from './wikipediaService';
-import { GeminiService } from './geminiService';
-import { Language, HeritageContent, Poet, WikiImage, PlaceDetails, ChatMessage } from './types';
+import { AIService } from './aiService';
+import { CacheService, CacheKeys } from './cacheService';
+import { PlaceService, StreamContentOptions } from './placeService';
+import { missingSections } from './heritageValidation';
+import { isAbortError } from './retry';
+import { useRoute, View } from './router';
+import { getTranslator, LANGUAGE_INFO, LANGUAGES, LanguageContext, useT } from './i18n';
+import { HeritageMap } from './components/HeritageMap';
+import { CompareView } from './components/CompareView';
+import { ReconstructView } from './components/ReconstructView';
+import { InscriptionView } from './components/InscriptionView';
+import { LearnView } from './components/LearnView';
+import { AiBadge, CitedText, UncitedFlag } from './components/Citations';
+import { ImageGallery } from './components/ImageGallery';
+import { ChatComposer } from './components/ChatComposer';
+import { AudioGuideBar, AudioGuideButton, NarratedText, useAudioGuide } from './components/AudioGuide';
+import { DossierImportButton, ExportMenu } from './components/ExportMenu';
+import { BookmarkMenu } from './components/BookmarkMenu';
+import { PinAnswerButton, PinnedPanel, SectionNoteEditor, usePlaceNotebook } from './components/PlaceNotebook';
+import { SavedView } from './components/SavedView';
+import { TimelineView } from './components/TimelineView';
+import { PoetsView } from './components/PoetsView';
+import { PoetService } from './poetService';
+import { OfflineBanner, OfflineDownloadMenu, OfflineIndicator, useConnectivity } from './components/OfflineStatus';
+import { isOfflineError, OutboxService } from './outboxService';
+import { CatalogBrowser } from './components/CatalogBrowser';
+import { CatalogFilters, CatalogService } from './catalogService';
+import { romanize } from './transliteration';
+import { BookmarkService } from './bookmarkService';
+import { HERITAGE_SECTIONS, TextSectionKey } from './heritageSections';
+import { Language, HeritageContent, Poet, WikiImage, PlaceDetails, ChatMessage, ChatAttachment, MapPlace, Bookmark, HeritageSite } from './types';
+
+// Wikipedia titles of the catalogued sites, suggested in place pickers
+const CATALOG_TITLES = CatalogService.sites.map(site => site.titles.en);
 
 // Components
-const LanguageSelector: React.FC<{ current: Language, onChange: (l: Language) => void }> = ({ current, onChange }) => (
-  <div className="flex gap-2">
-    {(['en', 'te', 'hi'] as Language[]).map(lang => (
-      <button
-        key={lang}
-        onClick={() => onChange(lang)}
-        className={`px-3 py-1 rounded-full text-sm font-medium transition ${
-          current === lang ? 'bg-amber-600 text-white shadow-md' : 'bg-stone-200 text-stone-600 hover:bg-stone-300'
-        }`}
-      >
-        {lang === 'en' ? 'English' : lang === 'te' ? 'తెలుగు' : 'हिंदी'}
-      </button>
-    ))}
+const LanguageSelector: React.FC<{ current: Language, onChange: (l: Language) => void }> = ({ current, onChange }) => {
+  const t = useT();
+  return (
+    <label className="flex items-center gap-2 px-3 py-1 rounded-full bg-stone-200 text-stone-600 text-sm font-medium">
+      <Languages size={16} aria-label={t('app.language')} />
+      <select value={current} onChange={(e) => onChange(e.target.value as Language)} className="bg-transparent border-none p-0 pe-6 text-sm font-medium focus:ring-0 cursor-pointer">
+        {LANGUAGES.map(lang => <option key={lang} value={lang}>{LANGUAGE_INFO[lang].name}</option>)}
+      </select>
+    </label>
+  );
+};
+
+const SECTION_ICONS: Record<keyof HeritageContent, React.ElementType> = {
+  overview: Info,
+  architecture: ImageIcon,
+  monuments: Landmark,
+  traditions: Compass,
+  cuisine: Utensils,
+  artCrafts: Palette,
+  literature: ScrollText,
+  agriculture: Wheat,
+  lifestyle: Users,
+  poets: BookOpen,
+};
+
+const SectionSkeleton: React.FC = () => (
+  <div className="space-y-3 animate-pulse">
+    <div className="h-4 bg-stone-200 rounded w-full"></div>
+    <div className="h-4 bg-stone-200 rounded w-11/12"></div>
+    <div className="h-4 bg-stone-200 rounded w-4/5"></div>
   </div>
 );
 
-const Section: React.FC<{ title: string; children: React.ReactNode; icon?: React.ReactNode }> = ({ title, children, icon }) => (
-  <div className="mb-12">
+const SectionError: React.FC<{ onRetry: () => void; dark?: boolean }> = ({ onRetry, dark }) => {
+  const t = useT();
+  return (
+    <div className={`flex items-center justify-between gap-4 p-4 rounded-xl border text-sm ${dark ? 'border-red-400/30 bg-red-500/10 text-red-200' : 'border-red-200 bg-red-50 text-red-800'}`}>
+      <span className="flex items-center gap-2">
+        <AlertTriangle size={16} /> {t('explore.sectionError')}
+      </span>
+      <button onClick={onRetry} className={`px-3 py-1.5 rounded-full font-medium flex items-center gap-1 transition ${dark ? 'bg-white/10 hover:bg-white/20' : 'bg-white hover:bg-red-100'}`}>
+        <RefreshCw size={14} /> {t('common.retry')}
+      </button>
+    </div>
+  );
+};
+
+const Section: React.FC<{ id?: string; title: string; children: React.ReactNode; icon?: React.ReactNode; badge?: React.ReactNode }> = ({ id, title, children, icon, badge }) => (
+  <div id={id} className="mb-12 scroll-mt-24">
     <div className="flex items-center gap-3 mb-4 border-b border-stone-200 pb-2">
       {icon}
       <h3 className="text-2xl font-bold font-heritage text-stone-800">{title}</h3>
+      {badge}
     </div>
     <div className="text-stone-700 leading-relaxed text-lg">
       {children}
@@ -49,377 +124,651 @@ const Section: React.FC<{ title: string; children: React.ReactNode; icon?: React
 );
 
 const App: React.FC = () => {
-  const [lang, setLang] = useState<Language>('en');
-  const [view, setView] = useState<'home' | 'explore' | 'reconstruct'>('home');
+  // View, language, place, section and chat panel all live in the URL
+  const [route, navigate] = useRoute();
+  const { view, lang } = route;
+  const t = useMemo(() => getTranslator(lang), [lang]);
   const [searchQuery, setSearchQuery] = useState('');
-  const [placesList, setPlacesList] = useState<string[]>([]);
   const [selectedPlace, setSelectedPlace] = useState<PlaceDetails | null>(null);
   const [loading, setLoading] = useState(false);
+  const [pageError, setPageError] = useState<{ name: string; message: string } | null>(null);
+  const fetchIdRef = useRef(0);
+  // Language the selected place was loaded in, so a language change reloads it
+  const placeLangRef = useRef<Language | null>(null);
+  // Section from the URL to scroll to once its content has rendered
+  const pendingSectionRef = useRef<keyof HeritageContent | undefined>(undefined);
+  // Controller for the section generation in progress, aborted when the user moves on
+  const abortRef = useRef<AbortController | null>(null);
+  const guide = useAudioGuide(view === 'explore' ? selectedPlace : null, lang);
+  const notebook = usePlaceNotebook(selectedPlace?.name, view === 'explore');
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const { online, queued } = useConnectivity();
   
   // Chat state
-  const [isChatOpen, setIsChatOpen] = useState(false);
+  const isChatOpen = !!route.chat;
   const [chatMessages, setChatMessages] = useState<ChatMessage[]>([]);
-  const [chatInput, setChatInput] = useState('');
+  const [chatStreaming, setChatStreaming] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
-  // Reconstruction state
-  const [originalImage, setOriginalImage] = useState<string | null>(null);
-  const [reconstructedImage, setReconstructedImage] = useState<string | null>(null);
-  const [reconLoading, setReconLoading] = useState(false);
+  // Map state
+  const [mapFilters, setMapFilters] = useState<CatalogFilters>({});
+
+  useEffect(() => {
+    if (view === 'home') BookmarkService.listBookmarks().then(setBookmarks).catch(console.error);
+  }, [view]);
+
+  // The map plots the catalogued sites, filtered by the catalog's own dynasty and type facets
+  const mapPlaces = useMemo<MapPlace[]>(
+    () => CatalogService.search('', mapFilters).map(({ site }) => ({ name: site.titles.en, coords: site.coords })),
+    [mapFilters]
+  );
+  const mapFacets = useMemo(() => CatalogService.facetCounts('', mapFilters), [mapFilters]);
 
+  // Questions asked offline stay in the chat, marked as waiting, until their answers arrive
   useEffect(() => {
-    // Initial fetch of famous places
-    WikipediaService.searchHeritagePlaces().then(setPlacesList);
+    OutboxService.list()
+      .then(items => setChatMessages(prev => [
+        ...items.flatMap(item => item.kind === 'chat' && !prev.some(msg => msg.outboxId === item.id) ? [{ ...item.message, outboxId: item.id }] : []),
+        ...prev,
+      ]))
+      .catch(console.error);
+    return OutboxService.subscribe(delivery => {
+      if (delivery?.item.kind !== 'chat') return;
+      const { item, reply } = delivery;
+      const answer: ChatMessage = { role: 'model', text: reply || getTranslator(item.lang)('chat.error') };
+      setChatMessages(prev => {
+        const i = prev.findIndex(msg => msg.outboxId === item.id);
+        if (i < 0) return [...prev, item.message, answer];
+        return [...prev.slice(0, i), { ...prev[i], outboxId: undefined }, answer, ...prev.slice(i + 1)];
+      });
+    });
   }, []);
 
   useEffect(() => {
     chatEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   }, [chatMessages]);
 
-  // IMPORTANT: Re-fetch content when language changes to translate existing view
+  // Every set of poets a place shows goes into the poets knowledge base
+  const placePoets = selectedPlace?.content?.poets;
   useEffect(() => {
-    if (selectedPlace && view === 'explore') {
-      fetchPlaceContent(selectedPlace.name, false); // false to avoid jumping back to top unnecessarily
-    }
+    if (selectedPlace && placePoets) PoetService.record(selectedPlace.name, lang, placePoets).catch(console.error);
+  }, [placePoets]);
+
+  const openPoet = (name: string) =>
+    PoetService.idFor(name).then(poet => navigate({ view: 'poets', lang, poet, chat: route.chat })).catch(console.error);
+
+  const setView = (next: View) => navigate({ view: next, lang, place: selectedPlace?.name, chat: route.chat });
+  // Language switches replace the entry, so back does not step through every language tried
+  const setLang = (next: Language) => navigate({ ...route, lang: next }, { replace: true });
+  const setIsChatOpen = (open: boolean) => navigate({ ...route, chat: open || undefined });
+
+  // Urdu is laid out right-to-left; `lang` also picks the right font and hyphenation
+  useEffect(() => {
+    document.documentElement.lang = lang;
+    document.documentElement.dir = LANGUAGE_INFO[lang].dir;
   }, [lang]);
 
-  const fetchPlaceContent = async (name: string, shouldSwitchView: boolean = true) => {
+  useEffect(() => {
+    document.title = route.place ? `${route.place} - ITIHAASA` : 'ITIHAASA - Andhra Pradesh Heritage';
+  }, [route.place]);
+
+  // Streams the sections missing from `options.existing` into the selected place, replacing any generation in progress
+  const generateSections = async (place: PlaceDetails, options: Omit<StreamContentOptions, 'signal'>) => {
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      for await (const generated of PlaceService.streamContent(place, lang, { ...options, signal: controller.signal })) {
+        if (controller.signal.aborted) break;
+        setSelectedPlace(prev => prev?.name === place.name ? { ...prev, ...generated } : prev);
+      }
+    } catch (error) {
+      if (!isAbortError(error)) throw error;
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+    }
+  };
+
+  const fetchPlaceContent = async (name: string) => {
+    const fetchId = ++fetchIdRef.current;
+    const isCurrent = () => fetchIdRef.current === fetchId;
+    abortRef.current?.abort();
+    placeLangRef.current = lang;
     setLoading(true);
-    if (shouldSwitchView) setView('explore');
+    setPageError(null);
     try {
-      const summary = await WikipediaService.getSummary(name);
-      const images = await WikipediaService.getPlaceImages(name);
-      const content = await GeminiService.getStructuredContent(name, summary, lang);
-      setSelectedPlace({ id: name, name, content, images });
+      const base = await PlaceService.getBase(name, lang);
+      if (!isCurrent()) return;
+      const cached = await PlaceService.getCachedContent(name, lang);
+      if (!isCurrent()) return;
+
+      // Show the page immediately and fill sections in as they are generated. Fresh cached
+      // sections are kept; stale ones are only shown for sections that fail to regenerate.
+      const place = cached?.fresh
+        ? { ...base, content: cached.content, citations: cached.citations }
+        : { ...base, content: {} };
+      setSelectedPlace(place);
+      setLoading(false);
+      await generateSections(place, cached?.fresh ? { existing: cached } : { fallback: cached || undefined });
     } catch (error) {
+      if (!isCurrent() || isAbortError(error)) return;
       console.error(error);
-      alert("Error fetching heritage data. Please try again.");
+      setSelectedPlace(null);
+      setPageError({ name, message: (error as Error)?.message || String(error) });
     } finally {
+      if (isCurrent()) setLoading(false);
+    }
+  };
+
+  // Regenerates every section that is missing or failed, keeping the ones already shown
+  const handleRetrySections = () => {
+    if (!selectedPlace) return;
+    const place = { ...selectedPlace, sectionErrors: {} };
+    setSelectedPlace(place);
+    generateSections(place, { existing: place }).catch(console.error);
+  };
+
+  // Follow the URL on the explore page: load the place it names (again, if the language changed),
+  // clear the page when it names none, and stop generating when the user leaves. Returning to a
+  // half-generated place picks up where it stopped.
+  useEffect(() => {
+    if (view !== 'explore') {
+      abortRef.current?.abort();
+      return;
+    }
+    if (!route.place) {
+      abortRef.current?.abort();
+      fetchIdRef.current++;
+      setSelectedPlace(null);
+      setPageError(null);
       setLoading(false);
+      return;
     }
+    if (selectedPlace?.name !== route.place || placeLangRef.current !== lang) {
+      fetchPlaceContent(route.place);
+      return;
+    }
+    if (!loading && !abortRef.current && missingSections(selectedPlace.content).some(key => !selectedPlace.sectionErrors?.[key])) {
+      generateSections(selectedPlace, { existing: selectedPlace }).catch(console.error);
+    }
+  }, [view, route.place, lang]);
+
+  useEffect(() => {
+    pendingSectionRef.current = route.section;
+  }, [route.section, route.place]);
+
+  // Sections are generated in page order, so once the linked one has content the layout above it is settled
+  useEffect(() => {
+    const key = pendingSectionRef.current;
+    if (!key || view !== 'explore' || loading || selectedPlace?.name !== route.place) return;
+    if (selectedPlace.content?.[key] === undefined && !selectedPlace.sectionErrors?.[key]) return;
+    pendingSectionRef.current = undefined;
+    document.getElementById(`section-${key}`)?.scrollIntoView({ behavior: 'smooth' });
+  }, [selectedPlace, loading, view, route.section]);
+
+  // Follow the narration down the page
+  useEffect(() => {
+    if (guide.playing && guide.current) document.getElementById(`section-${guide.current.section}`)?.scrollIntoView({ behavior: 'smooth' });
+  }, [guide.playing, guide.current?.id]);
+
+  const handleBack = () => navigate({ view: 'explore', lang, chat: route.chat });
+
+  const scrollToSection = (key: keyof HeritageContent) => {
+    navigate({ ...route, section: key }, { replace: true });
+    document.getElementById(`section-${key}`)?.scrollIntoView({ behavior: 'smooth' });
   };
 
   const handlePlaceSelect = (name: string) => {
-    fetchPlaceContent(name);
+    if (name.trim()) navigate({ view: 'explore', lang, place: name.trim(), chat: route.chat });
   };
 
-  const handleChatSend = async () => {
-    if (!chatInput.trim()) return;
-    const userMsg: ChatMessage = { role: 'user', text: chatInput };
-    setChatMessages(prev => [...prev, userMsg]);
-    setChatInput('');
-    
-    try {
-      const response = await GeminiService.chat(chatInput, chatMessages, lang);
-      setChatMessages(prev => [...prev, { role: 'model', text: response }]);
-    } catch (e) {
-      setChatMessages(prev => [...prev, { role: 'model', text: "Connection issues. Please try again." }]);
-    }
+  const handlePlaceRefresh = async () => {
+    if (!selectedPlace) return;
+    await CacheService.invalidate(CacheKeys.placePrefix(selectedPlace.name));
+    fetchPlaceContent(selectedPlace.name);
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => setOriginalImage(reader.result as string);
-      reader.readAsDataURL(file);
+  const handleChatSend = async (text: string, attachments: ChatAttachment[]) => {
+    if (chatStreaming) return;
+    const message: ChatMessage = { role: 'user', text, attachments: attachments.length ? attachments : undefined };
+    // Questions still waiting in the outbox have no answers yet, so they are left out of the conversation so far
+    const history = chatMessages.filter(msg => !msg.outboxId);
+    const queue = async () => {
+      const item = await OutboxService.queueChat(message, history, lang, selectedPlace?.name);
+      return { ...message, outboxId: item.id };
+    };
+    if (!navigator.onLine) {
+      const queuedMessage = await queue();
+      setChatMessages(prev => [...prev, queuedMessage]);
+      return;
     }
-  };
+    setChatMessages(prev => [...prev, message, { role: 'model', text: '' }]);
+    setChatStreaming(true);
 
-  const startReconstruction = async () => {
-    if (!originalImage) return;
-    setReconLoading(true);
+    // Append each streamed chunk to the placeholder model message at the end of the list
+    const appendToReply = (update: (text: string) => string) =>
+      setChatMessages(prev => [...prev.slice(0, -1), { role: 'model', text: update(prev[prev.length - 1].text) }]);
+
+    let answered = false;
     try {
-      const res = await GeminiService.reconstructMonument(originalImage, selectedPlace?.name || "Andhra Heritage");
-      setReconstructedImage(res);
+      for await (const chunk of AIService.chat(message, history, lang, selectedPlace)) {
+        answered = true;
+        appendToReply(text => text + chunk);
+      }
     } catch (e) {
-      alert("Reconstruction failed. Ensure the image is clear.");
+      // The connection dropped before any answer: wait for it to come back rather than failing the question
+      const queuedMessage = !answered && isOfflineError(e) ? await queue().catch(() => null) : null;
+      if (queuedMessage) setChatMessages(prev => [...prev.slice(0, -2), queuedMessage]);
+      else appendToReply(text => text || t('chat.error'));
     } finally {
-      setReconLoading(false);
+      setChatStreaming(false);
     }
   };
 
   return (
-    <div className="min-h-screen flex flex-col">
-      {/* Header */}
-      <header className="sticky top-0 z-40 bg-white/80 backdrop-blur-md border-b border-stone-200">
-        <div className="max-w-7xl mx-auto px-4 h-16 flex items-center justify-between">
-          <div 
-            className="flex items-center gap-2 cursor-pointer" 
-            onClick={() => setView('home')}
-          >
-            <div className="w-10 h-10 bg-amber-700 rounded-lg flex items-center justify-center text-white font-bold text-xl font-heritage">
-              ఇ
+    <LanguageContext.Provider value={lang}>
+      <div className="min-h-screen flex flex-col">
+        {/* Header */}
+        <header className="sticky top-0 z-40 bg-white/80 backdrop-blur-md border-b border-stone-200">
+          <div className="max-w-7xl mx-auto px-4 h-16 flex items-center justify-between">
+            <div 
+              className="flex items-center gap-2 cursor-pointer" 
+              onClick={() => setView('home')}
+            >
+              <div className="w-10 h-10 bg-amber-700 rounded-lg flex items-center justify-center text-white font-bold text-xl font-heritage">
+                ఇ
+              </div>
+              <div>
+                <h1 className="text-2xl font-bold font-heritage tracking-wider text-amber-900 leading-none">ఇతిహాస</h1>
+                <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">{t('app.tagline')}</p>
+              </div>
             </div>
-            <div>
-              <h1 className="text-2xl font-bold font-heritage tracking-wider text-amber-900 leading-none">ఇతిహాస</h1>
-              <p className="text-[10px] uppercase tracking-widest text-stone-500 font-bold">Heritage Reimagined</p>
+
+            <div className="hidden md:flex items-center gap-8 text-sm font-semibold text-stone-600">
+              <button onClick={() => setView('home')} className={`hover:text-amber-700 transition ${view === 'home' ? 'text-amber-700' : ''}`}>{t('nav.home')}</button>
+              <button onClick={() => setView('explore')} className={`hover:text-amber-700 transition ${view === 'explore' ? 'text-amber-700' : ''}`}>{t('nav.explore')}</button>
+              <button onClick={() => setView('reconstruct')} className={`hover:text-amber-700 transition ${view === 'reconstruct' ? 'text-amber-700' : ''}`}>{t('nav.reconstruct')}</button>
+              <button onClick={() => navigate({ view: 'learn', lang, chat: route.chat })} className={`hover:text-amber-700 transition ${view === 'learn' ? 'text-amber-700' : ''}`}>{t('nav.learn')}</button>
+              <button onClick={() => setView('inscriptions')} className={`hover:text-amber-700 transition ${view === 'inscriptions' ? 'text-amber-700' : ''}`}>{t('nav.inscriptions')}</button>
+              <button onClick={() => setView('map')} className={`hover:text-amber-700 transition ${view === 'map' ? 'text-amber-700' : ''}`}>{t('nav.map')}</button>
+              <button onClick={() => setView('saved')} className={`hover:text-amber-700 transition ${view === 'saved' ? 'text-amber-700' : ''}`}>{t('nav.saved')}</button>
+              <button onClick={() => setView('timeline')} className={`hover:text-amber-700 transition ${view === 'timeline' ? 'text-amber-700' : ''}`}>{t('nav.timeline')}</button>
+              <button onClick={() => navigate({ view: 'poets', lang, chat: route.chat })} className={`hover:text-amber-700 transition ${view === 'poets' ? 'text-amber-700' : ''}`}>{t('nav.poets')}</button>
             </div>
-          </div>
 
-          <div className="hidden md:flex items-center gap-8 text-sm font-semibold text-stone-600">
-            <button onClick={() => setView('home')} className={`hover:text-amber-700 transition ${view === 'home' ? 'text-amber-700' : ''}`}>Home</button>
-            <button onClick={() => setView('explore')} className={`hover:text-amber-700 transition ${view === 'explore' ? 'text-amber-700' : ''}`}>Explore</button>
-            <button onClick={() => setView('reconstruct')} className={`hover:text-amber-700 transition ${view === 'reconstruct' ? 'text-amber-700' : ''}`}>Reconstruct</button>
+            <div className="flex items-center gap-4">
+              <OfflineIndicator online={online} queued={queued} />
+              <LanguageSelector current={lang} onChange={setLang} />
+            </div>
           </div>
+        </header>
+        <OfflineBanner online={online} queued={queued} />
 
-          <div className="flex items-center gap-4">
-            <LanguageSelector current={lang} onChange={setLang} />
-          </div>
-        </div>
-      </header>
-
-      {/* Main Content */}
-      <main className="flex-grow">
-        {view === 'home' && (
-          <div className="relative">
-            <div className="relative h-[80vh] flex items-center justify-center text-center overflow-hidden bg-stone-900">
-              <img 
-                src="https://images.unsplash.com/photo-1590050752117-238cb0fb12b1?auto=format&fit=crop&q=80&w=2000" 
-                className="absolute inset-0 w-full h-full object-cover opacity-40"
-                alt="Andhra Heritage"
-              />
-              <div className="relative z-10 max-w-4xl px-4">
-                <h2 className="text-5xl md:text-7xl font-bold font-heritage text-white mb-6 animate-fade-in">
-                  {lang === 'en' ? 'Discover the Soul of Andhra Pradesh' : lang === 'te' ? 'ఆంధ్రప్రదేశ్ ఆత్మను అన్వేషించండి' : 'आंध्र प्रदेश की आत्मा को जानें'}
-                </h2>
-                <p className="text-xl text-stone-200 mb-8 leading-relaxed max-w-2xl mx-auto">
-                  {lang === 'en' 
-                    ? 'Journey through thousands of years of history, architecture, and literature. ITIHAASA uses cutting-edge AI to bring forgotten monuments back to life.'
-                    : lang === 'te'
-                    ? 'వేల సంవత్సరాల చరిత్ర, వాస్తుశిల్పం మరియు సాహిత్యం ద్వారా ప్రయాణం చేయండి. ఇతిహాస అత్యాధునిక AIని ఉపయోగించి మరచిపోయిన స్మారక చిహ్నాలకు జీవం పోస్తుంది.'
-                    : 'हजारों वर्षों के इतिहास, वास्तुकला और साहित्य की यात्रा करें। इतिहास आधुनिक एआई का उपयोग करके भूले हुए स्मारकों को फिर से जीवित करता है।'}
-                </p>
-                <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
-                  <button 
-                    onClick={() => setView('explore')}
-                    className="w-full sm:w-auto px-8 py-4 bg-amber-600 hover:bg-amber-700 text-white rounded-full font-bold text-lg transition shadow-xl flex items-center justify-center gap-2"
-                  >
-                    <Compass size={24} /> {lang === 'en' ? 'Explore Heritage' : lang === 'te' ? 'వారసత్వాన్ని అన్వేషించండి' : 'विरासत का अन्वेषण करें'}
-                  </button>
-                  <button 
-                    onClick={() => setView('reconstruct')}
-                    className="w-full sm:w-auto px-8 py-4 bg-white/10 hover:bg-white/20 text-white border border-white/30 rounded-full font-bold text-lg transition backdrop-blur-md flex items-center justify-center gap-2"
-                  >
-                    <History size={24} /> {lang === 'en' ? 'AI Reconstruction' : lang === 'te' ? 'AI పునర్నిర్మాణం' : 'एआई पुनर्निर्माण'}
-                  </button>
+        {/* Main Content */}
+        <main className="flex-grow">
+          {view === 'home' && (
+            <div className="relative">
+              <div className="relative h-[80vh] flex items-center justify-center text-center overflow-hidden bg-stone-900">
+                <img 
+                  src="https://images.unsplash.com/photo-1590050752117-238cb0fb12b1?auto=format&fit=crop&q=80&w=2000" 
+                  className="absolute inset-0 w-full h-full object-cover opacity-40"
+                  alt={t('home.heroAlt')}
+                />
+                <div className="relative z-10 max-w-4xl px-4">
+                  <h2 className="text-5xl md:text-7xl font-bold font-heritage text-white mb-6 animate-fade-in">
+                    {t('home.title')}
+                  </h2>
+                  <p className="text-xl text-stone-200 mb-8 leading-relaxed max-w-2xl mx-auto">
+                    {t('home.intro')}
+                  </p>
+                  <div className="flex flex-col sm:flex-row items-center justify-center gap-4">
+                    <button 
+                      onClick={() => setView('explore')}
+                      className="w-full sm:w-auto px-8 py-4 bg-amber-600 hover:bg-amber-700 text-white rounded-full font-bold text-lg transition shadow-xl flex items-center justify-center gap-2"
+                    >
+                      <Compass size={24} /> {t('home.explore')}
+                    </button>
+                    <button 
+                      onClick={() => setView('reconstruct')}
+                      className="w-full sm:w-auto px-8 py-4 bg-white/10 hover:bg-white/20 text-white border border-white/30 rounded-full font-bold text-lg transition backdrop-blur-md flex items-center justify-center gap-2"
+                    >
+                      <History size={24} /> {t('home.reconstruct')}
+                    </button>
+                  </div>
                 </div>
               </div>
-            </div>
 
-            <div className="max-w-7xl mx-auto px-4 -mt-10 relative z-20">
-              <div className="bg-white rounded-2xl shadow-2xl p-6 md:p-8 flex flex-col md:flex-row gap-6 items-center">
-                <div className="flex-grow w-full">
-                  <label className="block text-xs font-bold uppercase text-stone-400 mb-2">Search Places</label>
-                  <div className="relative">
-                    <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-stone-400" size={20} />
-                    <input 
-                      type="text"
-                      placeholder={lang === 'en' ? "Search for a heritage site..." : lang === 'te' ? "వారసత్వ ప్రదేశం కోసం వెతకండి..." : "विरासत स्थल की खोज करें..."}
-                      className="w-full pl-12 pr-4 py-3 bg-stone-100 border-none rounded-xl focus:ring-2 focus:ring-amber-500"
-                      value={searchQuery}
-                      onChange={(e) => setSearchQuery(e.target.value)}
-                      onKeyDown={(e) => e.key === 'Enter' && handlePlaceSelect(searchQuery)}
-                    />
+              <div className="max-w-7xl mx-auto px-4 -mt-10 relative z-20">
+                <div className="bg-white rounded-2xl shadow-2xl p-6 md:p-8 flex flex-col md:flex-row gap-6 items-center">
+                  <div className="flex-grow w-full">
+                    <label className="block text-xs font-bold uppercase text-stone-400 mb-2">{t('home.searchLabel')}</label>
+                    <div className="relative">
+                      <Search className="absolute start-4 top-1/2 -translate-y-1/2 text-stone-400" size={20} />
+                      <input 
+                        type="text"
+                        placeholder={t('home.searchPlaceholder')}
+                        className="w-full ps-12 pe-4 py-3 bg-stone-100 border-none rounded-xl focus:ring-2 focus:ring-amber-500"
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        onKeyDown={(e) => e.key === 'Enter' && handlePlaceSelect(CatalogService.resolve(searchQuery)?.titles.en || searchQuery)}
+                      />
+                    </div>
                   </div>
-                </div>
-                <div className="w-px h-12 bg-stone-200 hidden md:block"></div>
-                <div className="w-full md:w-auto">
-                  <label className="block text-xs font-bold uppercase text-stone-400 mb-2">Popular Sites</label>
-                  <div className="flex gap-2 overflow-x-auto pb-2 no-scrollbar">
-                    {['Lepakshi', 'Amaravati', 'Tirupati', 'Srisailam'].map(site => (
-                      <button 
-                        key={site}
-                        onClick={() => handlePlaceSelect(site)}
-                        className="px-4 py-2 bg-stone-100 hover:bg-amber-50 rounded-lg text-sm font-medium whitespace-nowrap transition"
-                      >
-                        {site}
-                      </button>
-                    ))}
+                  <div className="w-px h-12 bg-stone-200 hidden md:block"></div>
+                  <div className="w-full md:w-auto">
+                    <label className="block text-xs font-bold uppercase text-stone-400 mb-2">{t('home.bookmarks')}</label>
+                    <div className="flex gap-2 overflow-x-auto pb-2 no-scrollbar">
+                      {bookmarks.length === 0 && <p className="text-sm text-stone-400 whitespace-nowrap py-2">{t('home.noBookmarks')}</p>}
+                      {bookmarks.map(bookmark => (
+                        <button 
+                          key={bookmark.id}
+                          onClick={() => handlePlaceSelect(bookmark.placeName)}
+                          className="px-4 py-2 bg-stone-100 hover:bg-amber-50 rounded-lg text-sm font-medium whitespace-nowrap transition"
+                        >
+                          {bookmark.placeName}
+                        </button>
+                      ))}
+                    </div>
                   </div>
                 </div>
               </div>
             </div>
-          </div>
-        )}
+          )}
 
-        {view === 'explore' && (
-          <div className="max-w-7xl mx-auto px-4 py-12">
-            {!selectedPlace && !loading ? (
-              <div className="text-center py-20">
-                <Compass size={64} className="mx-auto text-stone-300 mb-4" />
-                <h2 className="text-3xl font-heritage font-bold mb-2">Select a Destination</h2>
-                <div className="grid grid-cols-2 md:grid-cols-4 gap-4 max-w-4xl mx-auto mt-8">
-                  {placesList.map(place => (
-                    <button 
-                      key={place}
-                      onClick={() => handlePlaceSelect(place)}
-                      className="p-6 bg-white border border-stone-200 rounded-2xl hover:border-amber-500 hover:shadow-lg transition text-left group"
-                    >
-                      <MapPin size={24} className="text-amber-600 mb-3 group-hover:scale-110 transition" />
-                      <span className="font-bold text-stone-800">{place}</span>
-                    </button>
-                  ))}
+          {view === 'explore' && (
+            <div className="max-w-7xl mx-auto px-4 py-12">
+              {!selectedPlace && !loading && !pageError ? (
+                <div className="text-center py-20">
+                  <Compass size={64} className="mx-auto text-stone-300 mb-4" />
+                  <h2 className="text-3xl font-heritage font-bold mb-2">{t('explore.selectDestination')}</h2>
+                  <DossierImportButton onImported={(place, placeLang) => navigate({ view: 'explore', lang: placeLang, place, chat: route.chat })} />
+                  <CatalogBrowser lang={lang} onSelect={handlePlaceSelect} />
                 </div>
-              </div>
-            ) : loading ? (
-              <div className="flex flex-col items-center justify-center py-32">
-                <Loader2 size={48} className="animate-spin text-amber-600 mb-4" />
-                <p className="text-xl font-heritage italic">Consulting the archives in {lang === 'en' ? 'English' : lang === 'te' ? 'తెలుగు' : 'हिंदी'}...</p>
-              </div>
-            ) : selectedPlace && (
-              <div className="animate-fade-in">
-                <div className="mb-8 flex flex-col md:flex-row md:items-end justify-between gap-4">
-                  <div>
-                    <button onClick={() => setSelectedPlace(null)} className="text-stone-500 hover:text-stone-800 text-sm mb-2 flex items-center gap-1">
-                      <ChevronRight className="rotate-180" size={16} /> {lang === 'en' ? 'Back' : lang === 'te' ? 'వెనుకకు' : 'पीछे'}
+              ) : loading ? (
+                <div className="flex flex-col items-center justify-center py-32">
+                  <Loader2 size={48} className="animate-spin text-amber-600 mb-4" />
+                  <p className="text-xl font-heritage italic">{t('explore.loading', { language: LANGUAGE_INFO[lang].name })}</p>
+                </div>
+              ) : pageError ? (
+                <div className="max-w-xl mx-auto text-center py-20">
+                  <AlertTriangle size={48} className="mx-auto text-red-500 mb-4" />
+                  <h2 className="text-3xl font-heritage font-bold mb-2">{t('explore.loadError', { place: pageError.name })}</h2>
+                  <p className="text-stone-500 mb-6 text-sm">{pageError.message}</p>
+                  <div className="flex justify-center gap-3">
+                    <button onClick={handleBack} className="px-5 py-2 bg-stone-100 hover:bg-stone-200 rounded-full text-sm font-medium text-stone-600 transition">
+                      {t('common.back')}
+                    </button>
+                    <button onClick={() => fetchPlaceContent(pageError.name)} className="px-5 py-2 bg-amber-600 hover:bg-amber-700 rounded-full text-sm font-medium text-white flex items-center gap-2 transition">
+                      <RefreshCw size={16} /> {t('common.tryAgain')}
                     </button>
-                    <h2 className="text-5xl font-bold font-heritage text-stone-900">{selectedPlace.name}</h2>
                   </div>
                 </div>
+              ) : selectedPlace && (
+                <div className="animate-fade-in">
+                  <div className="mb-8 flex flex-col md:flex-row md:items-end justify-between gap-4">
+                    <div>
+                      <button onClick={handleBack} className="text-stone-500 hover:text-stone-800 text-sm mb-2 flex items-center gap-1">
+                        <ChevronRight className="rotate-180 rtl:rotate-0" size={16} /> {t('common.back')}
+                      </button>
+                      <h2 className="text-5xl font-bold font-heritage text-stone-900">{selectedPlace.name}</h2>
+                      {selectedPlace.coords && (
+                        <button onClick={() => setView('map')} className="mt-2 text-sm text-stone-500 hover:text-amber-700 flex items-center gap-1">
+                          <MapPin size={14} /> {selectedPlace.coords.lat.toFixed(4)}°, {selectedPlace.coords.lng.toFixed(4)}°
+                        </button>
+                      )}
+                    </div>
+                    <div className="flex gap-2 self-start md:self-auto">
+                      <AudioGuideButton guide={guide} />
+                      <button onClick={() => navigate({ view: 'learn', lang, place: selectedPlace.name, chat: route.chat })} className="px-4 py-2 bg-stone-100 hover:bg-stone-200 rounded-full text-sm font-medium text-stone-600 flex items-center gap-2 transition">
+                        <GraduationCap size={16} /> {t('explore.quiz')}
+                      </button>
+                      <BookmarkMenu placeName={selectedPlace.name} />
+                      <OfflineDownloadMenu placeNames={[selectedPlace.name]} lang={lang} online={online} />
+                      <ExportMenu place={selectedPlace} lang={lang} />
+                      <button onClick={() => navigate({ view: 'compare', lang, place: selectedPlace.name, chat: route.chat })} className="px-4 py-2 bg-amber-600 hover:bg-amber-700 rounded-full text-sm font-medium text-white flex items-center gap-2 transition">
+                        <Columns2 size={16} /> {t('explore.compare')}
+                      </button>
+                      <button onClick={handlePlaceRefresh} className="px-4 py-2 bg-stone-100 hover:bg-stone-200 rounded-full text-sm font-medium text-stone-600 flex items-center gap-2 transition">
+                        <RefreshCw size={16} /> {t('explore.refresh')}
+                      </button>
+                    </div>
+                  </div>
 
-                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-12">
-                  {selectedPlace.images.slice(0, 3).map((img, i) => (
-                    <div key={i} className={`relative overflow-hidden rounded-2xl h-64 ${i === 0 ? 'md:col-span-2' : ''}`}>
-                      <img src={img.url} alt={img.caption} className="w-full h-full object-cover" />
+                  <ImageGallery images={selectedPlace.images} />
+
+                  <div className="grid grid-cols-1 lg:grid-cols-12 gap-12">
+                    <div className="lg:col-span-8">
+                      {HERITAGE_SECTIONS.filter(section => section.key !== 'poets').map(section => {
+                        const Icon = SECTION_ICONS[section.key];
+                        const text = selectedPlace.content?.[section.key as TextSectionKey];
+                        const claims = selectedPlace.citations?.[section.key as TextSectionKey];
+                        const error = selectedPlace.sectionErrors?.[section.key];
+                        const narrated = guide.current?.id === section.key ? guide.position?.unit : undefined;
+                        return (
+                          <Section key={section.key} id={`section-${section.key}`} title={t(`section.${section.key}`)} icon={<Icon size={24} className="text-amber-700" />} badge={text !== undefined && <AiBadge />}>
+                            {text === undefined ? (error ? <SectionError onRetry={handleRetrySections} /> : <SectionSkeleton />) : claims ? (
+                              <CitedText id={section.key} claims={claims} passages={selectedPlace.passages || []} source={selectedPlace.source} activeClaim={narrated} />
+                            ) : <NarratedText text={text} lang={lang} activeSentence={narrated} />}
+                            <SectionNoteEditor note={notebook.notes[section.key]} onSave={(note) => notebook.saveNote(section.key, note)} />
+                          </Section>
+                        );
+                      })}
                     </div>
-                  ))}
-                </div>
 
-                <div className="grid grid-cols-1 lg:grid-cols-12 gap-12">
-                  <div className="lg:col-span-8">
-                    <Section title={lang === 'en' ? 'Historical Overview' : lang === 'te' ? 'చారిత్రక అవలోకనం' : 'ऐतिहासिक अवलोकन'} icon={<Info size={24} className="text-amber-700" />}>
-                      <p>{selectedPlace.content?.overview}</p>
-                    </Section>
-                    <Section title={lang === 'en' ? 'Architecture' : lang === 'te' ? 'వాస్తుశిల్పం' : 'वास्तुकला'} icon={<ImageIcon size={24} className="text-amber-700" />}>
-                      <p>{selectedPlace.content?.architecture}</p>
-                    </Section>
-                    <Section title={lang === 'en' ? 'Local Traditions' : lang === 'te' ? 'స్థానిక సంప్రదాయాలు' : 'स्थानीय परंपराएं'} icon={<Compass size={24} className="text-amber-700" />}>
-                      <p>{selectedPlace.content?.traditions}</p>
-                      <div className="bg-amber-50 p-6 rounded-xl border border-amber-100 mt-4">
-                        <h4 className="font-bold text-amber-900 mb-2">{lang === 'en' ? 'Regional Cuisine' : lang === 'te' ? 'ప్రాంతీయ వంటకాలు' : 'क्षेत्रीय व्यंजन'}</h4>
-                        <p className="text-stone-700">{selectedPlace.content?.cuisine}</p>
-                      </div>
-                    </Section>
-                  </div>
+                    <div className="lg:col-span-4">
+                      <div className="sticky top-24 space-y-8 max-h-[calc(100vh-7rem)] overflow-y-auto">
+                        <nav className="bg-white border border-stone-200 p-6 rounded-2xl">
+                          <h3 className="font-bold uppercase tracking-widest text-stone-500 mb-4 flex items-center gap-2 text-sm">
+                            <List size={18} /> {t('explore.contents')}
+                          </h3>
+                          <ol className="space-y-1">
+                            {HERITAGE_SECTIONS.map(section => {
+                              const Icon = SECTION_ICONS[section.key];
+                              const ready = selectedPlace.content?.[section.key] !== undefined;
+                              const failed = !ready && !!selectedPlace.sectionErrors?.[section.key];
+                              return (
+                                <li key={section.key}>
+                                  <button
+                                    onClick={() => scrollToSection(section.key)}
+                                    className={`w-full text-start px-3 py-1.5 rounded-lg flex items-center gap-2 text-sm transition hover:bg-amber-50 hover:text-amber-800 ${ready ? 'text-stone-700' : failed ? 'text-red-600' : 'text-stone-400'}`}
+                                  >
+                                    {ready ? <Icon size={14} /> : failed ? <AlertTriangle size={14} /> : <Loader2 size={14} className="animate-spin" />} {t(`section.${section.key}`)}
+                                  </button>
+                                </li>
+                              );
+                            })}
+                          </ol>
+                        </nav>
+
+                        {selectedPlace.infobox && (selectedPlace.infobox.built || selectedPlace.infobox.architect || selectedPlace.infobox.dynasty) && (
+                          <div className="bg-amber-50 border border-amber-100 p-6 rounded-2xl">
+                            <h3 className="font-bold uppercase tracking-widest text-amber-900 mb-4 flex items-center gap-2 text-sm">
+                              <Landmark size={18} /> {t('explore.quickFacts')}
+                            </h3>
+                            <dl className="space-y-2 text-sm">
+                              {([
+                                ['built', t('explore.built')],
+                                ['architect', t('explore.architect')],
+                                ['dynasty', t('explore.dynasty')]
+                              ] as const).map(([field, label]) => selectedPlace.infobox?.[field] && (
+                                <div key={field} className="flex gap-3">
+                                  <dt className="w-28 shrink-0 text-stone-500">{label}</dt>
+                                  <dd className="text-stone-800 font-medium">{selectedPlace.infobox[field]}</dd>
+                                </div>
+                              ))}
+                            </dl>
+                            <p className="text-[10px] text-stone-400 mt-4">{t('explore.infoboxSource')}</p>
+                          </div>
+                        )}
 
-                  <div className="lg:col-span-4">
-                    <div className="sticky top-24 space-y-8">
-                      <div className="bg-stone-900 text-stone-100 p-8 rounded-2xl shadow-xl">
-                        <h3 className="text-xl font-bold uppercase tracking-widest text-amber-400 mb-6 flex items-center gap-2 text-sm">
-                          <BookOpen size={20} /> {lang === 'en' ? 'Literary Figures' : lang === 'te' ? 'సాహిత్య వ్యక్తులు' : 'साहित्यिक हस्तियां'}
-                        </h3>
-                        <div className="space-y-8">
-                          {selectedPlace.content?.poets.map((poet, i) => (
-                            <div key={i} className="border-l-2 border-amber-600/30 pl-4">
-                              <h4 className="text-xl font-heritage font-bold text-amber-500">{poet.name}</h4>
-                              <p className="text-xs text-stone-400 mb-2">{poet.period}</p>
-                              <div className="italic text-stone-300 bg-white/5 p-4 rounded-lg font-heritage text-lg leading-tight">
-                                {poet.famousVerse}
+                        <div id="section-poets" className="bg-stone-900 text-stone-100 p-8 rounded-2xl shadow-xl scroll-mt-24">
+                          <h3 className="text-xl font-bold uppercase tracking-widest text-amber-400 mb-6 flex items-center gap-2 text-sm">
+                            <BookOpen size={20} /> {t('section.poets')}
+                            {selectedPlace.content?.poets && <AiBadge />}
+                          </h3>
+                          <div className="space-y-8">
+                            {!selectedPlace.content?.poets && (selectedPlace.sectionErrors?.poets
+                              ? <SectionError onRetry={handleRetrySections} dark />
+                              : <Loader2 className="animate-spin text-amber-400" />)}
+                            {selectedPlace.content?.poets?.map((poet, i) => (
+                              <div key={i} className={`border-s-2 ps-4 transition-colors ${(guide.current?.id === 'poets' && guide.position?.unit === i) || guide.current?.poetIndex === i ? 'border-amber-400' : 'border-amber-600/30'}`}>
+                                <button onClick={() => openPoet(poet.name)} className="text-xl font-heritage font-bold text-amber-500 hover:text-amber-400 text-start" title={t('explore.poetProfile')}>
+                                  {PoetService.displayName(poet.name)}
+                                </button>
+                                <p className="text-xs text-stone-400 mb-2">{poet.period} • {poet.language}</p>
+                                <p className="text-sm text-stone-300 mb-3 leading-relaxed">{poet.contribution}</p>
+                                {poet.works.length > 0 && <p className="text-xs text-stone-400 mb-3">{poet.works.join(' • ')}</p>}
+                                <div className={`text-stone-300 p-4 rounded-lg transition-colors ${guide.current?.poetIndex === i ? 'bg-amber-500/20' : 'bg-white/5'}`}>
+                                  <p className="italic font-heritage text-lg leading-tight whitespace-pre-wrap">{poet.famousVerse}</p>
+                                  {(poet.verseTransliteration || romanize(poet.famousVerse)) !== poet.famousVerse && (
+                                    <p dir="ltr" className="text-sm text-stone-400 italic mt-2 whitespace-pre-wrap">{poet.verseTransliteration || romanize(poet.famousVerse)}</p>
+                                  )}
+                                  {poet.verseTranslation && poet.verseTranslation !== poet.famousVerse && (
+                                    <p className="text-sm text-stone-200 mt-2 whitespace-pre-wrap">{poet.verseTranslation}</p>
+                                  )}
+                                </div>
+                                {poet.source ? (
+                                  <p className="text-xs text-stone-500 mt-2">— {poet.source}</p>
+                                ) : (
+                                  <p className="text-xs text-amber-500 mt-2 flex items-center gap-1"><UncitedFlag /> {t('explore.poetNoSource')}</p>
+                                )}
                               </div>
-                            </div>
-                          ))}
+                            ))}
+                          </div>
+                          <SectionNoteEditor note={notebook.notes.poets} onSave={(note) => notebook.saveNote('poets', note)} />
                         </div>
+
+                        <PinnedPanel notebook={notebook} />
                       </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            )}
-          </div>
-        )}
-
-        {view === 'reconstruct' && (
-          <div className="max-w-5xl mx-auto px-4 py-16">
-            <div className="text-center mb-12">
-              <History size={48} className="mx-auto text-amber-600 mb-4" />
-              <h2 className="text-4xl font-heritage font-bold mb-4">{lang === 'en' ? 'Monument Reconstruction' : lang === 'te' ? 'స్మారక చిహ్నాల పునర్నిర్మాణం' : 'स्मारक पुनर्निर्माण'}</h2>
-              <p className="text-stone-500 max-w-2xl mx-auto">{lang === 'en' ? 'Visualize original grandeur through AI.' : lang === 'te' ? 'AI ద్వారా అసలు వైభవాన్ని ఊహించుకోండి.' : 'एआई के माध्यम से मूल भव्यता की कल्पना करें।'}</p>
+              )}
             </div>
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
-              <div className="flex flex-col gap-4">
-                <div 
-                  className="border-2 border-dashed rounded-3xl p-12 flex flex-col items-center justify-center transition cursor-pointer h-[400px] bg-white border-stone-300 hover:border-amber-400"
-                  onClick={() => document.getElementById('file-upload')?.click()}
-                >
-                  {originalImage ? (
-                    <img src={originalImage} className="w-full h-full object-contain rounded-xl" alt="Original" />
-                  ) : (
-                    <div className="text-center">
-                      <Upload size={32} className="mx-auto text-amber-600 mb-2" />
-                      <p className="font-bold">{lang === 'en' ? 'Upload Image' : lang === 'te' ? 'చిత్రాన్ని అప్‌లోడ్ చేయండి' : 'छवि अपलोड करें'}</p>
-                    </div>
-                  )}
-                  <input id="file-upload" type="file" hidden accept="image/*" onChange={handleFileUpload} />
+          )}
+
+          {view === 'compare' && (
+            <CompareView
+              lang={lang}
+              initialLeft={route.place || ''}
+              suggestions={CATALOG_TITLES}
+              onOpenPlace={handlePlaceSelect}
+            />
+          )}
+
+          {view === 'inscriptions' && (
+            <InscriptionView lang={lang} placeName={route.place} suggestions={CATALOG_TITLES} />
+          )}
+
+          {view === 'learn' && (
+            <LearnView
+              lang={lang}
+              placeName={route.place}
+              pathId={route.path}
+              onNavigate={(place, path) => navigate({ view: 'learn', lang, place, path, chat: route.chat })}
+              onOpenPlace={handlePlaceSelect}
+            />
+          )}
+
+          {view === 'saved' && (
+            <SavedView lang={lang} online={online} onOpenPlace={(place, section) => navigate({ view: 'explore', lang, place, section, chat: route.chat })} />
+          )}
+
+          {view === 'timeline' && (
+            <TimelineView lang={lang} onOpen={(place, section) => navigate({ view: 'explore', lang, place, section, chat: route.chat })} />
+          )}
+
+          {view === 'poets' && (
+            <PoetsView
+              lang={lang}
+              poetId={route.poet}
+              onOpenPoet={(poet) => navigate({ view: 'poets', lang, poet, chat: route.chat })}
+              onOpenPlace={(place, section) => navigate({ view: 'explore', lang, place, section, chat: route.chat })}
+            />
+          )}
+
+          {view === 'map' && (
+            <div className="max-w-7xl mx-auto px-4 py-12">
+              <div className="mb-8 flex flex-col md:flex-row md:items-end justify-between gap-4">
+                <div>
+                  <MapIcon size={40} className="text-amber-600 mb-2" />
+                  <h2 className="text-4xl font-heritage font-bold">{t('map.title')}</h2>
+                </div>
+                <div className="flex gap-3">
+                  <select value={mapFilters.dynasty || ''} onChange={(e) => setMapFilters(prev => ({ ...prev, dynasty: e.target.value || undefined }))} className="px-4 py-2 bg-white border border-stone-200 rounded-xl text-sm">
+                    <option value="">{t('map.allEras')}</option>
+                    {mapFacets.dynasty.map(({ value, count }) => <option key={value} value={value}>{value} ({count})</option>)}
+                  </select>
+                  <select value={mapFilters.category || ''} onChange={(e) => setMapFilters(prev => ({ ...prev, category: e.target.value || undefined }))} className="px-4 py-2 bg-white border border-stone-200 rounded-xl text-sm">
+                    <option value="">{t('map.allTypes')}</option>
+                    {mapFacets.category.map(({ value, count }) => <option key={value} value={value}>{t(`category.${value as HeritageSite['category']}`)} ({count})</option>)}
+                  </select>
                 </div>
-                {originalImage && (
-                  <button 
-                    onClick={startReconstruction}
-                    disabled={reconLoading}
-                    className="w-full py-4 bg-amber-600 text-white rounded-2xl font-bold flex items-center justify-center gap-2"
-                  >
-                    {reconLoading ? <Loader2 className="animate-spin" /> : <History />} {lang === 'en' ? 'Reconstruct' : lang === 'te' ? 'పునర్నిర్మించు' : 'पुनर्निर्माण करें'}
-                  </button>
-                )}
               </div>
-              
-              <div className="bg-stone-100 rounded-3xl border border-stone-200 h-[400px] flex items-center justify-center">
-                {reconstructedImage ? (
-                  <img src={reconstructedImage} className="w-full h-full object-contain rounded-xl" alt="Reconstructed" />
-                ) : (
-                  <p className="text-stone-400 italic">{reconLoading ? 'Processing...' : 'Result will appear here'}</p>
-                )}
+              <div className="relative h-[70vh]">
+                <HeritageMap places={mapPlaces} onSelect={handlePlaceSelect} />
               </div>
             </div>
+          )}
+
+          {/* Kept mounted so the upload and its version history survive switching views */}
+          <div hidden={view !== 'reconstruct'}>
+            <ReconstructView lang={lang} placeName={route.place || selectedPlace?.name} />
           </div>
+        </main>
+
+        {view === 'explore' && selectedPlace && (
+          <AudioGuideBar guide={guide} poetNames={selectedPlace.content?.poets?.map(p => p.name) || []} />
         )}
-      </main>
-
-      {/* Floating Chatbot */}
-      <div className="fixed bottom-6 right-6 z-50">
-        <button 
-          onClick={() => setIsChatOpen(!isChatOpen)}
-          className={`w-16 h-16 rounded-full shadow-2xl flex items-center justify-center transition ${isChatOpen ? 'bg-stone-800' : 'bg-amber-600'} text-white`}
-        >
-          {isChatOpen ? <X size={28} /> : <MessageSquare size={28} />}
-        </button>
-
-        {isChatOpen && (
-          <div className="absolute bottom-20 right-0 w-[350px] md:w-[400px] h-[500px] bg-white rounded-3xl shadow-2xl border border-stone-200 flex flex-col overflow-hidden">
-            <div className="p-4 bg-amber-700 text-white font-bold">{lang === 'en' ? 'Ask ITIHAASA' : lang === 'te' ? 'ఇతిహాసను అడగండి' : 'इतिहास से पूछें'}</div>
-            <div className="flex-grow p-4 overflow-y-auto space-y-4">
-              {chatMessages.map((msg, i) => (
-                <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                  <div className={`max-w-[85%] p-3 rounded-2xl text-sm ${msg.role === 'user' ? 'bg-amber-600 text-white' : 'bg-stone-100 text-stone-800'}`}>
-                    {msg.text}
+
+        {/* Floating Chatbot */}
+        <div className="fixed bottom-6 end-6 z-50">
+          <button 
+            onClick={() => setIsChatOpen(!isChatOpen)}
+            className={`w-16 h-16 rounded-full shadow-2xl flex items-center justify-center transition ${isChatOpen ? 'bg-stone-800' : 'bg-amber-600'} text-white`}
+          >
+            {isChatOpen ? <X size={28} /> : <MessageSquare size={28} />}
+          </button>
+
+          {isChatOpen && (
+            <div className="absolute bottom-20 end-0 w-[350px] md:w-[400px] h-[500px] bg-white rounded-3xl shadow-2xl border border-stone-200 flex flex-col overflow-hidden">
+              <div className="p-4 bg-amber-700 text-white font-bold">{t('chat.title')}</div>
+              <div className="flex-grow p-4 overflow-y-auto space-y-4">
+                {chatMessages.map((msg, i) => (
+                  <div key={i} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                    <div className={`max-w-[85%] p-3 rounded-2xl text-sm ${msg.role === 'user' ? 'bg-amber-600 text-white' : 'bg-stone-100 text-stone-800'}`}>
+                      {msg.attachments?.map((attachment, j) => (
+                        <img key={j} src={attachment.dataUrl} alt={attachment.name || t('chat.photo')} className="max-h-40 rounded-lg mb-2" />
+                      ))}
+                      {msg.text || <Loader2 size={16} className="animate-spin text-stone-400" />}
+                      {msg.outboxId && (
+                        <span className="mt-1 text-[11px] text-amber-100 flex items-center gap-1"><Clock size={12} /> {t('offline.queued')}</span>
+                      )}
+                      {msg.role === 'model' && msg.text && selectedPlace && !(chatStreaming && i === chatMessages.length - 1) && (
+                        <PinAnswerButton
+                          placeName={selectedPlace.name}
+                          pinned={notebook.pins.some(pin => pin.answer === msg.text)}
+                          onPin={() => notebook.pinAnswer(chatMessages[i - 1]?.text || t('chat.photoQuestion'), msg.text, lang)}
+                        />
+                      )}
+                    </div>
                   </div>
-                </div>
-              ))}
-              <div ref={chatEndRef}></div>
-            </div>
-            <div className="p-4 border-t flex gap-2">
-              <input 
-                type="text" 
-                value={chatInput}
-                onChange={(e) => setChatInput(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && handleChatSend()}
-                className="flex-grow bg-stone-100 border-none rounded-xl"
-                placeholder="..."
-              />
-              <button onClick={handleChatSend} className="p-2 bg-amber-600 text-white rounded-xl"><ChevronRight /></button>
+                ))}
+                <div ref={chatEndRef}></div>
+              </div>
+              <ChatComposer lang={lang} disabled={chatStreaming} onSend={handleChatSend} />
             </div>
+          )}
+        </div>
+
+        <footer className="bg-stone-900 text-stone-500 py-12 px-4 text-center">
+          <div className="max-w-7xl mx-auto">
+            <h1 className="text-2xl font-bold font-heritage tracking-wider text-white">ఇతిహాస</h1>
+            <p className="mt-8 text-[10px] uppercase tracking-widest">{t('app.footer')}</p>
           </div>
-        )}
+        </footer>
       </div>
-
-      <footer className="bg-stone-900 text-stone-500 py-12 px-4 text-center">
-        <div className="max-w-7xl mx-auto">
-          <h1 className="text-2xl font-bold font-heritage tracking-wider text-white">ఇతిహాస</h1>
-          <p className="mt-8 text-[10px] uppercase tracking-widest">© 2024 ITIHAASA AI • Cultural Heritage Preservation Framework</p>
-        </div>
-      </footer>
-    </div>
+    </LanguageContext.Provider>
   );
 };
 
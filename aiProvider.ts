@@ -0,0 +1,31 @@
+import { ChatMessage, CitedClaim, HeritageContent, InscriptionReading, Language, PlaceComparison, PlaceDetails, QuizChoiceQuestion, ReconstructionOptions, ReconstructionResult, SourcePassage, TransliterationScheme, VerseTranslation } from './types';
+
+export interface GeneratedSection<K extends keyof HeritageContent = keyof HeritageContent> {
+  key: K;
+  value: HeritageContent[K];
+  claims?: CitedClaim[];
+}
+
+/** A section that could not be generated even after retries. */
+export interface SectionFailure {
+  key: keyof HeritageContent;
+  error: string;
+}
+
+/** Everything the app asks of a generative model. Implemented by Gemini (on the API server), by the client for that server, and by the fixture-backed mock. */
+export interface AIProvider {
+  /** Generates a single section of the heritage report, with each claim cited back to the source passages. */
+  getSection<K extends keyof HeritageContent>(placeName: string, passages: SourcePassage[], lang: Language, key: K, signal?: AbortSignal): Promise<GeneratedSection<K>>;
+  compareSites(first: PlaceDetails, second: PlaceDetails, lang: Language, signal?: AbortSignal): Promise<PlaceComparison>;
+  reconstructMonument(imageDataUrl: string, context: string, options?: ReconstructionOptions, signal?: AbortSignal): Promise<ReconstructionResult>;
+  /** Writes `count` multiple-choice questions, with explanations, from a place's generated content. */
+  generateQuiz(place: PlaceDetails, lang: Language, count: number, signal?: AbortSignal): Promise<QuizChoiceQuestion[]>;
+  /** Reads an inscription from a photo: script, period, transliteration in `scheme` and a translation into `lang`. */
+  readInscription(imageDataUrl: string, lang: Language, scheme: TransliterationScheme, signal?: AbortSignal): Promise<InscriptionReading>;
+  /** Transliterates a verse written in `language` (e.g. "Telugu") and translates it into `lang`. */
+  translateVerse(verse: string, language: string, lang: Language, signal?: AbortSignal): Promise<VerseTranslation>;
+  /** Narrates `text` in `lang`, returning a playable audio data URL. */
+  synthesizeSpeech(text: string, lang: Language, signal?: AbortSignal): Promise<string>;
+  /** Streams a reply in chunks. Prior turns are replayed and the open place is used as grounding. */
+  chat(message: ChatMessage, history: ChatMessage[], lang: Language, place?: PlaceDetails | null, signal?: AbortSignal): AsyncGenerator<string>;
+}
@@ -0,0 +1,59 @@
+import { AIProvider, GeneratedSection, SectionFailure } from './aiProvider';
+import { ServerProvider } from './serverProvider';
+import { MockProvider } from './mockProvider';
+import { HERITAGE_SECTIONS } from './heritageSections';
+import { validateSection } from './heritageValidation';
+import { isAbortError, withRetry } from './retry';
+import { config } from './config';
+import { HeritageContent, Language, SourcePassage } from './types';
+
+const provider: AIProvider = config.aiProvider === 'mock' ? MockProvider : ServerProvider;
+
+export interface StreamOptions {
+  signal?: AbortSignal;
+  /** Generate only these sections (default: all of them). */
+  only?: (keyof HeritageContent)[];
+}
+
+// The configured AI provider, plus helpers built on top of it. App code talks to this, never to a provider directly.
+export const AIService = {
+  ...provider,
+
+  compareSites: ((first, second, lang, signal) =>
+    withRetry(() => provider.compareSites(first, second, lang, signal), { signal })) as AIProvider['compareSites'],
+
+  reconstructMonument: ((imageDataUrl, context, options, signal) =>
+    withRetry(() => provider.reconstructMonument(imageDataUrl, context, options, signal), { signal })) as AIProvider['reconstructMonument'],
+
+  generateQuiz: ((place, lang, count, signal) =>
+    withRetry(() => provider.generateQuiz(place, lang, count, signal), { signal })) as AIProvider['generateQuiz'],
+
+  readInscription: ((imageDataUrl, lang, scheme, signal) =>
+    withRetry(() => provider.readInscription(imageDataUrl, lang, scheme, signal), { signal })) as AIProvider['readInscription'],
+
+  translateVerse: ((verse, language, lang, signal) =>
+    withRetry(() => provider.translateVerse(verse, language, lang, signal), { signal })) as AIProvider['translateVerse'],
+
+  synthesizeSpeech: ((text, lang, signal) =>
+    withRetry(() => provider.synthesizeSpeech(text, lang, signal), { signal })) as AIProvider['synthesizeSpeech'],
+
+  /**
+   * Generates the heritage report one section at a time, in `HERITAGE_SECTIONS` order,
+   * yielding each section as soon as it is ready. Every section is validated and retried
+   * with backoff; a section that still fails is yielded as a `SectionFailure` so the rest
+   * of the report can carry on. Only cancellation ends the stream early.
+   */
+  async *streamStructuredContent(placeName: string, passages: SourcePassage[], lang: Language, options: StreamOptions = {}): AsyncGenerator<GeneratedSection | SectionFailure> {
+    const { signal, only } = options;
+    for (const { key } of HERITAGE_SECTIONS) {
+      if (only && !only.includes(key)) continue;
+      try {
+        yield await withRetry(async () => validateSection(await provider.getSection(placeName, passages, lang, key, signal)), { signal });
+      } catch (error) {
+        if (isAbortError(error) || signal?.aborted) throw error;
+        console.error(`Failed to generate section ${key}`, error);
+        yield { key, error: (error as Error)?.message || String(error) };
+      }
+    }
+  }
+};
@@ -0,0 +1,164 @@
+import { libraryStore } from './libraryStore';
+import { HERITAGE_SECTIONS } from './heritageSections';
+import { LANGUAGES } from './i18n';
+import { Bookmark, Collection, HeritageContent, Language, LibraryExport, PinnedAnswer, PlaceNote } from './types';
+
+const bookmarks = libraryStore<Bookmark>('bookmarks');
+const collections = libraryStore<Collection>('collections');
+const notes = libraryStore<PlaceNote>('notes');
+const pins = libraryStore<PinnedAnswer>('pins');
+
+const SCHEMA = 'itihaasa.library';
+
+/** Current library export format. Bump it when the shape changes, and add a migration from the previous version. */
+export const LIBRARY_VERSION = 1;
+
+// Upgrades an export from the keyed version to the next one. Empty while only version 1 exists.
+const MIGRATIONS: Record<number, (data: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export class LibraryImportError extends Error {
+  constructor(public reason: 'format' | 'version', message: string) {
+    super(message);
+    this.name = 'LibraryImportError';
+  }
+}
+
+const normalize = (placeName: string) => placeName.trim().toLowerCase();
+const samePlace = (a: string, b: string) => normalize(a) === normalize(b);
+const noteId = (placeName: string, section: keyof HeritageContent) => `${normalize(placeName)}:${section}`;
+
+const newestFirst = <T extends { createdAt: number }>(records: T[]) => records.sort((a, b) => b.createdAt - a.createdAt);
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+const records = (value: unknown, valid: (record: Record<string, any>) => boolean) =>
+  (Array.isArray(value) ? value : []).filter(record => isObject(record) && isString(record.id) && valid(record));
+
+// Bookmarked places, collections of them, per-section notes and pinned chat answers. Everything stays on the device
+// unless the user exports it.
+export const BookmarkService = {
+  /** Bookmarks, most recently added first. */
+  async listBookmarks(): Promise<Bookmark[]> {
+    return newestFirst(await bookmarks.list());
+  },
+
+  async setBookmarked(placeName: string, bookmarked: boolean): Promise<void> {
+    if (bookmarked) await bookmarks.put({ id: normalize(placeName), placeName: placeName.trim(), createdAt: Date.now() });
+    else await bookmarks.remove(normalize(placeName));
+  },
+
+  async listCollections(): Promise<Collection[]> {
+    return (await collections.list()).sort((a, b) => a.createdAt - b.createdAt);
+  },
+
+  async createCollection(name: string, placeNames: string[] = []): Promise<Collection> {
+    const collection: Collection = { id: crypto.randomUUID(), name: name.trim(), placeNames, createdAt: Date.now() };
+    await collections.put(collection);
+    return collection;
+  },
+
+  async renameCollection(collection: Collection, name: string): Promise<Collection> {
+    const updated = { ...collection, name: name.trim() };
+    await collections.put(updated);
+    return updated;
+  },
+
+  removeCollection(id: string): Promise<void> {
+    return collections.remove(id);
+  },
+
+  /** Adds the place to or takes it out of the collection. Adding also bookmarks the place. */
+  async setInCollection(collection: Collection, placeName: string, included: boolean): Promise<Collection> {
+    const others = collection.placeNames.filter(name => !samePlace(name, placeName));
+    const updated = { ...collection, placeNames: included ? [...others, placeName.trim()] : others };
+    await collections.put(updated);
+    if (included) await BookmarkService.setBookmarked(placeName, true);
+    return updated;
+  },
+
+  /** The user's notes on a place, by section. */
+  async getNotes(placeName: string): Promise<Partial<Record<keyof HeritageContent, PlaceNote>>> {
+    const found = (await notes.list()).filter(note => samePlace(note.placeName, placeName));
+    return Object.fromEntries(found.map(note => [note.section, note]));
+  },
+
+  async listNotes(): Promise<PlaceNote[]> {
+    return (await notes.list()).sort((a, b) => b.updatedAt - a.updatedAt);
+  },
+
+  /** Saves the note for a section; an empty note deletes it. */
+  async saveNote(placeName: string, section: keyof HeritageContent, text: string): Promise<PlaceNote | null> {
+    const id = noteId(placeName, section);
+    if (!text.trim()) {
+      await notes.remove(id);
+      return null;
+    }
+    const note: PlaceNote = { id, placeName: placeName.trim(), section, text: text.trim(), updatedAt: Date.now() };
+    await notes.put(note);
+    return note;
+  },
+
+  /** Pinned answers, newest first; only those for `placeName` when given. */
+  async listPins(placeName?: string): Promise<PinnedAnswer[]> {
+    return newestFirst((await pins.list()).filter(pin => !placeName || samePlace(pin.placeName, placeName)));
+  },
+
+  async pinAnswer(placeName: string, question: string, answer: string, lang: Language): Promise<PinnedAnswer> {
+    const pin: PinnedAnswer = { id: crypto.randomUUID(), placeName: placeName.trim(), question, answer, lang, createdAt: Date.now() };
+    await pins.put(pin);
+    return pin;
+  },
+
+  unpin(id: string): Promise<void> {
+    return pins.remove(id);
+  },
+
+  async exportAll(): Promise<LibraryExport> {
+    const [allBookmarks, allCollections, allNotes, allPins] = await Promise.all([
+      BookmarkService.listBookmarks(), BookmarkService.listCollections(), BookmarkService.listNotes(), BookmarkService.listPins(),
+    ]);
+    return { schema: SCHEMA, version: LIBRARY_VERSION, exportedAt: Date.now(), bookmarks: allBookmarks, collections: allCollections, notes: allNotes, pins: allPins };
+  },
+
+  /**
+   * Merges an exported library into this one. Records are matched by id, so importing a file twice changes nothing;
+   * a collection in both keeps the places of each, and of two notes on the same section the newer one wins.
+   * Throws a LibraryImportError when the file is not a library export or was written by a newer version of the app.
+   */
+  async importAll(text: string): Promise<void> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new LibraryImportError('format', 'Not a JSON file');
+    }
+    if (!isObject(parsed) || parsed.schema !== SCHEMA || !Number.isInteger(parsed.version) || parsed.version < 1) {
+      throw new LibraryImportError('format', 'Not an ITIHAASA library export');
+    }
+    if (parsed.version > LIBRARY_VERSION) throw new LibraryImportError('version', `Library version ${parsed.version} is newer than ${LIBRARY_VERSION}`);
+    let data: Record<string, unknown> = parsed;
+    for (let version = parsed.version; version < LIBRARY_VERSION; version++) data = MIGRATIONS[version](data);
+
+    const sections = HERITAGE_SECTIONS.map(s => s.key as string);
+    const existingCollections = await collections.list();
+    const existingNotes = await notes.list();
+
+    for (const b of records(data.bookmarks, b => isString(b.placeName))) {
+      await bookmarks.put({ id: normalize(b.placeName), placeName: b.placeName.trim(), createdAt: Number(b.createdAt) || Date.now() });
+    }
+    for (const c of records(data.collections, c => isString(c.name) && Array.isArray(c.placeNames))) {
+      const current = existingCollections.find(existing => existing.id === c.id);
+      const placeNames = [...(current?.placeNames || []), ...c.placeNames.filter(isString)]
+        .filter((name, i, all) => all.findIndex(other => samePlace(other, name)) === i);
+      await collections.put({ id: c.id, name: c.name, placeNames, createdAt: Number(c.createdAt) || Date.now() });
+    }
+    for (const n of records(data.notes, n => isString(n.placeName) && sections.includes(n.section) && isString(n.text))) {
+      const note: PlaceNote = { id: noteId(n.placeName, n.section), placeName: n.placeName, section: n.section, text: n.text, updatedAt: Number(n.updatedAt) || Date.now() };
+      const current = existingNotes.find(existing => existing.id === note.id);
+      if (!current || current.updatedAt < note.updatedAt) await notes.put(note);
+    }
+    for (const p of records(data.pins, p => isString(p.placeName) && isString(p.question) && isString(p.answer))) {
+      await pins.put({ id: p.id, placeName: p.placeName, question: p.question, answer: p.answer, lang: LANGUAGES.includes(p.lang) ? p.lang : 'en', createdAt: Number(p.createdAt) || Date.now() });
+    }
+  },
+};
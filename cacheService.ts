@@ -0,0 +1,128 @@
+import { Language } from './types';
+
+const DB_NAME = 'itihaasa-cache';
+const DB_VERSION = 1;
+const STORE = 'entries';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// How long an entry is considered fresh. Stale entries are still served when the network fails.
+export const CacheTTL = {
+  geo: 30 * DAY,
+  article: 7 * DAY,
+  images: 7 * DAY,
+  content: 30 * DAY,
+};
+
+interface CacheEntry<T> {
+  key: string;
+  value: T;
+  storedAt: number;
+}
+
+const normalize = (placeName: string) => placeName.trim().toLowerCase();
+
+export const CacheKeys = {
+  placePrefix: (placeName: string) => `place:${normalize(placeName)}:`,
+  article: (placeName: string, lang: Language) => `${CacheKeys.placePrefix(placeName)}article:${lang}`,
+  images: (placeName: string) => `${CacheKeys.placePrefix(placeName)}images`,
+  coords: (placeName: string) => `${CacheKeys.placePrefix(placeName)}coords`,
+  content: (placeName: string, lang: Language) => `${CacheKeys.placePrefix(placeName)}content:${lang}`,
+  citations: (placeName: string, lang: Language) => `${CacheKeys.placePrefix(placeName)}citations:${lang}`,
+  // Keyed by a hash of the narrated text, so regenerated content never plays stale audio
+  audio: (placeName: string, lang: Language, trackId: string, textHash: string) => `${CacheKeys.placePrefix(placeName)}audio:${lang}:${trackId}:${textHash}`,
+  quiz: (placeName: string, lang: Language) => `${CacheKeys.placePrefix(placeName)}quiz:${lang}`,
+  comparison: (first: string, second: string, lang: Language) => `compare:${normalize(first)}|${normalize(second)}:${lang}`,
+};
+
+const memory = new Map<string, CacheEntry<unknown>>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Resolves to null when IndexedDB is unavailable (private mode, old browsers); the memory tier still works
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(STORE)) {
+          request.result.createObjectStore(STORE, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('IndexedDB unavailable, falling back to memory cache', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T | undefined> => {
+  const db = await openDb();
+  if (!db) return undefined;
+  try {
+    return await promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+  } catch (e) {
+    console.warn('Cache operation failed', e);
+    return undefined;
+  }
+};
+
+export const CacheService = {
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const hit = memory.get(key) as CacheEntry<T> | undefined;
+    if (hit) return hit;
+    const stored = await withStore<CacheEntry<T> | undefined>('readonly', store => store.get(key));
+    if (!stored) return null;
+    memory.set(key, stored);
+    return stored;
+  },
+
+  async set<T>(key: string, value: T): Promise<void> {
+    const entry: CacheEntry<T> = { key, value, storedAt: Date.now() };
+    memory.set(key, entry);
+    await withStore('readwrite', store => store.put(entry));
+  },
+
+  /** Removes every entry whose key starts with `prefix`, e.g. all languages of one place. */
+  async invalidate(prefix: string): Promise<void> {
+    for (const key of memory.keys()) {
+      if (key.startsWith(prefix)) memory.delete(key);
+    }
+    await withStore('readwrite', store => store.delete(IDBKeyRange.bound(prefix, prefix + '\uffff')));
+  },
+
+  async clear(): Promise<void> {
+    memory.clear();
+    await withStore('readwrite', store => store.clear());
+  },
+
+  /**
+   * Returns the cached value while it is fresh, otherwise runs `loader` and stores the result.
+   * If the loader fails (e.g. offline), a stale entry is returned instead of the error.
+   */
+  async getOrLoad<T>(key: string, ttlMs: number, loader: () => Promise<T>): Promise<T> {
+    const entry = await CacheService.get<T>(key);
+    if (entry && Date.now() - entry.storedAt < ttlMs) return entry.value;
+    try {
+      const value = await loader();
+      await CacheService.set(key, value);
+      return value;
+    } catch (e) {
+      if (entry) {
+        console.warn(`Serving stale cache for ${key}`, e);
+        return entry.value;
+      }
+      throw e;
+    }
+  }
+};
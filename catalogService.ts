@@ -0,0 +1,124 @@
+import andhraPradesh from './catalog/andhra-pradesh.json';
+import { editDistance, searchKey } from './transliteration';
+import { HeritageCatalog, HeritageSite, Language } from './types';
+
+/** Catalog format this build reads. scripts/import-catalog.mjs writes it and upgrades older files. */
+export const CATALOG_VERSION = 1;
+
+// Every region shipped with the app. A new state is added with `npm run catalog:import` and then listed here.
+const CATALOGS = [andhraPradesh as unknown as HeritageCatalog];
+
+export type CatalogFacet = 'district' | 'dynasty' | 'religion' | 'category';
+export type CatalogFilters = Partial<Record<CatalogFacet, string>>;
+
+export const CATALOG_FACETS: CatalogFacet[] = ['district', 'dynasty', 'religion', 'category'];
+
+export interface CatalogMatch {
+  site: HeritageSite;
+  /** Lower is better; 0 is an exact match on a name. */
+  score: number;
+}
+
+interface IndexedSite {
+  site: HeritageSite;
+  /** Search keys of the site's own names: English name, Wikipedia titles and aliases. */
+  names: string[];
+  /** Search keys of where and when it is, which match less strongly. */
+  context: string[];
+}
+
+const sites: HeritageSite[] = CATALOGS
+  .filter(catalog => {
+    if (catalog.schema === 'itihaasa.catalog' && catalog.version === CATALOG_VERSION) return true;
+    console.warn(`Skipping catalog ${catalog.region}: version ${catalog.version} is not ${CATALOG_VERSION}`);
+    return false;
+  })
+  .flatMap(catalog => catalog.sites)
+  .sort((a, b) => a.century - b.century || a.name.localeCompare(b.name));
+
+const index: IndexedSite[] = sites.map(site => ({
+  site,
+  names: [...new Set([site.name, ...Object.values(site.titles), ...(site.aliases || [])].map(searchKey))],
+  context: [site.district, site.dynasty].map(searchKey),
+}));
+
+// Typos allowed for a query of this many characters
+const tolerance = (length: number) => length < 4 ? 0 : length < 8 ? 1 : 2;
+
+// How well `key` matches the query: exact, a word prefix, a substring, or within a few typos of the name or its start
+const matchScore = (query: string, key: string): number | null => {
+  if (key === query) return 0;
+  if (key.startsWith(query) || key.split(' ').some(word => word.startsWith(query))) return 1;
+  if (key.includes(query)) return 2;
+  const max = tolerance(query.length);
+  const distance = Math.min(editDistance(query, key, max), editDistance(query, key.slice(0, query.length), max));
+  return distance <= max ? 3 + distance : null;
+};
+
+const bestScore = (query: string, keys: string[]) =>
+  keys.reduce<number | null>((best, key) => {
+    const score = matchScore(query, key);
+    return score !== null && (best === null || score < best) ? score : best;
+  }, null);
+
+const scoreSite = (query: string, entry: IndexedSite) => {
+  const name = bestScore(query, entry.names);
+  if (name !== null) return name;
+  const context = bestScore(query, entry.context);
+  return context !== null ? 10 + context : null;
+};
+
+const passes = (site: HeritageSite, filters: CatalogFilters, except?: CatalogFacet) =>
+  CATALOG_FACETS.every(facet => facet === except || !filters[facet] || site[facet] === filters[facet]);
+
+// The curated heritage sites shipped with the app, with fuzzy, script-independent search and faceted filtering.
+export const CatalogService = {
+  /** Every site, oldest first. */
+  sites,
+
+  /**
+   * Sites matching the query and filters, best match first. The query matches names in any supported script and
+   * tolerates a typo or two; with no query every site passing the filters is returned, oldest first.
+   */
+  search(query: string, filters: CatalogFilters = {}): CatalogMatch[] {
+    const key = searchKey(query);
+    return index
+      .filter(entry => passes(entry.site, filters))
+      .map(entry => ({ site: entry.site, score: key ? scoreSite(key, entry) : 0 }))
+      .filter((match): match is CatalogMatch => match.score !== null)
+      .sort((a, b) => a.score - b.score);
+  },
+
+  /**
+   * Values of each facet among the sites matching the query, with counts. Each facet is counted with the other
+   * facets' filters applied but not its own, so a chosen value can be swapped for another directly.
+   */
+  facetCounts(query: string, filters: CatalogFilters = {}): Record<CatalogFacet, { value: string; count: number }[]> {
+    const matching = CatalogService.search(query).map(match => match.site);
+    return Object.fromEntries(CATALOG_FACETS.map(facet => {
+      const counts = new Map<string, number>();
+      for (const site of matching) {
+        if (passes(site, filters, facet)) counts.set(site[facet], (counts.get(site[facet]) || 0) + 1);
+      }
+      return [facet, [...counts].map(([value, count]) => ({ value, count })).sort((a, b) => a.value.localeCompare(b.value))];
+    })) as Record<CatalogFacet, { value: string; count: number }[]>;
+  },
+
+  /** The site a typed name refers to, if it names one outright (allowing for typos), rather than just starting one. */
+  resolve(query: string): HeritageSite | undefined {
+    const key = searchKey(query);
+    if (!key) return undefined;
+    const max = tolerance(key.length);
+    let best: { site: HeritageSite; distance: number } | undefined;
+    for (const entry of index) {
+      const distance = Math.min(...entry.names.map(name => editDistance(key, name, max)));
+      if (distance <= max && (!best || distance < best.distance)) best = { site: entry.site, distance };
+    }
+    return best?.site;
+  },
+
+  /** The name to show for a site in `lang`: its Wikipedia title in that language when known. */
+  displayName(site: HeritageSite, lang: Language): string {
+    return site.titles[lang] || site.name;
+  },
+};
@@ -0,0 +1,220 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Play, Pause, SkipBack, SkipForward, X, Download, Loader2, Check, Headphones } from 'lucide-react';
+import { buildNarration, NarrationTrack, paragraphSentences, SpeechEngine, SpeechService } from '../speechService';
+import { isAbortError } from '../retry';
+import { useT } from '../i18n';
+import { Language, PlaceDetails } from '../types';
+
+const SPEEDS = [0.75, 1, 1.25, 1.5];
+
+export interface NarrationPosition {
+  trackId: string;
+  unit: number;
+}
+
+/**
+ * Audio guide state for a place page. Playback runs as one cancellable loop over the tracks;
+ * pausing, skipping and changing speed abort it and start a new loop from the current position.
+ */
+export const useAudioGuide = (place: PlaceDetails | null, lang: Language) => {
+  const tracks = useMemo(
+    () => buildNarration(place?.content || {}, place?.citations, lang),
+    [place?.content, place?.citations, lang]
+  );
+  // Sections keep streaming in while the guide plays, so the loop always reads the latest tracks
+  const tracksRef = useRef<NarrationTrack[]>(tracks);
+  tracksRef.current = tracks;
+
+  const [open, setOpen] = useState(false);
+  const [playing, setPlaying] = useState(false);
+  const [position, setPosition] = useState<NarrationPosition | null>(null);
+  const [rate, setRate] = useState(1);
+  const [engine, setEngine] = useState<SpeechEngine | null>(null);
+  const [error, setError] = useState(false);
+  const [saving, setSaving] = useState<'idle' | 'saving' | 'saved'>('idle');
+  const abortRef = useRef<AbortController | null>(null);
+
+  const stop = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+  };
+
+  const play = async (from: NarrationPosition, speed = rate) => {
+    if (!place) return;
+    stop();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const { signal } = controller;
+    setPlaying(true);
+    setError(false);
+    try {
+      let index = tracksRef.current.findIndex(track => track.id === from.trackId);
+      let unit = from.unit;
+      while (index !== -1 && index < tracksRef.current.length) {
+        const track = tracksRef.current[index];
+        const trackEngine = await SpeechService.engineFor(track.lang);
+        setEngine(trackEngine);
+        setPosition({ trackId: track.id, unit });
+        if (trackEngine === 'device') {
+          for (; unit < track.units.length; unit++) {
+            setPosition({ trackId: track.id, unit });
+            await SpeechService.speak(track.units[unit], track.lang, speed * track.rate, signal);
+          }
+        } else {
+          const url = await SpeechService.getTrackAudio(place.name, track, signal);
+          await SpeechService.playTrackAudio(url, track, unit, speed * track.rate, u => setPosition({ trackId: track.id, unit: u }), signal);
+        }
+        index++;
+        unit = 0;
+      }
+      setPosition(null);
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error('Audio guide failed', e);
+      setError(true);
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setPlaying(false);
+      }
+    }
+  };
+
+  const start = () => {
+    if (tracks.length) play(position || { trackId: tracks[0].id, unit: 0 });
+  };
+
+  const pause = () => {
+    stop();
+    setPlaying(false);
+  };
+
+  const skip = (delta: number) => {
+    const index = tracks.findIndex(track => track.id === position?.trackId);
+    const next = tracks[Math.max(0, Math.min(tracks.length - 1, index + delta))];
+    if (!next) return;
+    const target = { trackId: next.id, unit: 0 };
+    if (playing) play(target);
+    else setPosition(target);
+  };
+
+  const changeRate = (next: number) => {
+    setRate(next);
+    if (playing && position) play(position, next);
+  };
+
+  const close = () => {
+    pause();
+    setPosition(null);
+    setOpen(false);
+  };
+
+  /** Generates and caches audio for every track, so the guide plays offline even without a device voice. */
+  const saveOffline = async () => {
+    if (!place || saving === 'saving') return;
+    setSaving('saving');
+    try {
+      for (const track of tracks) await SpeechService.getTrackAudio(place.name, track);
+      setSaving('saved');
+    } catch (e) {
+      console.error('Saving audio failed', e);
+      setSaving('idle');
+      setError(true);
+    }
+  };
+
+  // A different place or language is a different narration
+  useEffect(() => {
+    close();
+    setSaving('idle');
+    return stop;
+  }, [place?.name, lang]);
+
+  const current = tracks.find(track => track.id === position?.trackId);
+  return { tracks, open, setOpen, playing, position, current, rate, engine, error, saving, start, pause, skip, changeRate, close, saveOffline };
+};
+
+export type AudioGuide = ReturnType<typeof useAudioGuide>;
+
+export const AudioGuideButton: React.FC<{ guide: AudioGuide }> = ({ guide }) => {
+  const t = useT();
+  return (
+    <button
+      onClick={() => (guide.open ? guide.close() : guide.setOpen(true))}
+      disabled={!guide.tracks.length}
+      className={`px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2 transition disabled:opacity-50 ${guide.open ? 'bg-stone-800 text-white' : 'bg-stone-100 hover:bg-stone-200 text-stone-600'}`}
+    >
+      <Headphones size={16} /> {t('audio.listen')}
+    </button>
+  );
+};
+
+/** Playback controls, fixed to the bottom of the page opposite the chat button. */
+export const AudioGuideBar: React.FC<{ guide: AudioGuide; poetNames: string[] }> = ({ guide, poetNames }) => {
+  const t = useT();
+  const { tracks, current, playing } = guide;
+  const index = current ? tracks.indexOf(current) : 0;
+  const track = current || tracks[0];
+  if (!guide.open || !track) return null;
+
+  const title = track.kind === 'verse'
+    ? t('audio.verse', { poet: poetNames[track.poetIndex!] || '' })
+    : t(`section.${track.section}`);
+  const iconButton = 'p-2 rounded-full hover:bg-white/10 disabled:opacity-40 transition';
+
+  return (
+    <div className="fixed bottom-6 start-6 z-50 w-[calc(100%-8rem)] max-w-lg bg-stone-900 text-stone-100 rounded-2xl shadow-2xl p-4" role="region" aria-label={t('audio.listen')}>
+      <div className="flex items-center justify-between gap-3 mb-3">
+        <div className="min-w-0">
+          <p className="font-heritage font-bold text-amber-400 truncate">{title}</p>
+          <p className="text-xs text-stone-400">
+            {t('audio.track', { current: index + 1, total: tracks.length })}
+            {guide.engine && <> • {t(guide.engine === 'device' ? 'audio.deviceVoice' : 'audio.recordedAudio')}</>}
+          </p>
+        </div>
+        <button onClick={guide.close} className={iconButton} aria-label={t('audio.close')}><X size={18} /></button>
+      </div>
+      <div className="flex items-center gap-2">
+        <button onClick={() => guide.skip(-1)} disabled={index === 0} className={`${iconButton} rtl:rotate-180`} aria-label={t('audio.previous')}><SkipBack size={20} /></button>
+        <button
+          onClick={playing ? guide.pause : guide.start}
+          className="w-12 h-12 rounded-full bg-amber-600 hover:bg-amber-700 flex items-center justify-center transition"
+          aria-label={t(playing ? 'audio.pause' : 'audio.play')}
+        >
+          {playing ? <Pause size={22} /> : <Play size={22} className="rtl:rotate-180" />}
+        </button>
+        <button onClick={() => guide.skip(1)} disabled={index >= tracks.length - 1} className={`${iconButton} rtl:rotate-180`} aria-label={t('audio.next')}><SkipForward size={20} /></button>
+        <label className="ms-auto flex items-center gap-1 text-xs text-stone-400">
+          {t('audio.speed')}
+          <select value={guide.rate} onChange={(e) => guide.changeRate(Number(e.target.value))} className="bg-stone-800 border-none rounded-lg py-1 ps-2 pe-7 text-xs text-stone-100 focus:ring-0">
+            {SPEEDS.map(speed => <option key={speed} value={speed}>{speed}×</option>)}
+          </select>
+        </label>
+        <button onClick={guide.saveOffline} disabled={guide.saving !== 'idle'} className={iconButton} title={t(guide.saving === 'saved' ? 'audio.saved' : guide.saving === 'saving' ? 'audio.saving' : 'audio.saveOffline')}>
+          {guide.saving === 'saving' ? <Loader2 size={18} className="animate-spin" /> : guide.saving === 'saved' ? <Check size={18} /> : <Download size={18} />}
+        </button>
+      </div>
+      {guide.error && <p className="mt-2 text-xs text-red-300">{t('audio.unavailable')}</p>}
+    </div>
+  );
+};
+
+export const NARRATION_HIGHLIGHT = 'bg-amber-200/70 rounded transition-colors';
+
+/** A plain-text section with the sentence being narrated highlighted. Sentences are numbered as in `buildNarration`. */
+export const NarratedText: React.FC<{ text: string; lang: Language; activeSentence?: number }> = ({ text, lang, activeSentence }) => {
+  const paragraphs = useMemo(() => paragraphSentences(text, lang), [text, lang]);
+  let index = 0;
+  return (
+    <>
+      {paragraphs.map((sentences, i) => (
+        <p key={i} className="mb-4">
+          {sentences.map(sentence => {
+            const n = index++;
+            return <React.Fragment key={n}><span className={n === activeSentence ? NARRATION_HIGHLIGHT : undefined}>{sentence}</span>{' '}</React.Fragment>;
+          })}
+        </p>
+      ))}
+    </>
+  );
+};
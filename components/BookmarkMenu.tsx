@@ -0,0 +1,101 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark as BookmarkIcon, BookmarkCheck, FolderPlus } from 'lucide-react';
+import { BookmarkService } from '../bookmarkService';
+import { Collection } from '../types';
+import { useT } from '../i18n';
+
+const samePlace = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/** Bookmarks the place and files it into collections, creating them on the fly. */
+export const BookmarkMenu: React.FC<{ placeName: string; onChange?: () => void }> = ({ placeName, onChange }) => {
+  const t = useT();
+  const [open, setOpen] = useState(false);
+  const [bookmarked, setBookmarked] = useState(false);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [newName, setNewName] = useState('');
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setBookmarked(false);
+    BookmarkService.listBookmarks()
+      .then(list => setBookmarked(list.some(b => samePlace(b.placeName, placeName))))
+      .catch(console.error);
+  }, [placeName]);
+
+  useEffect(() => {
+    if (!open) return;
+    BookmarkService.listCollections().then(setCollections).catch(console.error);
+    const close = (e: MouseEvent) => !menuRef.current?.contains(e.target as Node) && setOpen(false);
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const toggleBookmark = async () => {
+    await BookmarkService.setBookmarked(placeName, !bookmarked);
+    setBookmarked(!bookmarked);
+    onChange?.();
+  };
+
+  const toggleCollection = async (collection: Collection) => {
+    const included = !collection.placeNames.some(name => samePlace(name, placeName));
+    const updated = await BookmarkService.setInCollection(collection, placeName, included);
+    setCollections(prev => prev.map(c => c.id === updated.id ? updated : c));
+    if (included) setBookmarked(true);
+    onChange?.();
+  };
+
+  const createCollection = async () => {
+    if (!newName.trim()) return;
+    const collection = await BookmarkService.createCollection(newName, [placeName.trim()]);
+    await BookmarkService.setBookmarked(placeName, true);
+    setCollections(prev => [...prev, collection]);
+    setBookmarked(true);
+    setNewName('');
+    onChange?.();
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className={`px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2 transition ${bookmarked ? 'bg-amber-100 text-amber-800 hover:bg-amber-200' : 'bg-stone-100 text-stone-600 hover:bg-stone-200'}`}
+      >
+        {bookmarked ? <BookmarkCheck size={16} /> : <BookmarkIcon size={16} />} {t(bookmarked ? 'bookmark.saved' : 'bookmark.save')}
+      </button>
+      {open && (
+        <div className="absolute end-0 mt-2 w-72 bg-white border border-stone-200 rounded-xl shadow-xl p-2 z-30 text-sm">
+          <label className="flex items-center gap-2 px-2 py-2 rounded-lg hover:bg-amber-50 cursor-pointer font-medium text-stone-800">
+            <input type="checkbox" checked={bookmarked} onChange={toggleBookmark} className="rounded text-amber-600" />
+            {t('bookmark.bookmarked')}
+          </label>
+          <p className="px-2 pt-2 pb-1 text-[10px] font-bold uppercase tracking-widest text-stone-400">{t('bookmark.collections')}</p>
+          {collections.map(collection => (
+            <label key={collection.id} className="flex items-center gap-2 px-2 py-1.5 rounded-lg hover:bg-amber-50 cursor-pointer text-stone-700">
+              <input
+                type="checkbox"
+                checked={collection.placeNames.some(name => samePlace(name, placeName))}
+                onChange={() => toggleCollection(collection)}
+                className="rounded text-amber-600"
+              />
+              <span className="truncate">{collection.name}</span>
+              <span className="ms-auto text-xs text-stone-400">{collection.placeNames.length}</span>
+            </label>
+          ))}
+          <div className="flex gap-1 mt-2 px-1">
+            <input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && createCollection()}
+              placeholder={t('bookmark.collectionName')}
+              className="flex-1 min-w-0 px-3 py-1.5 bg-stone-50 border border-stone-200 rounded-lg text-sm"
+            />
+            <button onClick={createCollection} disabled={!newName.trim()} className="p-2 bg-amber-600 text-white rounded-lg disabled:opacity-50" title={t('bookmark.newCollection')}>
+              <FolderPlus size={16} />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,98 @@
+import React, { useMemo, useState } from 'react';
+import { Search, MapPin, X } from 'lucide-react';
+import { CATALOG_FACETS, CatalogFacet, CatalogFilters, CatalogService } from '../catalogService';
+import { HeritageSite, Language } from '../types';
+import { useT } from '../i18n';
+
+/** Searches and filters the curated catalog on the explore landing page. Hands back the Wikipedia title to open. */
+export const CatalogBrowser: React.FC<{ lang: Language; onSelect: (title: string) => void }> = ({ lang, onSelect }) => {
+  const t = useT();
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<CatalogFilters>({});
+
+  const matches = useMemo(() => CatalogService.search(query, filters), [query, filters]);
+  const facets = useMemo(() => CatalogService.facetCounts(query, filters), [query, filters]);
+  const filtered = CATALOG_FACETS.some(facet => filters[facet]);
+
+  // Religion and category are closed sets with translations; districts and dynasties are proper names
+  const valueLabel = (facet: CatalogFacet, value: string) =>
+    facet === 'religion' ? t(`religion.${value as HeritageSite['religion']}`)
+      : facet === 'category' ? t(`category.${value as HeritageSite['category']}`)
+        : value;
+
+  const setFilter = (facet: CatalogFacet, value: string) => setFilters(prev => ({ ...prev, [facet]: value || undefined }));
+
+  const submit = () => {
+    if (!query.trim()) return;
+    onSelect(matches[0]?.site.titles.en || query.trim());
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto mt-8 text-start">
+      <div className="relative">
+        <Search className="absolute start-4 top-1/2 -translate-y-1/2 text-stone-400" size={20} />
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && submit()}
+          placeholder={t('catalog.searchPlaceholder')}
+          className="w-full ps-12 pe-4 py-3 bg-white border border-stone-200 rounded-xl focus:ring-2 focus:ring-amber-500"
+        />
+      </div>
+
+      <div className="flex flex-wrap items-end gap-3 mt-4">
+        {CATALOG_FACETS.map(facet => (
+          <label key={facet} className="text-xs font-bold uppercase tracking-widest text-stone-400">
+            {t(`catalog.${facet}`)}
+            <select
+              value={filters[facet] || ''}
+              onChange={(e) => setFilter(facet, e.target.value)}
+              className="block mt-1 px-3 py-2 bg-white border border-stone-200 rounded-xl text-sm font-normal normal-case tracking-normal text-stone-700"
+            >
+              <option value="">{t('catalog.any')}</option>
+              {facets[facet].map(({ value, count }) => (
+                <option key={value} value={value}>{valueLabel(facet, value)} ({count})</option>
+              ))}
+            </select>
+          </label>
+        ))}
+        {filtered && (
+          <button onClick={() => setFilters({})} className="px-3 py-2 text-sm text-stone-500 hover:text-amber-700 flex items-center gap-1">
+            <X size={14} /> {t('catalog.clear')}
+          </button>
+        )}
+        <span className="ms-auto text-sm text-stone-400">{t('catalog.results', { count: matches.length })}</span>
+      </div>
+
+      {matches.length === 0 ? (
+        <div className="text-center py-12">
+          <p className="text-stone-500 mb-4">{t('catalog.noResults', { query })}</p>
+          {query.trim() && (
+            <button onClick={() => onSelect(query.trim())} className="px-5 py-2 bg-amber-600 hover:bg-amber-700 rounded-full text-sm font-medium text-white transition">
+              {t('catalog.openAnyway', { query: query.trim() })}
+            </button>
+          )}
+        </div>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mt-6">
+          {matches.map(({ site }) => (
+            <button
+              key={site.id}
+              onClick={() => onSelect(site.titles.en)}
+              className="p-5 bg-white border border-stone-200 rounded-2xl hover:border-amber-500 hover:shadow-lg transition text-start group flex flex-col"
+            >
+              <MapPin size={24} className="text-amber-600 mb-3 group-hover:scale-110 transition" />
+              <span className="font-bold text-stone-800">{CatalogService.displayName(site, lang)}</span>
+              <span className="text-xs text-stone-500 mt-1">{site.district} • {site.period}</span>
+              <span className="flex flex-wrap gap-1 mt-3">
+                <span className="px-2 py-0.5 bg-amber-50 text-amber-800 rounded-full text-[11px]">{site.dynasty}</span>
+                <span className="px-2 py-0.5 bg-stone-100 text-stone-600 rounded-full text-[11px]">{t(`category.${site.category}`)}</span>
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,122 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronRight, Camera, Mic, Square, X, Loader2 } from 'lucide-react';
+import { SpeechService } from '../speechService';
+import { readImageFile } from '../imageFile';
+import { useT } from '../i18n';
+import { ChatAttachment, Language } from '../types';
+
+/**
+ * The chat input: typed text, a spoken question transcribed in the app language,
+ * and an optional photo (camera or gallery) sent along with it.
+ */
+export const ChatComposer: React.FC<{
+  lang: Language;
+  disabled: boolean;
+  onSend: (text: string, attachments: ChatAttachment[]) => void;
+}> = ({ lang, disabled, onSend }) => {
+  const t = useT();
+  const [text, setText] = useState('');
+  const [photo, setPhoto] = useState<ChatAttachment | null>(null);
+  const [photoLoading, setPhotoLoading] = useState(false);
+  const [listening, setListening] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const listenRef = useRef<AbortController | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  // Stop listening on unmount or when the language changes mid-question
+  useEffect(() => () => listenRef.current?.abort(), [lang]);
+
+  const send = () => {
+    if (disabled || listening || photoLoading || (!text.trim() && !photo)) return;
+    // A photo on its own is sent as "What is this?"
+    onSend(text.trim() || t('chat.photoQuestion'), photo ? [photo] : []);
+    setText('');
+    setPhoto(null);
+    setError(null);
+  };
+
+  const toggleListening = async () => {
+    if (listening) {
+      listenRef.current?.abort();
+      return;
+    }
+    const controller = new AbortController();
+    listenRef.current = controller;
+    setListening(true);
+    setError(null);
+    const before = text ? `${text} ` : '';
+    try {
+      const transcript = await SpeechService.recognize(lang, spoken => setText(before + spoken), controller.signal);
+      setText(before + transcript);
+    } catch (e) {
+      console.error('Voice input failed', e);
+      setError(t('chat.voiceError'));
+    } finally {
+      if (listenRef.current === controller) listenRef.current = null;
+      setListening(false);
+    }
+  };
+
+  const handlePhoto = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setPhotoLoading(true);
+    setError(null);
+    try {
+      setPhoto({ dataUrl: await readImageFile(file), name: file.name });
+    } catch (err) {
+      console.error('Could not attach photo', err);
+      setError(t('chat.photoError'));
+    } finally {
+      setPhotoLoading(false);
+    }
+  };
+
+  const iconButton = 'p-2 rounded-xl text-stone-500 hover:bg-stone-100 hover:text-amber-700 disabled:opacity-50 transition';
+
+  return (
+    <div className="p-4 border-t space-y-2">
+      {(photo || photoLoading) && (
+        <div className="relative inline-block">
+          {photo ? (
+            <img src={photo.dataUrl} alt={photo.name || t('chat.photo')} className="h-16 w-16 object-cover rounded-lg border border-stone-200" />
+          ) : (
+            <div className="h-16 w-16 rounded-lg bg-stone-100 flex items-center justify-center"><Loader2 size={18} className="animate-spin text-stone-400" /></div>
+          )}
+          {photo && (
+            <button onClick={() => setPhoto(null)} className="absolute -top-2 -end-2 p-0.5 rounded-full bg-stone-800 text-white" aria-label={t('chat.removePhoto')}>
+              <X size={12} />
+            </button>
+          )}
+        </div>
+      )}
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      <div className="flex gap-2 items-center">
+        <input ref={fileRef} type="file" accept="image/*" onChange={handlePhoto} className="hidden" />
+        <button onClick={() => fileRef.current?.click()} disabled={photoLoading} className={iconButton} aria-label={t('chat.attachPhoto')} title={t('chat.attachPhoto')}>
+          <Camera size={20} />
+        </button>
+        {SpeechService.canRecognize && (
+          <button
+            onClick={toggleListening}
+            className={listening ? 'p-2 rounded-xl bg-red-600 text-white animate-pulse' : iconButton}
+            aria-label={t(listening ? 'chat.stopVoice' : 'chat.voice')}
+            title={t(listening ? 'chat.stopVoice' : 'chat.voice')}
+          >
+            {listening ? <Square size={20} /> : <Mic size={20} />}
+          </button>
+        )}
+        <input
+          type="text"
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && send()}
+          className="flex-grow min-w-0 bg-stone-100 border-none rounded-xl"
+          placeholder={t(listening ? 'chat.listening' : 'chat.placeholder')}
+        />
+        <button onClick={send} disabled={disabled || listening || photoLoading} className="p-2 bg-amber-600 text-white rounded-xl disabled:opacity-50" aria-label={t('chat.send')}><ChevronRight className="rtl:rotate-180" /></button>
+      </div>
+    </div>
+  );
+};
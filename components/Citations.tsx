@@ -0,0 +1,100 @@
+import React from 'react';
+import { AlertTriangle, Sparkles } from 'lucide-react';
+import { CitedClaim, SourcePassage, WikiSource } from '../types';
+import { useT } from '../i18n';
+import { NARRATION_HIGHLIGHT } from './AudioGuide';
+
+export const AiBadge: React.FC = () => {
+  const t = useT();
+  return (
+    <span className="ms-auto px-2 py-0.5 rounded-full bg-violet-50 border border-violet-200 text-violet-700 text-[10px] font-bold uppercase tracking-widest flex items-center gap-1 whitespace-nowrap">
+      <Sparkles size={10} /> {t('citations.aiBadge')}
+    </span>
+  );
+};
+
+export const UncitedFlag: React.FC = () => {
+  const t = useT();
+  return <AlertTriangle size={12} className="inline-block ms-0.5 -mt-1 text-amber-600" aria-label={t('citations.noSource')} />;
+};
+
+const passageUrl = (source: WikiSource | undefined, passage: SourcePassage) => {
+  const origin = passage.source || source;
+  return origin ? `${origin.url}${passage.anchor ? `#${encodeURIComponent(passage.anchor)}` : ''}` : undefined;
+};
+
+/**
+ * Renders generated claims with numbered footnotes pointing at the Wikipedia passages they cite.
+ * Claims without a supporting passage are highlighted so readers know to verify them.
+ */
+export const CitedText: React.FC<{
+  id: string;
+  claims: CitedClaim[];
+  passages: SourcePassage[];
+  source?: WikiSource;
+  /** Index of the claim being read aloud by the audio guide. */
+  activeClaim?: number;
+}> = ({ id, claims, passages, source, activeClaim }) => {
+  const t = useT();
+  // Number passages by first citation within this section
+  const footnotes: SourcePassage[] = [];
+  const numberOf = (passageId: string) => {
+    let index = footnotes.findIndex(p => p.id === passageId);
+    if (index === -1) {
+      const passage = passages.find(p => p.id === passageId);
+      if (!passage) return null;
+      index = footnotes.push(passage) - 1;
+    }
+    return index + 1;
+  };
+
+  const uncitedCount = claims.filter(c => c.sources.length === 0).length;
+  const uncitedLabel = t('citations.uncitedHint');
+
+  return (
+    <>
+      <p>
+        {claims.map((claim, i) => {
+          const numbers = claim.sources.map(numberOf).filter((n): n is number => n !== null);
+          return (
+            <React.Fragment key={i}>
+              {numbers.length > 0 ? (
+                <span className={i === activeClaim ? NARRATION_HIGHLIGHT : undefined}>{claim.text}</span>
+              ) : (
+                <span className={`${i === activeClaim ? NARRATION_HIGHLIGHT : 'bg-amber-50'} border-b border-dashed border-amber-500`} title={uncitedLabel}>
+                  {claim.text}<UncitedFlag />
+                </span>
+              )}
+              {numbers.map(n => (
+                <sup key={n} className="ms-0.5">
+                  <a href={`#fn-${id}-${footnotes[n - 1].id}`} onClick={(e) => e.stopPropagation()} className="text-amber-700 hover:underline text-xs">[{n}]</a>
+                </sup>
+              ))}{' '}
+            </React.Fragment>
+          );
+        })}
+      </p>
+
+      {(footnotes.length > 0 || uncitedCount > 0) && (
+        <ol className="mt-4 pt-3 border-t border-stone-100 text-xs text-stone-500 space-y-1">
+          {footnotes.map((passage, i) => (
+            <li key={passage.id} id={`fn-${id}-${passage.id}`}>
+              [{i + 1}]{' '}
+              <a href={passageUrl(source, passage)} target="_blank" rel="noreferrer" className="text-amber-700 hover:underline">
+                {passage.heading} — {(passage.source || source)?.title || 'Wikipedia'}
+              </a>
+              {(passage.source || source)?.revisionId ? (
+                <span className="text-stone-400"> ({(passage.source || source)!.lang}.wikipedia, rev. {(passage.source || source)!.revisionId})</span>
+              ) : null}
+            </li>
+          ))}
+          {uncitedCount > 0 && (
+            <li className="text-amber-700 flex items-center gap-1">
+              <AlertTriangle size={12} /> {t('citations.uncitedCount', { count: uncitedCount })}
+            </li>
+          )}
+        </ol>
+      )}
+    </>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useState, useEffect, useId } from 'react';
+import { Columns2, Loader2, Sparkles, ChevronRight } from 'lucide-react';
+import { PlaceService } from '../placeService';
+import { AIService } from '../aiService';
+import { CacheService, CacheKeys, CacheTTL } from '../cacheService';
+import { HERITAGE_SECTIONS, TextSectionKey } from '../heritageSections';
+import { Language, PlaceComparison, PlaceDetails } from '../types';
+import { useT } from '../i18n';
+
+// Titles are translated under `compare.<key>`
+const COMPARISON_FIELDS: Exclude<keyof PlaceComparison, 'summary'>[] = ['architecture', 'period', 'patrons', 'traditions'];
+
+// Loads a fully generated place whenever the name or language changes
+const usePlace = (name: string, lang: Language) => {
+  const [place, setPlace] = useState<PlaceDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!name) return setPlace(null);
+    const controller = new AbortController();
+    const cancelled = () => controller.signal.aborted;
+    setLoading(true);
+    PlaceService.getDetails(name, lang, controller.signal)
+      .then(details => !cancelled() && setPlace(details))
+      .catch(e => {
+        if (cancelled()) return;
+        console.error(e);
+        setPlace(null);
+      })
+      .finally(() => !cancelled() && setLoading(false));
+    return () => controller.abort();
+  }, [name, lang]);
+
+  return { place, loading };
+};
+
+const PlacePicker: React.FC<{ value: string; suggestions: string[]; placeholder: string; onChange: (name: string) => void }> = ({ value, suggestions, placeholder, onChange }) => {
+  const [draft, setDraft] = useState(value);
+  useEffect(() => setDraft(value), [value]);
+  const listId = useId();
+  return (
+    <>
+      <input
+        type="text"
+        list={listId}
+        value={draft}
+        placeholder={placeholder}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={() => draft.trim() && draft !== value && onChange(draft.trim())}
+        onKeyDown={(e) => e.key === 'Enter' && draft.trim() && onChange(draft.trim())}
+        className="w-full px-4 py-3 bg-white border border-stone-200 rounded-xl text-2xl font-heritage font-bold focus:ring-2 focus:ring-amber-500"
+      />
+      <datalist id={listId}>
+        {suggestions.map(s => <option key={s} value={s} />)}
+      </datalist>
+    </>
+  );
+};
+
+export const CompareView: React.FC<{
+  lang: Language;
+  initialLeft: string;
+  suggestions: string[];
+  onOpenPlace: (name: string) => void;
+}> = ({ lang, initialLeft, suggestions, onOpenPlace }) => {
+  const t = useT();
+  const [leftName, setLeftName] = useState(initialLeft);
+  const [rightName, setRightName] = useState('');
+  const left = usePlace(leftName, lang);
+  const right = usePlace(rightName, lang);
+  const [comparison, setComparison] = useState<PlaceComparison | null>(null);
+  const [comparing, setComparing] = useState(false);
+
+  useEffect(() => setLeftName(initialLeft), [initialLeft]);
+
+  useEffect(() => {
+    setComparison(null);
+    if (!left.place || !right.place) return;
+    const controller = new AbortController();
+    const cancelled = () => controller.signal.aborted;
+    const [a, b] = [left.place, right.place];
+    setComparing(true);
+    CacheService.getOrLoad(CacheKeys.comparison(a.name, b.name, lang), CacheTTL.content, () => AIService.compareSites(a, b, lang, controller.signal))
+      .then(result => !cancelled() && setComparison(result))
+      .catch(e => !cancelled() && console.error(e))
+      .finally(() => !cancelled() && setComparing(false));
+    return () => controller.abort();
+  }, [left.place, right.place]);
+
+  const column = (state: { place: PlaceDetails | null; loading: boolean }, render: (place: PlaceDetails) => React.ReactNode) => (
+    <div className="bg-white border border-stone-200 rounded-2xl p-6 text-stone-700 leading-relaxed">
+      {state.loading ? <Loader2 className="animate-spin text-amber-600" /> : state.place ? render(state.place) : <span className="text-stone-300">—</span>}
+    </div>
+  );
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-12">
+      <div className="text-center mb-10">
+        <Columns2 size={48} className="mx-auto text-amber-600 mb-4" />
+        <h2 className="text-4xl font-heritage font-bold">{t('compare.title')}</h2>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-10 sticky top-16 z-30 bg-stone-50/90 backdrop-blur-md py-4">
+        {[{ name: leftName, set: setLeftName, state: left }, { name: rightName, set: setRightName, state: right }].map((side, i) => (
+          <div key={i} className="flex gap-2 items-center">
+            <PlacePicker value={side.name} suggestions={suggestions} placeholder={t('compare.choose')} onChange={side.set} />
+            {side.state.place && (
+              <button onClick={() => onOpenPlace(side.state.place!.name)} className="p-3 bg-stone-100 hover:bg-amber-50 rounded-xl" title={side.state.place.name}>
+                <ChevronRight size={20} className="rtl:rotate-180" />
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {(comparing || comparison) && (
+        <div className="bg-stone-900 text-stone-100 p-8 rounded-2xl shadow-xl mb-12">
+          <h3 className="font-bold uppercase tracking-widest text-amber-400 mb-6 flex items-center gap-2 text-sm">
+            <Sparkles size={20} /> {t('compare.aiComparison')}
+          </h3>
+          {comparing && !comparison ? (
+            <Loader2 className="animate-spin text-amber-400" />
+          ) : comparison && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {COMPARISON_FIELDS.map(field => (
+                  <div key={field}>
+                    <h4 className="font-heritage text-xl font-bold text-amber-500 mb-1">{t(`compare.${field}`)}</h4>
+                    <p className="text-stone-300 leading-relaxed">{comparison[field]}</p>
+                  </div>
+                ))}
+              </div>
+              <p className="text-lg font-heritage italic text-stone-200 border-t border-white/10 pt-6">{comparison.summary}</p>
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="space-y-10">
+        {HERITAGE_SECTIONS.map(section => (
+          <div key={section.key}>
+            <h3 className="text-2xl font-bold font-heritage text-stone-800 mb-4 border-b border-stone-200 pb-2">{t(`section.${section.key}`)}</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {[left, right].map((state, i) => (
+                <React.Fragment key={i}>
+                  {column(state, place => section.key === 'poets' ? (
+                    <ul className="space-y-3">
+                      {place.content?.poets?.map((poet, j) => (
+                        <li key={j}>
+                          <span className="font-heritage text-lg font-bold text-amber-800">{poet.name}</span>
+                          <span className="block text-sm text-stone-500">{poet.period} • {poet.language}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p>{place.content?.[section.key as TextSectionKey]}</p>
+                  ))}
+                </React.Fragment>
+              ))}
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
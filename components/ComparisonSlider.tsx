@@ -0,0 +1,96 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ZoomIn, ZoomOut, Maximize, MoveHorizontal } from 'lucide-react';
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 6;
+
+// Before/after overlay: drag the handle to reveal the "after" image. Both images share one
+// transform, so zoom and pan stay in sync.
+export const ComparisonSlider: React.FC<{ before: string; after: string; beforeLabel: string; afterLabel: string }> = ({ before, after, beforeLabel, afterLabel }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const panRef = useRef<{ x: number; y: number; offset: { x: number; y: number } } | null>(null);
+  const [position, setPosition] = useState(50);
+  const [draggingHandle, setDraggingHandle] = useState(false);
+  const [scale, setScale] = useState(1);
+  const [offset, setOffset] = useState({ x: 0, y: 0 });
+  const scaleRef = useRef(scale);
+  scaleRef.current = scale;
+
+  const setScaleClamped = (next: number) => {
+    const clamped = Math.max(MIN_SCALE, Math.min(MAX_SCALE, next));
+    setScale(clamped);
+    if (clamped === MIN_SCALE) setOffset({ x: 0, y: 0 });
+  };
+
+  // React attaches wheel handlers as passive, so the page would scroll along; a native listener can stop that
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setScaleClamped(scaleRef.current * (e.deltaY < 0 ? 1.2 : 1 / 1.2));
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const moveHandle = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect) return;
+    setPosition(Math.max(0, Math.min(100, ((clientX - rect.left) / rect.width) * 100)));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    if ((e.target as HTMLElement).dataset.handle) {
+      setDraggingHandle(true);
+      moveHandle(e.clientX);
+    } else if (scale > MIN_SCALE) {
+      panRef.current = { x: e.clientX, y: e.clientY, offset };
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    if (draggingHandle) return moveHandle(e.clientX);
+    const pan = panRef.current;
+    if (pan) setOffset({ x: pan.offset.x + (e.clientX - pan.x) / scale, y: pan.offset.y + (e.clientY - pan.y) / scale });
+  };
+
+  const endDrag = () => {
+    setDraggingHandle(false);
+    panRef.current = null;
+  };
+
+  const imageStyle: React.CSSProperties = { transform: `scale(${scale}) translate(${offset.x}px, ${offset.y}px)` };
+
+  return (
+    <div
+      ref={containerRef}
+      className={`relative w-full h-full overflow-hidden rounded-3xl bg-stone-900 select-none touch-none ${scale > MIN_SCALE ? 'cursor-grab active:cursor-grabbing' : ''}`}
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={endDrag}
+      onPointerCancel={endDrag}
+    >
+      <img src={before} alt={beforeLabel} draggable={false} className="absolute inset-0 w-full h-full object-contain" style={imageStyle} />
+      <div className="absolute inset-0" style={{ clipPath: `inset(0 0 0 ${position}%)` }}>
+        <img src={after} alt={afterLabel} draggable={false} className="absolute inset-0 w-full h-full object-contain" style={imageStyle} />
+      </div>
+
+      <span className="absolute top-4 left-4 px-3 py-1 bg-black/60 text-white text-xs font-bold uppercase tracking-widest rounded-full">{beforeLabel}</span>
+      <span className="absolute top-4 right-4 px-3 py-1 bg-amber-600/90 text-white text-xs font-bold uppercase tracking-widest rounded-full">{afterLabel}</span>
+
+      <div className="absolute inset-y-0 w-1 bg-white shadow-xl -translate-x-1/2 cursor-ew-resize" style={{ left: `${position}%` }} data-handle="true">
+        <div className="absolute top-1/2 left-1/2 -translate-x-1/2 -translate-y-1/2 w-10 h-10 rounded-full bg-white shadow-xl flex items-center justify-center text-stone-700 pointer-events-none">
+          <MoveHorizontal size={20} />
+        </div>
+      </div>
+
+      <div className="absolute bottom-4 left-1/2 -translate-x-1/2 flex bg-white/90 rounded-full shadow-lg overflow-hidden" onPointerDown={e => e.stopPropagation()}>
+        <button onClick={() => setScaleClamped(scale / 1.5)} className="p-2 hover:bg-stone-100"><ZoomOut size={18} /></button>
+        <button onClick={() => setScaleClamped(MIN_SCALE)} className="p-2 hover:bg-stone-100"><Maximize size={18} /></button>
+        <button onClick={() => setScaleClamped(scale * 1.5)} className="p-2 hover:bg-stone-100"><ZoomIn size={18} /></button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,102 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { FileDown, FileText, FileJson, Printer, Loader2, Upload } from 'lucide-react';
+import { DossierImportError, DossierService } from '../dossierService';
+import { Language, PlaceDetails } from '../types';
+import { useT } from '../i18n';
+
+type ExportFormat = 'pdf' | 'markdown' | 'json';
+
+const FORMATS: { format: ExportFormat; icon: React.ElementType }[] = [
+  { format: 'pdf', icon: Printer },
+  { format: 'markdown', icon: FileText },
+  { format: 'json', icon: FileJson },
+];
+
+/** Exports the place as it is shown (whatever has been generated so far) with the user's saved records for it. */
+export const ExportMenu: React.FC<{ place: PlaceDetails; lang: Language }> = ({ place, lang }) => {
+  const t = useT();
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => !menuRef.current?.contains(e.target as Node) && setOpen(false);
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  const exportAs = async (format: ExportFormat) => {
+    setOpen(false);
+    setBusy(true);
+    try {
+      const dossier = await DossierService.build(place, lang);
+      if (format === 'pdf') await DossierService.print(dossier);
+      else DossierService.download(dossier, format);
+    } catch (e) {
+      console.error('Export failed', e);
+      alert(t('export.failed'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={busy}
+        aria-expanded={open}
+        className="px-4 py-2 bg-stone-100 hover:bg-stone-200 rounded-full text-sm font-medium text-stone-600 flex items-center gap-2 transition disabled:opacity-50"
+      >
+        {busy ? <Loader2 size={16} className="animate-spin" /> : <FileDown size={16} />} {t('export.label')}
+      </button>
+      {open && (
+        <div className="absolute end-0 mt-2 w-56 bg-white border border-stone-200 rounded-xl shadow-xl py-1 z-30">
+          {FORMATS.map(({ format, icon: Icon }) => (
+            <button key={format} onClick={() => exportAs(format)} className="w-full px-4 py-2 text-start text-sm text-stone-700 hover:bg-amber-50 flex items-center gap-2">
+              <Icon size={16} className="text-amber-700" /> {t(`export.${format}`)}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Reads a JSON dossier exported earlier (possibly on another device) and hands back the place to open. */
+export const DossierImportButton: React.FC<{ onImported: (placeName: string, lang: Language) => void }> = ({ onImported }) => {
+  const t = useT();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [busy, setBusy] = useState(false);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBusy(true);
+    try {
+      const dossier = DossierService.parse(await file.text());
+      await DossierService.import(dossier);
+      onImported(dossier.place.name, dossier.lang);
+    } catch (error) {
+      console.error('Import failed', error);
+      alert(error instanceof DossierImportError && error.reason === 'version' ? t('export.importVersion') : t('export.importFormat'));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <>
+      <button
+        onClick={() => inputRef.current?.click()}
+        disabled={busy}
+        className="px-5 py-2 bg-stone-100 hover:bg-stone-200 rounded-full text-sm font-medium text-stone-600 inline-flex items-center gap-2 transition disabled:opacity-50"
+      >
+        {busy ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} {t('export.import')}
+      </button>
+      <input ref={inputRef} type="file" hidden accept="application/json,.json" onChange={handleFile} />
+    </>
+  );
+};
@@ -0,0 +1,193 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Plus, Minus, MapPin } from 'lucide-react';
+import { Coordinates, MapPlace } from '../types';
+import { Point, project, TILE_ATTRIBUTION, TILE_SIZE, tileUrl } from '../mapTiles';
+
+const MIN_ZOOM = 3;
+const MAX_ZOOM = 18;
+const CLUSTER_RADIUS = 48;
+
+// Centre of Andhra Pradesh, used when there is nothing to fit
+const DEFAULT_CENTER: Coordinates = { lat: 15.9, lng: 79.7 };
+const DEFAULT_ZOOM = 6;
+
+interface Cluster {
+  point: Point;
+  places: MapPlace[];
+}
+
+const unproject = ({ x, y }: Point, zoom: number): Coordinates => {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const n = Math.PI - (2 * Math.PI * y) / scale;
+  return {
+    lat: (180 / Math.PI) * Math.atan(0.5 * (Math.exp(n) - Math.exp(-n))),
+    lng: (x / scale) * 360 - 180,
+  };
+};
+
+const clampZoom = (zoom: number) => Math.max(MIN_ZOOM, Math.min(MAX_ZOOM, zoom));
+
+// Largest zoom at which every place fits inside the viewport
+const fitZoom = (places: MapPlace[], size: Point) => {
+  for (let zoom = 12; zoom > MIN_ZOOM; zoom--) {
+    const points = places.map(p => project(p.coords, zoom));
+    const width = Math.max(...points.map(p => p.x)) - Math.min(...points.map(p => p.x));
+    const height = Math.max(...points.map(p => p.y)) - Math.min(...points.map(p => p.y));
+    if (width < size.x - 2 * CLUSTER_RADIUS && height < size.y - 2 * CLUSTER_RADIUS) return zoom;
+  }
+  return MIN_ZOOM;
+};
+
+// Greedy screen-space clustering: each place joins the first cluster within CLUSTER_RADIUS pixels
+const clusterPlaces = (places: MapPlace[], zoom: number): Cluster[] => {
+  const clusters: Cluster[] = [];
+  for (const place of places) {
+    const point = project(place.coords, zoom);
+    const near = clusters.find(c => Math.hypot(c.point.x - point.x, c.point.y - point.y) < CLUSTER_RADIUS);
+    if (near) {
+      near.places.push(place);
+      const n = near.places.length;
+      near.point = { x: near.point.x + (point.x - near.point.x) / n, y: near.point.y + (point.y - near.point.y) / n };
+    } else {
+      clusters.push({ point, places: [place] });
+    }
+  }
+  return clusters;
+};
+
+export const HeritageMap: React.FC<{ places: MapPlace[]; onSelect: (name: string) => void }> = ({ places, onSelect }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ start: Point; center: Point } | null>(null);
+  const [size, setSize] = useState<Point>({ x: 0, y: 0 });
+  const [center, setCenter] = useState<Coordinates>(DEFAULT_CENTER);
+  const [zoom, setZoom] = useState(DEFAULT_ZOOM);
+  const [hovered, setHovered] = useState<string | null>(null);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => setSize({ x: entry.contentRect.width, y: entry.contentRect.height }));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // React attaches wheel handlers as passive, so the page would scroll along; a native listener can stop that
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      setZoom(z => clampZoom(z + (e.deltaY < 0 ? 1 : -1)));
+    };
+    el.addEventListener('wheel', handleWheel, { passive: false });
+    return () => el.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  // Fit the view whenever the set of plotted places changes
+  const placesKey = places.map(p => p.name).join('|');
+  useEffect(() => {
+    if (!size.x || places.length === 0) return;
+    const lat = places.reduce((sum, p) => sum + p.coords.lat, 0) / places.length;
+    const lng = places.reduce((sum, p) => sum + p.coords.lng, 0) / places.length;
+    setCenter({ lat, lng });
+    setZoom(places.length === 1 ? 10 : fitZoom(places, size));
+  }, [placesKey, size.x > 0]);
+
+  const centerPx = project(center, zoom);
+  const origin = { x: centerPx.x - size.x / 2, y: centerPx.y - size.y / 2 };
+  const clusters = useMemo(() => clusterPlaces(places, zoom), [places, zoom]);
+
+  const tiles: { key: string; url: string; left: number; top: number }[] = [];
+  const count = Math.pow(2, zoom);
+  for (let tx = Math.floor(origin.x / TILE_SIZE); tx <= Math.floor((origin.x + size.x) / TILE_SIZE); tx++) {
+    for (let ty = Math.floor(origin.y / TILE_SIZE); ty <= Math.floor((origin.y + size.y) / TILE_SIZE); ty++) {
+      if (ty < 0 || ty >= count) continue;
+      tiles.push({
+        key: `${zoom}/${tx}/${ty}`,
+        url: tileUrl(((tx % count) + count) % count, ty, zoom),
+        left: tx * TILE_SIZE - origin.x,
+        top: ty * TILE_SIZE - origin.y,
+      });
+    }
+  }
+
+  const zoomTo = (nextZoom: number, focus: Coordinates = center) => {
+    setCenter(focus);
+    setZoom(clampZoom(nextZoom));
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    dragRef.current = { start: { x: e.clientX, y: e.clientY }, center: centerPx };
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setCenter(unproject({ x: drag.center.x - (e.clientX - drag.start.x), y: drag.center.y - (e.clientY - drag.start.y) }, zoom));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      className="relative w-full h-full overflow-hidden bg-stone-200 rounded-3xl select-none touch-none cursor-grab active:cursor-grabbing"
+      onPointerDown={handlePointerDown}
+      onPointerMove={handlePointerMove}
+      onPointerUp={() => (dragRef.current = null)}
+      onPointerLeave={() => (dragRef.current = null)}
+    >
+      {tiles.map(tile => (
+        <img
+          key={tile.key}
+          src={tile.url}
+          alt=""
+          draggable={false}
+          className="absolute pointer-events-none"
+          style={{ left: tile.left, top: tile.top, width: TILE_SIZE, height: TILE_SIZE }}
+        />
+      ))}
+
+      {clusters.map(cluster => {
+        const left = cluster.point.x - origin.x;
+        const top = cluster.point.y - origin.y;
+        if (cluster.places.length > 1) {
+          return (
+            <button
+              key={cluster.places.map(p => p.name).join('|')}
+              onPointerDown={e => e.stopPropagation()}
+              onClick={() => zoomTo(zoom + 2, unproject(cluster.point, zoom))}
+              className="absolute -translate-x-1/2 -translate-y-1/2 w-11 h-11 rounded-full bg-amber-700 text-white font-bold shadow-xl border-4 border-amber-200 hover:scale-110 transition"
+              style={{ left, top }}
+              title={cluster.places.map(p => p.name).join(', ')}
+            >
+              {cluster.places.length}
+            </button>
+          );
+        }
+        const place = cluster.places[0];
+        return (
+          <button
+            key={place.name}
+            onPointerDown={e => e.stopPropagation()}
+            onClick={() => onSelect(place.name)}
+            onMouseEnter={() => setHovered(place.name)}
+            onMouseLeave={() => setHovered(null)}
+            className="absolute -translate-x-1/2 -translate-y-full flex flex-col items-center"
+            style={{ left, top }}
+          >
+            {hovered === place.name && (
+              <span className="mb-1 px-3 py-1 bg-white rounded-lg shadow-lg text-sm font-bold text-stone-800 whitespace-nowrap">{place.name}</span>
+            )}
+            <MapPin size={36} className="text-amber-700 fill-amber-100 drop-shadow-lg hover:scale-110 transition" />
+          </button>
+        );
+      })}
+
+      <div className="absolute top-4 right-4 flex flex-col bg-white rounded-xl shadow-lg overflow-hidden" onPointerDown={e => e.stopPropagation()}>
+        <button onClick={() => zoomTo(zoom + 1)} className="p-2 hover:bg-stone-100 border-b border-stone-200"><Plus size={18} /></button>
+        <button onClick={() => zoomTo(zoom - 1)} className="p-2 hover:bg-stone-100"><Minus size={18} /></button>
+      </div>
+      <div className="absolute bottom-0 right-0 px-2 py-0.5 bg-white/80 text-[10px] text-stone-600">{TILE_ATTRIBUTION}</div>
+    </div>
+  );
+};
@@ -0,0 +1,93 @@
+import React, { useState, useEffect } from 'react';
+import { ChevronLeft, ChevronRight, X, Images, ExternalLink } from 'lucide-react';
+import { WikiImage } from '../types';
+import { useT } from '../i18n';
+
+const Credits: React.FC<{ image: WikiImage }> = ({ image }) => (
+  <p className="text-xs text-stone-400">
+    {image.author && <span>{image.author}</span>}
+    {image.author && image.license && <span> • </span>}
+    {image.license && (image.licenseUrl
+      ? <a href={image.licenseUrl} target="_blank" rel="noreferrer" className="hover:underline">{image.license}</a>
+      : <span>{image.license}</span>)}
+    {image.descriptionUrl && (
+      <a href={image.descriptionUrl} target="_blank" rel="noreferrer" className="ml-2 inline-flex items-center gap-1 hover:underline">
+        <ExternalLink size={10} /> Wikimedia
+      </a>
+    )}
+  </p>
+);
+
+const Lightbox: React.FC<{ images: WikiImage[]; index: number; onIndexChange: (i: number) => void; onClose: () => void }> = ({ images, index, onIndexChange, onClose }) => {
+  const image = images[index];
+  const step = (delta: number) => onIndexChange((index + delta + images.length) % images.length);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+      else if (e.key === 'ArrowRight') step(1);
+      else if (e.key === 'ArrowLeft') step(-1);
+    };
+    window.addEventListener('keydown', onKey);
+    return () => window.removeEventListener('keydown', onKey);
+  }, [index, images.length]);
+
+  return (
+    <div className="fixed inset-0 z-[60] bg-black/95 flex flex-col" onClick={onClose}>
+      <div className="flex justify-between items-center p-4 text-stone-300 text-sm">
+        <span>{index + 1} / {images.length}</span>
+        <button onClick={onClose} className="p-2 hover:text-white"><X size={28} /></button>
+      </div>
+      <div className="relative flex-grow min-h-0 flex items-center justify-center px-16" onClick={(e) => e.stopPropagation()}>
+        <button onClick={() => step(-1)} className="absolute left-4 p-3 rounded-full bg-white/10 hover:bg-white/20 text-white"><ChevronLeft size={28} /></button>
+        <img src={image.url} alt={image.caption} className="max-w-full max-h-full object-contain" />
+        <button onClick={() => step(1)} className="absolute right-4 p-3 rounded-full bg-white/10 hover:bg-white/20 text-white"><ChevronRight size={28} /></button>
+      </div>
+      <div className="p-6 text-center max-w-3xl mx-auto" onClick={(e) => e.stopPropagation()}>
+        <p className="text-stone-100 font-heritage text-lg mb-1">{image.caption}</p>
+        <Credits image={image} />
+      </div>
+      <div className="flex gap-2 overflow-x-auto px-4 pb-4 justify-center" onClick={(e) => e.stopPropagation()}>
+        {images.map((img, i) => (
+          <button key={img.url} onClick={() => onIndexChange(i)} className={`shrink-0 w-16 h-16 rounded-lg overflow-hidden border-2 ${i === index ? 'border-amber-500' : 'border-transparent opacity-60 hover:opacity-100'}`}>
+            <img src={img.thumbUrl || img.url} alt="" className="w-full h-full object-cover" />
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+// Hero grid of the first three images, opening a full-screen lightbox over the whole gallery
+export const ImageGallery: React.FC<{ images: WikiImage[] }> = ({ images }) => {
+  const t = useT();
+  const [openIndex, setOpenIndex] = useState<number | null>(null);
+  if (images.length === 0) return null;
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-12">
+        {images.slice(0, 3).map((img, i) => (
+          <button
+            key={img.url}
+            onClick={() => setOpenIndex(i)}
+            className={`group relative overflow-hidden rounded-2xl h-64 text-start ${i === 0 ? 'md:col-span-2' : ''}`}
+          >
+            <img src={img.thumbUrl || img.url} alt={img.caption} className="w-full h-full object-cover group-hover:scale-105 transition duration-500" />
+            <div className="absolute inset-x-0 bottom-0 p-3 bg-gradient-to-t from-black/70 to-transparent opacity-0 group-hover:opacity-100 transition">
+              <p className="text-white text-sm line-clamp-2">{img.caption}</p>
+            </div>
+            {i === 2 && images.length > 3 && (
+              <span className="absolute bottom-3 end-3 px-3 py-1.5 bg-black/70 text-white text-sm font-bold rounded-full flex items-center gap-2">
+                <Images size={16} /> {t('gallery.viewAll', { count: images.length })}
+              </span>
+            )}
+          </button>
+        ))}
+      </div>
+      {openIndex !== null && (
+        <Lightbox images={images} index={openIndex} onIndexChange={setOpenIndex} onClose={() => setOpenIndex(null)} />
+      )}
+    </>
+  );
+};
@@ -0,0 +1,274 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ScrollText, Upload, Loader2, ImagePlus, Save, Check, Trash2, AlertTriangle } from 'lucide-react';
+import { InscriptionService } from '../inscriptionService';
+import { readImageFile } from '../imageFile';
+import { isAbortError } from '../retry';
+import { AiBadge } from './Citations';
+import { Confidence, InscriptionReading, InscriptionRecord, Language, TransliterationScheme } from '../types';
+import { LANGUAGE_INFO, useT } from '../i18n';
+
+const SCHEMES: TransliterationScheme[] = ['ISO 15919', 'IAST'];
+
+const CONFIDENCE_STYLES: Record<Confidence, string> = {
+  high: 'bg-green-50 text-green-700 border-green-200',
+  medium: 'bg-amber-50 text-amber-700 border-amber-200',
+  low: 'bg-red-50 text-red-700 border-red-200',
+};
+
+const ConfidenceBadge: React.FC<{ level: Confidence }> = ({ level }) => {
+  const t = useT();
+  return (
+    <span className={`px-2 py-0.5 rounded-full border text-[10px] font-bold uppercase tracking-widest whitespace-nowrap ${CONFIDENCE_STYLES[level]}`}>
+      {t('inscriptions.confidence', { level })}
+    </span>
+  );
+};
+
+const ReadingCard: React.FC<{ reading: InscriptionReading }> = ({ reading }) => {
+  const t = useT();
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center gap-2">
+        <h3 className="text-2xl font-heritage font-bold text-stone-800">{reading.script}</h3>
+        <ConfidenceBadge level={reading.scriptConfidence} />
+        <AiBadge />
+      </div>
+      <dl className="grid grid-cols-2 gap-4 text-sm">
+        <div>
+          <dt className="text-stone-500">{t('inscriptions.language')}</dt>
+          <dd className="font-medium text-stone-800">{reading.language}</dd>
+        </div>
+        <div>
+          <dt className="text-stone-500">{t('inscriptions.period')}</dt>
+          <dd className="font-medium text-stone-800 flex flex-wrap items-center gap-2">{reading.period} <ConfidenceBadge level={reading.periodConfidence} /></dd>
+        </div>
+      </dl>
+
+      {reading.lines.length > 0 && (
+        <div>
+          <h4 className="font-bold uppercase tracking-widest text-stone-500 text-xs mb-2">{t('inscriptions.lines')} • {reading.scheme}</h4>
+          <ol className="space-y-3">
+            {reading.lines.map((line, i) => (
+              <li key={i} className="p-3 bg-white border border-stone-200 rounded-xl text-sm">
+                <div className="flex items-start justify-between gap-2">
+                  <p className="text-lg text-stone-900">{line.original}</p>
+                  <ConfidenceBadge level={line.confidence} />
+                </div>
+                <p className="italic text-stone-600" title={t('inscriptions.transliteration')}>{line.transliteration}</p>
+                <p className="text-stone-800 mt-1" title={t('inscriptions.translation')}>{line.translation}</p>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      <div>
+        <h4 className="font-bold uppercase tracking-widest text-stone-500 text-xs mb-2">{t('inscriptions.translation')}</h4>
+        <p className="text-stone-800 leading-relaxed">{reading.translation}</p>
+      </div>
+      {reading.notes && (
+        <div>
+          <h4 className="font-bold uppercase tracking-widest text-stone-500 text-xs mb-2">{t('inscriptions.notes')}</h4>
+          <p className="text-sm text-stone-600 leading-relaxed">{reading.notes}</p>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Reads an inscription from a photo (script, date, transliteration, translation into the app language)
+ * and keeps readings saved against places.
+ */
+export const InscriptionView: React.FC<{ lang: Language; placeName?: string; suggestions: string[] }> = ({ lang, placeName, suggestions }) => {
+  const t = useT();
+  const [image, setImage] = useState<string | null>(null);
+  const [scheme, setScheme] = useState<TransliterationScheme>('ISO 15919');
+  const [reading, setReading] = useState<InscriptionReading | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+  const [place, setPlace] = useState(placeName || '');
+  const [savedId, setSavedId] = useState<string | null>(null);
+  const [records, setRecords] = useState<InscriptionRecord[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => setPlace(placeName || ''), [placeName]);
+
+  useEffect(() => {
+    InscriptionService.list(placeName).then(setRecords).catch(console.error);
+  }, [placeName]);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    abortRef.current?.abort();
+    setImage(await readImageFile(file, 2048, 0.92));
+    setReading(null);
+    setSavedId(null);
+    setError(false);
+  };
+
+  const read = async () => {
+    if (!image) return;
+    abortRef.current?.abort();
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+    setError(false);
+    setSavedId(null);
+    try {
+      setReading(await InscriptionService.read(image, lang, scheme, controller.signal));
+    } catch (e) {
+      if (isAbortError(e)) return;
+      console.error('Failed to read inscription', e);
+      setError(true);
+    } finally {
+      if (abortRef.current === controller) setLoading(false);
+    }
+  };
+
+  const save = async () => {
+    if (!reading || !image || !place.trim()) return;
+    // The full-size photo is only needed for reading; keep a smaller copy with the record
+    const thumbnail = await readImageFile(await (await fetch(image)).blob(), 640);
+    const record = await InscriptionService.save(reading, place, thumbnail, lang);
+    setSavedId(record.id);
+    setRecords(await InscriptionService.list(placeName));
+  };
+
+  const remove = async (id: string) => {
+    await InscriptionService.remove(id);
+    setRecords(prev => prev.filter(r => r.id !== id));
+    if (savedId === id) setSavedId(null);
+  };
+
+  const show = (record: InscriptionRecord) => {
+    abortRef.current?.abort();
+    setLoading(false);
+    setImage(record.imageDataUrl);
+    setReading(record);
+    setSavedId(record.id);
+    setPlace(record.placeName);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  return (
+    <div className="max-w-6xl mx-auto px-4 py-16">
+      <div className="text-center mb-12">
+        <ScrollText size={48} className="mx-auto text-amber-600 mb-4" />
+        <h2 className="text-4xl font-heritage font-bold mb-4">{t('inscriptions.title')}</h2>
+        <p className="text-stone-500 max-w-2xl mx-auto">{t('inscriptions.intro')}</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div className="flex flex-col gap-4">
+          <div
+            className={`border-2 border-dashed rounded-3xl flex items-center justify-center h-[400px] bg-white border-stone-300 overflow-hidden transition ${image ? '' : 'p-12 cursor-pointer hover:border-amber-400'}`}
+            onClick={() => !image && fileRef.current?.click()}
+          >
+            {image ? (
+              <img src={image} alt={t('inscriptions.upload')} className="max-w-full max-h-full object-contain" />
+            ) : (
+              <div className="text-center">
+                <Upload size={32} className="mx-auto text-amber-600 mb-2" />
+                <p className="font-bold">{t('inscriptions.upload')}</p>
+              </div>
+            )}
+            <input ref={fileRef} type="file" hidden accept="image/*" onChange={handleFile} />
+          </div>
+          {image && (
+            <>
+              <div className="flex items-center justify-between gap-3">
+                <label className="flex items-center gap-2 text-sm text-stone-600">
+                  {t('inscriptions.scheme')}
+                  <select value={scheme} onChange={(e) => setScheme(e.target.value as TransliterationScheme)} className="px-3 py-2 bg-white border border-stone-200 rounded-xl text-sm">
+                    {SCHEMES.map(s => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                </label>
+                <button onClick={() => fileRef.current?.click()} className="flex items-center gap-1 text-sm text-amber-700 font-medium hover:underline">
+                  <ImagePlus size={14} /> {t('inscriptions.changePhoto')}
+                </button>
+              </div>
+              <button
+                onClick={read}
+                disabled={loading}
+                className="w-full py-4 bg-amber-600 text-white rounded-2xl font-bold flex items-center justify-center gap-2 disabled:opacity-70"
+              >
+                {loading ? <Loader2 className="animate-spin" /> : <ScrollText />} {t('inscriptions.action')}
+              </button>
+            </>
+          )}
+        </div>
+
+        <div className="bg-stone-50 rounded-3xl border border-stone-200 p-6 min-h-[400px]">
+          {loading ? (
+            <div className="h-full flex flex-col items-center justify-center text-stone-500 gap-3">
+              <Loader2 size={32} className="animate-spin text-amber-600" />
+              <p className="italic">{t('inscriptions.reading')}</p>
+            </div>
+          ) : error ? (
+            <div className="h-full flex flex-col items-center justify-center text-center text-red-700 gap-3">
+              <AlertTriangle size={32} />
+              <p>{t('inscriptions.failed')}</p>
+            </div>
+          ) : reading ? (
+            <>
+              <ReadingCard reading={reading} />
+              <div className="mt-8 pt-4 border-t border-stone-200 flex gap-2">
+                <input
+                  list="inscription-places"
+                  value={place}
+                  onChange={(e) => { setPlace(e.target.value); setSavedId(null); }}
+                  placeholder={t('inscriptions.placePlaceholder')}
+                  aria-label={t('inscriptions.place')}
+                  className="flex-grow min-w-0 px-4 py-2 bg-white border border-stone-200 rounded-xl text-sm"
+                />
+                <datalist id="inscription-places">
+                  {suggestions.map(s => <option key={s} value={s} />)}
+                </datalist>
+                <button
+                  onClick={save}
+                  disabled={!place.trim() || !!savedId}
+                  className="px-4 py-2 bg-stone-800 hover:bg-stone-900 text-white rounded-xl text-sm font-medium flex items-center gap-2 disabled:opacity-60 transition"
+                >
+                  {savedId ? <><Check size={16} /> {t('inscriptions.saved')}</> : <><Save size={16} /> {t('inscriptions.save')}</>}
+                </button>
+              </div>
+            </>
+          ) : (
+            <p className="h-full flex items-center justify-center text-stone-400 italic">{t('inscriptions.placeholder')}</p>
+          )}
+        </div>
+      </div>
+
+      {records.length > 0 && (
+        <div className="mt-12">
+          <h3 className="text-2xl font-bold font-heritage text-stone-800 mb-4 border-b border-stone-200 pb-2">
+            {placeName ? t('inscriptions.savedFor', { place: placeName }) : t('inscriptions.savedAll')}
+          </h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {records.map(record => (
+              <div key={record.id} className={`bg-white rounded-2xl border-2 overflow-hidden transition ${record.id === savedId ? 'border-amber-500 shadow-lg' : 'border-stone-200'}`}>
+                <button onClick={() => show(record)} className="block w-full h-32">
+                  <img src={record.imageDataUrl} alt={record.script} className="w-full h-full object-cover" />
+                </button>
+                <div className="p-3">
+                  <p className="text-sm font-bold text-stone-800">{record.script}</p>
+                  <p className="text-xs text-amber-700">{record.placeName} • {record.period}</p>
+                  <p className="text-xs text-stone-400">
+                    {new Date(record.createdAt).toLocaleDateString(LANGUAGE_INFO[lang].locale, { dateStyle: 'medium' })} • {LANGUAGE_INFO[record.lang].name}
+                  </p>
+                  <button onClick={() => remove(record.id)} className="mt-3 w-full p-2 bg-stone-100 hover:bg-red-50 hover:text-red-600 rounded-lg flex justify-center" title={t('inscriptions.delete')}><Trash2 size={16} /></button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
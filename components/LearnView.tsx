@@ -0,0 +1,232 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { GraduationCap, Loader2, Check, ChevronRight, UserPlus, AlertTriangle, BookOpen, MapPin } from 'lucide-react';
+import { PlaceService } from '../placeService';
+import { QuizService } from '../quizService';
+import { ProgressService } from '../progressService';
+import { findPath, LEARNING_PATHS, LearningPath } from '../learningPaths';
+import { isAbortError } from '../retry';
+import { Quiz } from './Quiz';
+import { Language, Learner, QuizQuestion } from '../types';
+import { useT } from '../i18n';
+
+const LearnerPicker: React.FC<{
+  learners: Learner[];
+  current: Learner | null;
+  onSelect: (id: string | null) => void;
+  onAdd: (name: string) => void;
+}> = ({ learners, current, onSelect, onAdd }) => {
+  const t = useT();
+  const [name, setName] = useState('');
+  const add = () => {
+    if (!name.trim()) return;
+    onAdd(name);
+    setName('');
+  };
+
+  return (
+    <div className="bg-white border border-stone-200 rounded-2xl p-4 flex flex-col md:flex-row md:items-center gap-3">
+      <label className="flex items-center gap-2 text-sm text-stone-600">
+        {t('learn.learner')}
+        <select value={current?.id || ''} onChange={(e) => onSelect(e.target.value || null)} className="px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl text-sm">
+          <option value="">—</option>
+          {learners.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
+        </select>
+      </label>
+      {current && <span className="text-xs text-stone-400">{t('learn.quizzesTaken', { count: current.attempts.length })}</span>}
+      <div className="md:ms-auto flex gap-2">
+        <input
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && add()}
+          placeholder={t('learn.learnerName')}
+          className="px-3 py-2 bg-stone-50 border border-stone-200 rounded-xl text-sm"
+        />
+        <button onClick={add} disabled={!name.trim()} className="px-4 py-2 bg-stone-800 text-white rounded-xl text-sm font-medium flex items-center gap-2 disabled:opacity-50">
+          <UserPlus size={16} /> {t('learn.add')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+const PathCard: React.FC<{ path: LearningPath; learner: Learner | null; onStart: (place: string) => void }> = ({ path, learner, onStart }) => {
+  const t = useT();
+  const done = path.places.filter(place => ProgressService.hasPassed(learner, place)).length;
+  const next = path.places.find(place => !ProgressService.hasPassed(learner, place)) || path.places[0];
+  return (
+    <div className="bg-white border border-stone-200 rounded-3xl p-6 flex flex-col">
+      <h3 className="text-2xl font-heritage font-bold text-stone-800">{t(`path.${path.id}.title`)}</h3>
+      <p className="text-sm text-stone-500 mt-1 mb-4">{t(`path.${path.id}.description`)}</p>
+      <ol className="space-y-1 mb-6 flex-grow">
+        {path.places.map(place => {
+          const passed = ProgressService.hasPassed(learner, place);
+          return (
+            <li key={place}>
+              <button onClick={() => onStart(place)} className="w-full text-start px-2 py-1 rounded-lg text-sm flex items-center gap-2 hover:bg-amber-50">
+                {passed ? <Check size={14} className="text-green-600" /> : <MapPin size={14} className="text-stone-300" />}
+                <span className={passed ? 'text-stone-500' : 'text-stone-800'}>{place}</span>
+              </button>
+            </li>
+          );
+        })}
+      </ol>
+      <div className="flex items-center justify-between gap-3">
+        <span className="text-xs text-stone-500">{t('learn.progress', { done, total: path.places.length })}</span>
+        <button onClick={() => onStart(next)} className="px-5 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-full text-sm font-medium flex items-center gap-1 transition">
+          {t(done === 0 ? 'learn.start' : done === path.places.length ? 'learn.review' : 'learn.continue')} <ChevronRight size={16} className="rtl:rotate-180" />
+        </button>
+      </div>
+    </div>
+  );
+};
+
+/**
+ * Learning paths and per-place quizzes. Without a place it lists the paths with the current learner's
+ * progress; with one it builds and runs that place's quiz, recording the result for the learner.
+ */
+export const LearnView: React.FC<{
+  lang: Language;
+  placeName?: string;
+  pathId?: string;
+  onNavigate: (place?: string, pathId?: string) => void;
+  onOpenPlace: (place: string) => void;
+}> = ({ lang, placeName, pathId, onNavigate, onOpenPlace }) => {
+  const t = useT();
+  const [learners, setLearners] = useState<Learner[]>([]);
+  const [currentId, setCurrentId] = useState<string | null>(() => ProgressService.getCurrentId());
+  const [questions, setQuestions] = useState<QuizQuestion[] | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState(false);
+  // Bumped to rebuild the quiz with freshly shuffled questions
+  const [round, setRound] = useState(0);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const path = findPath(pathId);
+  const current = learners.find(l => l.id === currentId) || null;
+  const stop = path && placeName ? path.places.indexOf(placeName) : -1;
+  const nextPlace = path && stop !== -1 ? path.places[stop + 1] : undefined;
+
+  useEffect(() => {
+    ProgressService.listLearners().then(setLearners).catch(console.error);
+  }, []);
+
+  useEffect(() => {
+    abortRef.current?.abort();
+    setQuestions(null);
+    setError(false);
+    if (!placeName) return;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setLoading(true);
+    (async () => {
+      try {
+        const place = await PlaceService.getDetails(placeName, lang, controller.signal);
+        setQuestions(await QuizService.build(place, lang, path?.places || [], controller.signal));
+      } catch (e) {
+        if (isAbortError(e)) return;
+        console.error('Failed to build quiz', e);
+        setError(true);
+      } finally {
+        if (abortRef.current === controller) setLoading(false);
+      }
+    })();
+    return () => controller.abort();
+  }, [placeName, lang, pathId, round]);
+
+  const selectLearner = (id: string | null) => {
+    setCurrentId(id);
+    ProgressService.setCurrentId(id);
+  };
+
+  const addLearner = async (name: string) => {
+    const learner = await ProgressService.addLearner(name);
+    setLearners(prev => [...prev, learner]);
+    selectLearner(learner.id);
+  };
+
+  const handleFinish = async (score: number, total: number) => {
+    if (!current || !placeName) return;
+    const updated = await ProgressService.recordAttempt(current, { placeName, pathId: path?.id, lang, score, total, completedAt: Date.now() });
+    setLearners(prev => prev.map(l => l.id === updated.id ? updated : l));
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-16">
+      <div className="text-center mb-10">
+        <GraduationCap size={48} className="mx-auto text-amber-600 mb-4" />
+        <h2 className="text-4xl font-heritage font-bold mb-4">{placeName ? t('quiz.title', { place: placeName }) : t('learn.title')}</h2>
+        {!placeName && <p className="text-stone-500 max-w-2xl mx-auto">{t('learn.intro')}</p>}
+      </div>
+
+      <div className="mb-8">
+        <LearnerPicker learners={learners} current={current} onSelect={selectLearner} onAdd={addLearner} />
+        {!current && <p className="text-xs text-stone-500 mt-2">{t('learn.noLearner')}</p>}
+      </div>
+
+      {!placeName ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+          {LEARNING_PATHS.map(p => <PathCard key={p.id} path={p} learner={current} onStart={(place) => onNavigate(place, p.id)} />)}
+        </div>
+      ) : (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+            <button onClick={() => onNavigate()} className="text-stone-500 hover:text-stone-800 flex items-center gap-1">
+              <ChevronRight className="rotate-180 rtl:rotate-0" size={16} /> {t('learn.allPaths')}
+            </button>
+            {path && (
+              <ol className="flex flex-wrap items-center gap-1 ms-2">
+                <li className="font-bold text-stone-700 me-1">{t(`path.${path.id}.title`)}:</li>
+                {path.places.map((place, i) => (
+                  <li key={place}>
+                    <button
+                      onClick={() => onNavigate(place, path.id)}
+                      className={`px-2 py-0.5 rounded-full flex items-center gap-1 ${i === stop ? 'bg-amber-600 text-white' : 'bg-stone-100 text-stone-600 hover:bg-stone-200'}`}
+                    >
+                      {ProgressService.hasPassed(current, place) && <Check size={12} />} {place}
+                    </button>
+                  </li>
+                ))}
+              </ol>
+            )}
+          </div>
+
+          {loading ? (
+            <div className="flex flex-col items-center justify-center py-24">
+              <Loader2 size={48} className="animate-spin text-amber-600 mb-4" />
+              <p className="text-xl font-heritage italic">{t('quiz.loading')}</p>
+            </div>
+          ) : error ? (
+            <div className="text-center py-16">
+              <AlertTriangle size={40} className="mx-auto text-red-500 mb-3" />
+              <p className="mb-4">{t('quiz.failed', { place: placeName })}</p>
+              <button onClick={() => setRound(r => r + 1)} className="px-5 py-2 bg-amber-600 hover:bg-amber-700 rounded-full text-sm font-medium text-white transition">
+                {t('common.tryAgain')}
+              </button>
+            </div>
+          ) : questions && questions.length === 0 ? (
+            <p className="text-center text-stone-500 py-16">{t('quiz.empty', { place: placeName })}</p>
+          ) : questions && (
+            <Quiz
+              key={round}
+              questions={questions}
+              onFinish={handleFinish}
+              onRetry={() => setRound(r => r + 1)}
+              actions={
+                <>
+                  <button onClick={() => onOpenPlace(placeName)} className="px-5 py-2 bg-stone-100 hover:bg-stone-200 rounded-full text-sm font-medium text-stone-600 flex items-center gap-2 transition">
+                    <BookOpen size={16} /> {t('quiz.readAbout', { place: placeName })}
+                  </button>
+                  {nextPlace && (
+                    <button onClick={() => onNavigate(nextPlace, path!.id)} className="px-5 py-2 bg-amber-600 hover:bg-amber-700 rounded-full text-sm font-medium text-white flex items-center gap-2 transition">
+                      {t('quiz.nextPlace', { place: nextPlace })} <ChevronRight size={16} className="rtl:rotate-180" />
+                    </button>
+                  )}
+                </>
+              }
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,118 @@
+import React, { useRef, useState, useEffect } from 'react';
+import { Brush, Eraser } from 'lucide-react';
+
+const STROKE_COLOR = '#ef4444';
+
+// Converts the painted strokes into a black/white mask PNG at the image's natural resolution (already downscaled on
+// upload, see imageFile.ts): white marks the region to restore, black is left untouched.
+const exportMask = (canvas: HTMLCanvasElement) => {
+  const mask = document.createElement('canvas');
+  mask.width = canvas.width;
+  mask.height = canvas.height;
+  const ctx = mask.getContext('2d')!;
+  ctx.drawImage(canvas, 0, 0);
+  ctx.globalCompositeOperation = 'source-in';
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, mask.width, mask.height);
+  ctx.globalCompositeOperation = 'destination-over';
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, mask.width, mask.height);
+  return mask.toDataURL('image/png');
+};
+
+export const MaskPainter: React.FC<{
+  image: string;
+  imageLabel: string;
+  clearLabel: string;
+  onChange: (maskDataUrl: string | null) => void;
+}> = ({ image, imageLabel, clearLabel, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [brushSize, setBrushSize] = useState(40);
+  const [erasing, setErasing] = useState(false);
+  const [hasStrokes, setHasStrokes] = useState(false);
+
+  // A new image resets the mask
+  useEffect(() => {
+    setHasStrokes(false);
+    onChange(null);
+  }, [image]);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+  };
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: ((e.clientX - rect.left) / rect.width) * canvas.width,
+      y: ((e.clientY - rect.top) / rect.height) * canvas.height,
+    };
+  };
+
+  const paint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const ctx = canvas.getContext('2d')!;
+    const point = toCanvasPoint(e);
+    const from = lastPointRef.current || point;
+    // Brush size is in screen pixels; scale it to the image resolution
+    ctx.lineWidth = brushSize * (canvas.width / canvas.getBoundingClientRect().width);
+    ctx.lineCap = 'round';
+    ctx.strokeStyle = STROKE_COLOR;
+    ctx.globalCompositeOperation = erasing ? 'destination-out' : 'source-over';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+    lastPointRef.current = point;
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    paint(e);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    lastPointRef.current = null;
+    setHasStrokes(true);
+    onChange(exportMask(e.currentTarget));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    setHasStrokes(false);
+    onChange(null);
+  };
+
+  return (
+    <div className="flex flex-col gap-3 h-full">
+      <div className="relative flex-grow min-h-0 flex items-center justify-center">
+        <div className="relative max-h-full">
+          <img src={image} onLoad={handleImageLoad} className="max-h-[320px] w-auto rounded-xl" alt={imageLabel} draggable={false} />
+          <canvas
+            ref={canvasRef}
+            className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none rounded-xl"
+            onPointerDown={handlePointerDown}
+            onPointerMove={(e) => lastPointRef.current && paint(e)}
+            onPointerUp={handlePointerUp}
+            onPointerCancel={handlePointerUp}
+          />
+        </div>
+      </div>
+      <div className="flex items-center gap-3 text-sm text-stone-600" onClick={e => e.stopPropagation()}>
+        <button onClick={() => setErasing(false)} className={`p-2 rounded-lg ${!erasing ? 'bg-amber-100 text-amber-800' : 'hover:bg-stone-100'}`}><Brush size={16} /></button>
+        <button onClick={() => setErasing(true)} className={`p-2 rounded-lg ${erasing ? 'bg-amber-100 text-amber-800' : 'hover:bg-stone-100'}`}><Eraser size={16} /></button>
+        <input type="range" min={5} max={120} value={brushSize} onChange={(e) => setBrushSize(Number(e.target.value))} className="flex-grow accent-amber-600" />
+        <button onClick={clear} disabled={!hasStrokes} className="px-3 py-1 rounded-lg bg-stone-100 hover:bg-stone-200 disabled:opacity-40">{clearLabel}</button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,183 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { CloudDownload, CloudOff, Loader2, RefreshCw, Trash2, WifiOff } from 'lucide-react';
+import { DownloadProgress, OfflineService, defaultOfflineLanguages } from '../offlineService';
+import { OutboxService } from '../outboxService';
+import { isAbortError } from '../retry';
+import { Language, OfflinePlace } from '../types';
+import { LANGUAGES, LANGUAGE_INFO, useT } from '../i18n';
+
+const samePlace = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Whether the device is online and how many requests wait in the outbox. Sends them at startup and whenever the
+ * connection comes back, so use it once, at the top of the app.
+ */
+export const useConnectivity = () => {
+  const [online, setOnline] = useState(navigator.onLine);
+  const [queued, setQueued] = useState(0);
+
+  useEffect(() => {
+    const refresh = () => OutboxService.list().then(items => setQueued(items.length)).catch(console.error);
+    const goOnline = () => {
+      setOnline(true);
+      OutboxService.flush().catch(console.error);
+    };
+    const goOffline = () => setOnline(false);
+    window.addEventListener('online', goOnline);
+    window.addEventListener('offline', goOffline);
+    const unsubscribe = OutboxService.subscribe(refresh);
+    refresh();
+    if (navigator.onLine) OutboxService.flush().catch(console.error);
+    return () => {
+      window.removeEventListener('online', goOnline);
+      window.removeEventListener('offline', goOffline);
+      unsubscribe();
+    };
+  }, []);
+
+  return { online, queued };
+};
+
+/** Header pill shown while offline or while queued requests are being sent. */
+export const OfflineIndicator: React.FC<{ online: boolean; queued: number }> = ({ online, queued }) => {
+  const t = useT();
+  if (online && !queued) return null;
+  return online ? (
+    <span className="px-3 py-1 rounded-full bg-sky-100 text-sky-800 text-xs font-bold flex items-center gap-1" title={t('offline.sending', { count: queued })}>
+      <RefreshCw size={14} className="animate-spin" /> {queued}
+    </span>
+  ) : (
+    <span className="px-3 py-1 rounded-full bg-amber-100 text-amber-900 text-xs font-bold flex items-center gap-1" title={t('offline.banner')}>
+      <WifiOff size={14} /> {t('offline.label')}{queued > 0 && ` • ${queued}`}
+    </span>
+  );
+};
+
+/** Strip under the header explaining what still works offline and what is waiting to be sent. */
+export const OfflineBanner: React.FC<{ online: boolean; queued: number }> = ({ online, queued }) => {
+  const t = useT();
+  if (online) return null;
+  return (
+    <div role="status" className="bg-amber-900 text-amber-50 text-sm px-4 py-2 flex items-center justify-center gap-2 text-center">
+      <CloudOff size={16} className="shrink-0" />
+      <span>{t('offline.banner')}{queued > 0 && ` ${t('offline.waiting', { count: queued })}`}</span>
+    </div>
+  );
+};
+
+/**
+ * Downloads one place, or every place of a collection, for use without a network: Wikipedia data, images and
+ * generated content in the chosen languages.
+ */
+export const OfflineDownloadMenu: React.FC<{ placeNames: string[]; lang: Language; online: boolean }> = ({ placeNames, lang, online }) => {
+  const t = useT();
+  const [open, setOpen] = useState(false);
+  const [langs, setLangs] = useState<Language[]>(() => defaultOfflineLanguages(lang));
+  const [downloaded, setDownloaded] = useState<OfflinePlace[]>([]);
+  const [progress, setProgress] = useState<DownloadProgress | null>(null);
+  const [failed, setFailed] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const refresh = () => OfflineService.list().then(setDownloaded).catch(console.error);
+
+  useEffect(() => {
+    refresh();
+  }, [placeNames.join('|')]);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (!open) return;
+    const close = (e: MouseEvent) => !menuRef.current?.contains(e.target as Node) && setOpen(false);
+    document.addEventListener('mousedown', close);
+    return () => document.removeEventListener('mousedown', close);
+  }, [open]);
+
+  // A place counts as available when it was downloaded in every chosen language
+  const available = (placeName: string) => {
+    const record = downloaded.find(place => samePlace(place.placeName, placeName));
+    return !!record && langs.every(l => record.langs.includes(l));
+  };
+  const allAvailable = placeNames.length > 0 && placeNames.every(available);
+  const anyDownloaded = placeNames.some(name => downloaded.some(place => samePlace(place.placeName, name)));
+
+  const toggleLang = (l: Language) => setLangs(prev => prev.includes(l) ? prev.filter(x => x !== l) : [...prev, l]);
+
+  const download = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setFailed(false);
+    try {
+      await OfflineService.downloadPlaces(placeNames, langs, setProgress, controller.signal);
+    } catch (error) {
+      if (isAbortError(error)) return;
+      console.error('Offline download failed', error);
+      setFailed(true);
+    } finally {
+      if (controllerRef.current === controller) {
+        controllerRef.current = null;
+        setProgress(null);
+        refresh();
+      }
+    }
+  };
+
+  const remove = async () => {
+    for (const name of placeNames) await OfflineService.remove(name);
+    refresh();
+  };
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        aria-expanded={open}
+        className={`px-4 py-2 rounded-full text-sm font-medium flex items-center gap-2 transition ${allAvailable ? 'bg-emerald-100 text-emerald-800 hover:bg-emerald-200' : 'bg-stone-100 text-stone-600 hover:bg-stone-200'}`}
+      >
+        {progress ? <Loader2 size={16} className="animate-spin" /> : <CloudDownload size={16} />}
+        {t(allAvailable ? 'offline.available' : 'offline.download')}
+      </button>
+      {open && (
+        <div className="absolute end-0 mt-2 w-72 bg-white border border-stone-200 rounded-xl shadow-xl p-3 z-30 text-sm">
+          <p className="text-xs text-stone-500 mb-2">{t('offline.downloadHint', { count: placeNames.length })}</p>
+          <p className="pt-1 pb-1 text-[10px] font-bold uppercase tracking-widest text-stone-400">{t('offline.languages')}</p>
+          <div className="grid grid-cols-2 gap-1 mb-3">
+            {LANGUAGES.map(l => (
+              <label key={l} className="flex items-center gap-2 px-2 py-1 rounded-lg hover:bg-amber-50 cursor-pointer text-stone-700">
+                <input type="checkbox" checked={langs.includes(l)} onChange={() => toggleLang(l)} disabled={!!progress} className="rounded text-amber-600" />
+                {LANGUAGE_INFO[l].name}
+              </label>
+            ))}
+          </div>
+          {progress ? (
+            <div>
+              <div className="h-1.5 bg-stone-100 rounded-full overflow-hidden">
+                <div className="h-full bg-amber-600 transition-all" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+              </div>
+              <p className="text-xs text-stone-500 mt-2 flex items-center justify-between gap-2">
+                <span className="truncate">{t('offline.downloading', { place: progress.placeName })}</span>
+                <button onClick={() => controllerRef.current?.abort()} className="text-stone-500 hover:text-red-600 shrink-0">{t('offline.cancel')}</button>
+              </p>
+            </div>
+          ) : (
+            <button
+              onClick={download}
+              disabled={!online || !langs.length || !placeNames.length}
+              className="w-full px-3 py-2 bg-amber-700 hover:bg-amber-800 disabled:opacity-50 text-white rounded-lg font-medium flex items-center justify-center gap-2"
+            >
+              <CloudDownload size={16} /> {t(allAvailable ? 'offline.update' : 'offline.download')}
+            </button>
+          )}
+          {!online && <p className="text-xs text-amber-700 mt-2">{t('offline.needsNetwork')}</p>}
+          {failed && <p className="text-xs text-red-600 mt-2">{t('offline.failed')}</p>}
+          {anyDownloaded && !progress && (
+            <button onClick={remove} className="w-full mt-2 px-3 py-1.5 text-xs text-stone-500 hover:text-red-600 flex items-center justify-center gap-1">
+              <Trash2 size={14} /> {t('offline.remove')}
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
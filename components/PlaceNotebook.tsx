@@ -0,0 +1,180 @@
+import React, { useEffect, useState } from 'react';
+import { StickyNote, Pencil, Trash2, Pin, PinOff, ChevronDown } from 'lucide-react';
+import { BookmarkService } from '../bookmarkService';
+import { ReconstructionService } from '../reconstructionService';
+import { HeritageContent, Language, PinnedAnswer, PlaceNote, ReconstructionRecord } from '../types';
+import { useT } from '../i18n';
+
+/**
+ * The user's notes, pinned chat answers and kept reconstructions for a place. Reloaded whenever `active` turns on,
+ * so reconstructions kept from the reconstruct view show up on returning to the place.
+ */
+export const usePlaceNotebook = (placeName: string | undefined, active: boolean) => {
+  const [notes, setNotes] = useState<Partial<Record<keyof HeritageContent, PlaceNote>>>({});
+  const [pins, setPins] = useState<PinnedAnswer[]>([]);
+  const [reconstructions, setReconstructions] = useState<ReconstructionRecord[]>([]);
+
+  useEffect(() => {
+    setNotes({});
+    setPins([]);
+    setReconstructions([]);
+    if (!placeName || !active) return;
+    let cancelled = false;
+    Promise.all([BookmarkService.getNotes(placeName), BookmarkService.listPins(placeName), ReconstructionService.list(placeName)])
+      .then(([placeNotes, placePins, placeReconstructions]) => {
+        if (cancelled) return;
+        setNotes(placeNotes);
+        setPins(placePins);
+        setReconstructions(placeReconstructions);
+      })
+      .catch(console.error);
+    return () => { cancelled = true; };
+  }, [placeName, active]);
+
+  const saveNote = async (section: keyof HeritageContent, text: string) => {
+    if (!placeName) return;
+    const note = await BookmarkService.saveNote(placeName, section, text);
+    setNotes(prev => {
+      const { [section]: _, ...rest } = prev;
+      return note ? { ...rest, [section]: note } : rest;
+    });
+  };
+
+  const pinAnswer = async (question: string, answer: string, lang: Language) => {
+    if (!placeName) return;
+    const pin = await BookmarkService.pinAnswer(placeName, question, answer, lang);
+    setPins(prev => [pin, ...prev]);
+  };
+
+  const unpin = async (id: string) => {
+    await BookmarkService.unpin(id);
+    setPins(prev => prev.filter(pin => pin.id !== id));
+  };
+
+  const removeReconstruction = async (id: string) => {
+    await ReconstructionService.remove(id);
+    setReconstructions(prev => prev.filter(record => record.id !== id));
+  };
+
+  return { placeName, notes, pins, reconstructions, saveNote, pinAnswer, unpin, removeReconstruction };
+};
+
+export type PlaceNotebook = ReturnType<typeof usePlaceNotebook>;
+
+/** The user's note under a section, or a button to start one. */
+export const SectionNoteEditor: React.FC<{ note?: PlaceNote; onSave: (text: string) => Promise<void> }> = ({ note, onSave }) => {
+  const t = useT();
+  const [editing, setEditing] = useState(false);
+  const [draft, setDraft] = useState('');
+
+  const edit = () => {
+    setDraft(note?.text || '');
+    setEditing(true);
+  };
+
+  const save = async (text: string) => {
+    await onSave(text);
+    setEditing(false);
+  };
+
+  if (editing) {
+    return (
+      <div className="mt-4">
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          rows={3}
+          autoFocus
+          placeholder={t('notes.placeholder')}
+          className="w-full px-4 py-3 bg-amber-50 border border-amber-200 rounded-xl text-sm text-stone-800 resize-y"
+        />
+        <div className="flex justify-end gap-2 mt-2">
+          <button onClick={() => setEditing(false)} className="px-4 py-1.5 bg-stone-100 hover:bg-stone-200 rounded-full text-sm text-stone-600 transition">{t('notes.cancel')}</button>
+          <button onClick={() => save(draft)} className="px-4 py-1.5 bg-amber-600 hover:bg-amber-700 rounded-full text-sm font-medium text-white transition">{t('notes.save')}</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!note) {
+    return (
+      <button onClick={edit} className="mt-3 text-xs text-stone-400 hover:text-amber-700 flex items-center gap-1 transition">
+        <StickyNote size={14} /> {t('notes.add')}
+      </button>
+    );
+  }
+
+  return (
+    <div className="mt-4 p-4 bg-amber-50 border border-amber-200 rounded-xl text-sm">
+      <div className="flex items-center gap-2 mb-1 text-xs font-bold uppercase tracking-widest text-amber-800">
+        <StickyNote size={14} /> {t('notes.yours')}
+        <button onClick={edit} className="ms-auto p-1 rounded hover:bg-amber-100" title={t('notes.edit')}><Pencil size={14} /></button>
+        <button onClick={() => save('')} className="p-1 rounded hover:bg-red-100 hover:text-red-600" title={t('notes.delete')}><Trash2 size={14} /></button>
+      </div>
+      <p className="text-stone-700 whitespace-pre-wrap">{note.text}</p>
+    </div>
+  );
+};
+
+const PinnedAnswerCard: React.FC<{ pin: PinnedAnswer; onUnpin: () => void }> = ({ pin, onUnpin }) => {
+  const t = useT();
+  const [expanded, setExpanded] = useState(false);
+  return (
+    <li className="p-3 bg-stone-50 rounded-xl text-sm">
+      <div className="flex items-start gap-2">
+        <p className="font-bold text-stone-800 flex-1">{pin.question}</p>
+        <button onClick={onUnpin} className="p-1 text-stone-400 hover:text-red-600" title={t('pins.unpin')}><PinOff size={14} /></button>
+      </div>
+      <p className={`text-stone-600 whitespace-pre-wrap ${expanded ? '' : 'line-clamp-3'}`}>{pin.answer}</p>
+      {!expanded && pin.answer.length > 160 && (
+        <button onClick={() => setExpanded(true)} className="text-xs text-amber-700 mt-1 flex items-center gap-1"><ChevronDown size={12} /> {t('pins.more')}</button>
+      )}
+    </li>
+  );
+};
+
+/** Sidebar card listing what the user pinned to the place. Renders nothing until something is pinned. */
+export const PinnedPanel: React.FC<{ notebook: PlaceNotebook }> = ({ notebook }) => {
+  const t = useT();
+  if (!notebook.pins.length && !notebook.reconstructions.length) return null;
+  return (
+    <div className="bg-white border border-stone-200 p-6 rounded-2xl">
+      <h3 className="font-bold uppercase tracking-widest text-stone-500 mb-4 flex items-center gap-2 text-sm">
+        <Pin size={18} /> {t('pins.title')}
+      </h3>
+      {notebook.reconstructions.length > 0 && (
+        <div className="grid grid-cols-2 gap-2 mb-4">
+          {notebook.reconstructions.map(record => (
+            <figure key={record.id} className="relative group">
+              <img src={record.imageUrl} alt={record.context} className="w-full h-24 object-cover rounded-lg" title={record.prompt} />
+              <button
+                onClick={() => notebook.removeReconstruction(record.id)}
+                className="absolute top-1 end-1 p-1 bg-white/90 rounded-full text-stone-500 hover:text-red-600 opacity-0 group-hover:opacity-100 transition"
+                title={t('pins.unpin')}
+              >
+                <PinOff size={12} />
+              </button>
+            </figure>
+          ))}
+        </div>
+      )}
+      <ul className="space-y-2">
+        {notebook.pins.map(pin => <PinnedAnswerCard key={pin.id} pin={pin} onUnpin={() => notebook.unpin(pin.id)} />)}
+      </ul>
+    </div>
+  );
+};
+
+/** Keeps a chat answer with the place being viewed. */
+export const PinAnswerButton: React.FC<{ placeName: string; pinned: boolean; onPin: () => void }> = ({ placeName, pinned, onPin }) => {
+  const t = useT();
+  return (
+    <button
+      onClick={onPin}
+      disabled={pinned}
+      className={`mt-2 text-xs flex items-center gap-1 transition ${pinned ? 'text-amber-700' : 'text-stone-400 hover:text-amber-700'}`}
+    >
+      <Pin size={12} /> {t(pinned ? 'pins.pinned' : 'pins.pin', { place: placeName })}
+    </button>
+  );
+};
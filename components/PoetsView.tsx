@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import { ArrowLeft, BookOpen, Feather, Loader2, MapPin, RefreshCw } from 'lucide-react';
+import { PoetService } from '../poetService';
+import { isAbortError } from '../retry';
+import { HeritageContent, Language, PoetProfile } from '../types';
+import { useT } from '../i18n';
+
+const Heading: React.FC<{ children: React.ReactNode }> = ({ children }) => (
+  <h3 className="text-xs font-bold uppercase tracking-widest text-stone-400 mb-3">{children}</h3>
+);
+
+/** One poet's page: period, works, every verse with its transliteration and translation, and the places they appear at. */
+const PoetPage: React.FC<{
+  lang: Language;
+  poetId: string;
+  onBack: () => void;
+  onOpenPlace: (place: string, section?: keyof HeritageContent) => void;
+}> = ({ lang, poetId, onBack, onOpenPlace }) => {
+  const t = useT();
+  const [profile, setProfile] = useState<PoetProfile | null | undefined>(undefined);
+  // Verses whose translation into `lang` failed, so they offer a retry instead of asking again on every render
+  const [failed, setFailed] = useState<Set<number>>(new Set());
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setProfile(undefined);
+    PoetService.get(poetId)
+      .then(found => !cancelled && setProfile(found || null))
+      .catch(error => {
+        console.error('Failed to load poet', error);
+        if (!cancelled) setProfile(null);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [poetId]);
+
+  // Verses quoted in another language's content are translated on first view, one at a time
+  const verseCount = profile?.verses.length || 0;
+  useEffect(() => {
+    if (!profile || !verseCount) return;
+    const controller = new AbortController();
+    setFailed(new Set());
+    (async () => {
+      let current = profile;
+      for (let i = 0; i < current.verses.length; i++) {
+        if (current.verses[i].translations[lang]) continue;
+        try {
+          current = await PoetService.translateVerse(current, i, lang, controller.signal);
+          if (!controller.signal.aborted) setProfile(current);
+        } catch (error) {
+          if (isAbortError(error) || controller.signal.aborted) return;
+          console.error('Failed to translate verse', error);
+          setFailed(prev => new Set(prev).add(i));
+        }
+      }
+    })();
+    return () => controller.abort();
+  }, [profile?.id, verseCount, lang, attempt]);
+
+  if (profile === undefined) {
+    return <div className="flex justify-center py-24"><Loader2 size={48} className="animate-spin text-amber-600" /></div>;
+  }
+
+  if (profile === null) {
+    return (
+      <div className="max-w-3xl mx-auto px-4 py-24 text-center">
+        <p className="text-stone-500 mb-6">{t('poets.notFound')}</p>
+        <button onClick={onBack} className="px-5 py-2 bg-stone-100 hover:bg-stone-200 rounded-full text-sm font-medium text-stone-600 transition">{t('poets.all')}</button>
+      </div>
+    );
+  }
+
+  const contribution = profile.contributions[lang] || Object.values(profile.contributions).find(Boolean);
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-12">
+      <button onClick={onBack} className="mb-8 text-sm text-stone-500 hover:text-amber-700 flex items-center gap-1">
+        <ArrowLeft size={16} className="rtl:rotate-180" /> {t('poets.all')}
+      </button>
+
+      <Feather size={40} className="text-amber-600 mb-2" />
+      <h2 className="text-4xl font-heritage font-bold">{profile.name}</h2>
+      <p className="text-stone-500 mt-2">{profile.period} • {profile.language}</p>
+      {profile.aliases.length > 0 && <p className="text-sm text-stone-400 mt-1">{profile.aliases.join(' • ')}</p>}
+      {contribution && <p className="text-lg text-stone-700 leading-relaxed mt-6">{contribution}</p>}
+
+      {profile.works.length > 0 && (
+        <section className="mt-10">
+          <Heading>{t('poets.works')}</Heading>
+          <ul className="flex flex-wrap gap-2">
+            {profile.works.map(work => (
+              <li key={work} className="px-3 py-1 bg-amber-50 text-amber-900 rounded-full text-sm flex items-center gap-1"><BookOpen size={14} /> {work}</li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <section className="mt-10">
+        <Heading>{t('poets.verses')}</Heading>
+        {profile.verses.length === 0 ? (
+          <p className="text-sm text-stone-400">{t('poets.noVerses')}</p>
+        ) : (
+          <div className="space-y-6">
+            {profile.verses.map((verse, i) => (
+              <figure key={verse.original} className="bg-stone-900 text-stone-100 p-6 rounded-2xl">
+                <blockquote className="font-heritage text-xl leading-relaxed whitespace-pre-wrap">{verse.original}</blockquote>
+                {verse.transliteration && (
+                  <p dir="ltr" className="italic text-stone-400 mt-3 whitespace-pre-wrap">{verse.transliteration}</p>
+                )}
+                <div className="mt-4 pt-4 border-t border-white/10 text-stone-200">
+                  {verse.translations[lang] ? (
+                    <p className="whitespace-pre-wrap">{verse.translations[lang]}</p>
+                  ) : failed.has(i) ? (
+                    <button onClick={() => setAttempt(n => n + 1)} className="text-sm text-amber-400 hover:text-amber-300 flex items-center gap-1">
+                      <RefreshCw size={14} /> {t('poets.translateFailed')}
+                    </button>
+                  ) : (
+                    <p className="text-sm text-stone-400 flex items-center gap-2"><Loader2 size={14} className="animate-spin" /> {t('poets.translating')}</p>
+                  )}
+                </div>
+                <figcaption className="text-xs text-stone-500 mt-3">
+                  — <button onClick={() => onOpenPlace(verse.placeName, 'poets')} className="hover:text-amber-400">{verse.placeName}</button>
+                  {verse.source && ` • ${verse.source}`}
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="mt-10">
+        <Heading>{t('poets.places')}</Heading>
+        {profile.places.length === 0 ? (
+          <p className="text-sm text-stone-400">{t('poets.noPlaces')}</p>
+        ) : (
+          <ul className="flex flex-wrap gap-2">
+            {profile.places.map(place => (
+              <li key={place}>
+                <button onClick={() => onOpenPlace(place, 'poets')} className="px-3 py-1 bg-white border border-stone-200 hover:border-amber-500 rounded-full text-sm flex items-center gap-1 transition">
+                  <MapPin size={14} className="text-amber-600" /> {place}
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </section>
+    </div>
+  );
+};
+
+/** The poets knowledge base: every poet, each with their own page. */
+export const PoetsView: React.FC<{
+  lang: Language;
+  poetId?: string;
+  onOpenPoet: (id?: string) => void;
+  onOpenPlace: (place: string, section?: keyof HeritageContent) => void;
+}> = ({ lang, poetId, onOpenPoet, onOpenPlace }) => {
+  const t = useT();
+  const [poets, setPoets] = useState<PoetProfile[] | null>(null);
+
+  useEffect(() => {
+    if (poetId) return;
+    PoetService.list().then(setPoets).catch(error => {
+      console.error('Failed to load poets', error);
+      setPoets([]);
+    });
+  }, [poetId]);
+
+  if (poetId) return <PoetPage lang={lang} poetId={poetId} onBack={() => onOpenPoet()} onOpenPlace={onOpenPlace} />;
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-16">
+      <div className="text-center mb-12">
+        <Feather size={48} className="mx-auto text-amber-600 mb-4" />
+        <h2 className="text-4xl font-heritage font-bold mb-4">{t('poets.title')}</h2>
+        <p className="text-stone-500 max-w-2xl mx-auto">{t('poets.intro')}</p>
+      </div>
+      {poets === null ? (
+        <div className="flex justify-center py-12"><Loader2 size={48} className="animate-spin text-amber-600" /></div>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 gap-4">
+          {poets.map(poet => (
+            <button
+              key={poet.id}
+              onClick={() => onOpenPoet(poet.id)}
+              className="p-5 bg-white border border-stone-200 rounded-2xl hover:border-amber-500 hover:shadow-lg transition text-start flex flex-col"
+            >
+              <span className="font-heritage text-xl font-bold text-stone-800">{poet.name}</span>
+              <span className="text-xs text-stone-500 mt-1">{poet.period} • {poet.language}</span>
+              {poet.works.length > 0 && <span className="text-sm text-stone-600 mt-3 line-clamp-2">{poet.works.join(', ')}</span>}
+              <span className="text-xs text-amber-700 mt-3">
+                {t('poets.placeCount', { count: poet.places.length })} • {t('poets.verseCount', { count: poet.verses.length })}
+              </span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,180 @@
+import React, { useMemo, useState } from 'react';
+import { Check, X, ChevronRight, RotateCcw, Trophy } from 'lucide-react';
+import { PASS_MARK, QuizService, shuffle } from '../quizService';
+import { QuizAnswer, QuizMatchQuestion, QuizQuestion } from '../types';
+import { useT } from '../i18n';
+
+const optionClass = (state: 'idle' | 'right' | 'wrong' | 'muted') => ({
+  idle: 'border-stone-200 bg-white hover:border-amber-500 hover:bg-amber-50',
+  right: 'border-green-500 bg-green-50 text-green-800',
+  wrong: 'border-red-400 bg-red-50 text-red-800',
+  muted: 'border-stone-200 bg-white text-stone-400',
+}[state]);
+
+const MatchQuestion: React.FC<{
+  question: QuizMatchQuestion;
+  revealed: boolean;
+  onAnswer: (answer: string[]) => void;
+}> = ({ question, revealed, onAnswer }) => {
+  const t = useT();
+  const choices = useMemo(() => shuffle(question.pairs.map(p => p.match)), [question]);
+  const [picked, setPicked] = useState<string[]>(() => question.pairs.map(() => ''));
+
+  return (
+    <div className="space-y-3">
+      {question.pairs.map((pair, i) => {
+        const state = !revealed ? 'idle' : picked[i] === pair.match ? 'right' : 'wrong';
+        return (
+          <div key={pair.item} className={`flex flex-col sm:flex-row sm:items-center gap-2 p-3 rounded-xl border-2 ${optionClass(state === 'idle' ? 'muted' : state)}`}>
+            <span className="flex-1 font-bold text-stone-800">{pair.item}</span>
+            <select
+              value={picked[i]}
+              disabled={revealed}
+              onChange={(e) => setPicked(prev => prev.map((p, j) => j === i ? e.target.value : p))}
+              className="sm:w-56 px-3 py-2 bg-white border border-stone-200 rounded-lg text-sm"
+            >
+              <option value="">{t('quiz.choose')}</option>
+              {choices.map(choice => <option key={choice} value={choice}>{choice}</option>)}
+            </select>
+          </div>
+        );
+      })}
+      {!revealed && (
+        <button
+          onClick={() => onAnswer(picked)}
+          disabled={picked.some(p => !p)}
+          className="px-6 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-full font-medium disabled:opacity-50 transition"
+        >
+          {t('quiz.check')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Steps through `questions` one at a time, revealing the right answer (and explaining it when
+ * the learner was wrong) before moving on, then shows the score and the questions that were missed.
+ */
+export const Quiz: React.FC<{
+  questions: QuizQuestion[];
+  onFinish: (score: number, total: number) => void;
+  onRetry: () => void;
+  /** Extra actions for the results screen, e.g. moving on to the next stop of a path. */
+  actions?: React.ReactNode;
+}> = ({ questions, onFinish, onRetry, actions }) => {
+  const t = useT();
+  const [index, setIndex] = useState(0);
+  const [answers, setAnswers] = useState<(QuizAnswer | undefined)[]>([]);
+  const [finished, setFinished] = useState(false);
+
+  const question = questions[index];
+  const answer = answers[index];
+  const revealed = answer !== undefined;
+  const correct = revealed && QuizService.isCorrect(question, answer);
+
+  const answerWith = (value: QuizAnswer) => {
+    if (revealed) return;
+    setAnswers(prev => {
+      const next = [...prev];
+      next[index] = value;
+      return next;
+    });
+  };
+
+  const advance = () => {
+    if (index < questions.length - 1) {
+      setIndex(index + 1);
+      return;
+    }
+    setFinished(true);
+    onFinish(QuizService.score(questions, answers), questions.length);
+  };
+
+  if (finished) {
+    const score = QuizService.score(questions, answers);
+    const passed = score / questions.length >= PASS_MARK;
+    const missed = questions.filter((q, i) => !QuizService.isCorrect(q, answers[i]));
+    return (
+      <div className="bg-white border border-stone-200 rounded-3xl p-8">
+        <div className="text-center mb-8">
+          <Trophy size={48} className={`mx-auto mb-3 ${passed ? 'text-amber-500' : 'text-stone-300'}`} />
+          <h3 className="text-3xl font-heritage font-bold text-stone-800">{t('quiz.score', { score, total: questions.length })}</h3>
+          <p className={`mt-2 ${passed ? 'text-green-700' : 'text-stone-500'}`}>
+            {passed ? t('quiz.passed') : t('quiz.notPassed', { percent: Math.round(PASS_MARK * 100) })}
+          </p>
+        </div>
+        {missed.length > 0 && (
+          <div className="mb-8">
+            <h4 className="font-bold uppercase tracking-widest text-stone-500 text-xs mb-3">{t('quiz.review')}</h4>
+            <ul className="space-y-3">
+              {missed.map((q, i) => (
+                <li key={i} className="p-4 bg-stone-50 rounded-xl text-sm">
+                  <p className="font-bold text-stone-800 mb-1">{q.prompt}</p>
+                  {q.kind !== 'match' && <p className="text-green-700 mb-1 flex items-center gap-1"><Check size={14} /> {q.options[q.answer]}</p>}
+                  <p className="text-stone-600">{q.explanation}</p>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        <div className="flex flex-wrap justify-center gap-3">
+          <button onClick={onRetry} className="px-5 py-2 bg-stone-100 hover:bg-stone-200 rounded-full text-sm font-medium text-stone-600 flex items-center gap-2 transition">
+            <RotateCcw size={16} /> {t('quiz.retry')}
+          </button>
+          {actions}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-white border border-stone-200 rounded-3xl p-8">
+      <div className="flex items-center justify-between mb-4 text-sm text-stone-500">
+        <span>{t('quiz.question', { current: index + 1, total: questions.length })}</span>
+        <div className="flex gap-1" aria-hidden>
+          {questions.map((q, i) => (
+            <span key={i} className={`w-2 h-2 rounded-full ${answers[i] === undefined ? (i === index ? 'bg-amber-500' : 'bg-stone-200') : QuizService.isCorrect(q, answers[i]) ? 'bg-green-500' : 'bg-red-400'}`} />
+          ))}
+        </div>
+      </div>
+
+      <h3 className="text-2xl font-heritage font-bold text-stone-800 mb-6">{question.prompt}</h3>
+
+      {question.kind === 'match' ? (
+        <MatchQuestion key={index} question={question} revealed={revealed} onAnswer={answerWith} />
+      ) : (
+        <>
+          {question.imageUrl && <img src={question.imageUrl} alt="" className="w-full max-h-72 object-contain rounded-2xl bg-stone-100 mb-6" />}
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+            {question.options.map((option, i) => {
+              const state = !revealed ? 'idle' : i === question.answer ? 'right' : i === answer ? 'wrong' : 'muted';
+              return (
+                <button key={i} onClick={() => answerWith(i)} disabled={revealed} className={`p-4 rounded-xl border-2 text-start transition flex items-center justify-between gap-2 ${optionClass(state)}`}>
+                  <span>{option}</span>
+                  {state === 'right' && <Check size={18} />}
+                  {state === 'wrong' && <X size={18} />}
+                </button>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      {revealed && (
+        <div className={`mt-6 p-4 rounded-xl ${correct ? 'bg-green-50 text-green-800' : 'bg-red-50 text-red-800'}`}>
+          <p className="font-bold flex items-center gap-2">{correct ? <Check size={18} /> : <X size={18} />} {t(correct ? 'quiz.correct' : 'quiz.incorrect')}</p>
+          {!correct && question.explanation && <p className="mt-1 text-sm">{question.explanation}</p>}
+        </div>
+      )}
+
+      {revealed && (
+        <div className="mt-6 flex justify-end">
+          <button onClick={advance} className="px-6 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-full font-medium flex items-center gap-2 transition">
+            {t(index < questions.length - 1 ? 'quiz.next' : 'quiz.finish')} <ChevronRight size={18} className="rtl:rotate-180" />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
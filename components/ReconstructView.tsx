@@ -0,0 +1,265 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { History, Upload, Loader2, Download, Trash2, Check, ImagePlus, Save, Clock } from 'lucide-react';
+import { AIService } from '../aiService';
+import { isOfflineError, OutboxService } from '../outboxService';
+import { ReconstructionService } from '../reconstructionService';
+import { RECONSTRUCTION_PERIODS, RECONSTRUCTION_STYLES } from '../heritageFacets';
+import { ComparisonSlider } from './ComparisonSlider';
+import { MaskPainter } from './MaskPainter';
+import { readImageFile } from '../imageFile';
+import { Language, ReconstructionOptions, ReconstructionVersion } from '../types';
+import { LANGUAGE_INFO, useT } from '../i18n';
+
+const formatTime = (timestamp: number, lang: Language) =>
+  new Date(timestamp).toLocaleString(LANGUAGE_INFO[lang].locale, { dateStyle: 'medium', timeStyle: 'short' });
+
+export const ReconstructView: React.FC<{ lang: Language; placeName?: string }> = ({ lang, placeName }) => {
+  const t = useT();
+  const [originalImage, setOriginalImage] = useState<string | null>(null);
+  // Every run for the current upload, newest first
+  const [versions, setVersions] = useState<ReconstructionVersion[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const [reconLoading, setReconLoading] = useState(false);
+  const [period, setPeriod] = useState('');
+  const [style, setStyle] = useState('');
+  const [notes, setNotes] = useState('');
+  const [maskDataUrl, setMaskDataUrl] = useState<string | null>(null);
+  // Versions kept for the place (and so included in its exported dossier)
+  const [savedIds, setSavedIds] = useState<Set<string>>(new Set());
+  const [savingId, setSavingId] = useState<string | null>(null);
+  // Reconstructions asked for offline and waiting to be sent, and whether one of them failed when it was
+  const [queued, setQueued] = useState(0);
+  const [queueFailed, setQueueFailed] = useState(false);
+  const originalRef = useRef<string | null>(null);
+  originalRef.current = originalImage;
+
+  const active = versions.find(v => v.id === activeId) || null;
+
+  // A queued reconstruction joins the versions when its upload is still the current one
+  useEffect(() => {
+    const refresh = () => OutboxService.list()
+      .then(items => setQueued(items.filter(item => item.kind === 'reconstruction').length))
+      .catch(console.error);
+    refresh();
+    return OutboxService.subscribe(delivery => {
+      refresh();
+      if (delivery?.item.kind !== 'reconstruction') return;
+      const { item, version, record, error } = delivery;
+      if (error) setQueueFailed(true);
+      if (!version || item.imageDataUrl !== originalRef.current) return;
+      setVersions(prev => [version, ...prev]);
+      setActiveId(version.id);
+      if (record) setSavedIds(prev => new Set(prev).add(version.id));
+    });
+  }, []);
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      // Downscaled like chat photos, so the photo (and the mask painted over it) fit the server's upload limit
+      setOriginalImage(await readImageFile(file));
+      setVersions([]);
+      setActiveId(null);
+    } catch (err) {
+      console.error('Could not read photo', err);
+    }
+  };
+
+  const startReconstruction = async () => {
+    if (!originalImage) return;
+    setReconLoading(true);
+    try {
+      const context = placeName || "Andhra Heritage";
+      const options: ReconstructionOptions = {
+        period: period || undefined,
+        style: style || undefined,
+        notes: notes.trim() || undefined,
+        maskDataUrl: maskDataUrl || undefined
+      };
+      // Without a network the request waits in the outbox, and is saved to the place once it is made
+      const queue = () => OutboxService.queueReconstruction(placeName, originalImage, context, options);
+      if (!navigator.onLine) {
+        await queue();
+        return;
+      }
+      try {
+        const result = await AIService.reconstructMonument(originalImage, context, options);
+        if (!result.imageUrl) throw new Error("No image returned");
+        const version: ReconstructionVersion = { ...result, id: crypto.randomUUID(), context, options, createdAt: Date.now() };
+        setVersions(prev => [version, ...prev]);
+        setActiveId(version.id);
+      } catch (e) {
+        if (!isOfflineError(e)) throw e;
+        await queue();
+      }
+    } catch (e) {
+      alert(t('reconstruct.failed'));
+    } finally {
+      setReconLoading(false);
+    }
+  };
+
+  const downloadVersion = (version: ReconstructionVersion) => {
+    const link = document.createElement('a');
+    link.href = version.imageUrl;
+    link.download = `itihaasa-${version.context.replace(/\W+/g, '-').toLowerCase()}-${version.createdAt}.png`;
+    link.click();
+  };
+
+  const saveVersion = async (version: ReconstructionVersion) => {
+    if (!originalImage || !placeName) return;
+    setSavingId(version.id);
+    try {
+      await ReconstructionService.save(version, placeName, originalImage);
+      setSavedIds(prev => new Set(prev).add(version.id));
+    } catch (e) {
+      console.error('Failed to save reconstruction', e);
+    } finally {
+      setSavingId(null);
+    }
+  };
+
+  const discardVersion = (id: string) => {
+    const remaining = versions.filter(v => v.id !== id);
+    setVersions(remaining);
+    if (activeId === id) setActiveId(remaining[0]?.id || null);
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-16">
+      <div className="text-center mb-12">
+        <History size={48} className="mx-auto text-amber-600 mb-4" />
+        <h2 className="text-4xl font-heritage font-bold mb-4">{t('reconstruct.title')}</h2>
+        <p className="text-stone-500 max-w-2xl mx-auto">{t('reconstruct.intro')}</p>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
+        <div className="flex flex-col gap-4">
+          <div
+            className={`border-2 border-dashed rounded-3xl flex flex-col items-center justify-center transition h-[400px] bg-white border-stone-300 ${originalImage ? 'p-4' : 'p-12 cursor-pointer hover:border-amber-400'}`}
+            onClick={() => !originalImage && document.getElementById('file-upload')?.click()}
+          >
+            {originalImage ? (
+              <MaskPainter
+                image={originalImage}
+                imageLabel={t('reconstruct.originalAlt')}
+                clearLabel={t('reconstruct.clearMask')}
+                onChange={setMaskDataUrl}
+              />
+            ) : (
+              <div className="text-center">
+                <Upload size={32} className="mx-auto text-amber-600 mb-2" />
+                <p className="font-bold">{t('reconstruct.upload')}</p>
+              </div>
+            )}
+            <input id="file-upload" type="file" hidden accept="image/*" onChange={handleFileUpload} />
+          </div>
+          {originalImage && (
+            <>
+              <p className="text-xs text-stone-500 -mt-2 flex items-center justify-between gap-2">
+                <span>{t('reconstruct.maskHint')}</span>
+                <button onClick={() => document.getElementById('file-upload')?.click()} className="shrink-0 flex items-center gap-1 text-amber-700 font-medium hover:underline">
+                  <ImagePlus size={14} /> {t('reconstruct.changeImage')}
+                </button>
+              </p>
+              <div className="grid grid-cols-2 gap-3">
+                <select value={period} onChange={(e) => setPeriod(e.target.value)} className="px-4 py-3 bg-white border border-stone-200 rounded-xl text-sm">
+                  <option value="">{t('reconstruct.anyPeriod')}</option>
+                  {RECONSTRUCTION_PERIODS.map(p => <option key={p} value={p}>{p}</option>)}
+                </select>
+                <select value={style} onChange={(e) => setStyle(e.target.value)} className="px-4 py-3 bg-white border border-stone-200 rounded-xl text-sm">
+                  <option value="">{t('reconstruct.anyStyle')}</option>
+                  {RECONSTRUCTION_STYLES.map(s => <option key={s} value={s}>{s}</option>)}
+                </select>
+              </div>
+              <textarea
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+                placeholder={t('reconstruct.notesPlaceholder')}
+                className="w-full px-4 py-3 bg-white border border-stone-200 rounded-xl text-sm resize-none"
+              />
+            </>
+          )}
+          {originalImage && (
+            <button
+              onClick={startReconstruction}
+              disabled={reconLoading}
+              className="w-full py-4 bg-amber-600 text-white rounded-2xl font-bold flex items-center justify-center gap-2"
+            >
+              {reconLoading ? <Loader2 className="animate-spin" /> : <History />} {t('reconstruct.action')}
+            </button>
+          )}
+          {queued > 0 && (
+            <p className="text-sm text-amber-800 bg-amber-50 border border-amber-200 rounded-xl px-4 py-3 flex items-center gap-2">
+              <Clock size={16} className="shrink-0" /> {t('reconstruct.queued', { count: queued })}
+            </p>
+          )}
+          {queueFailed && (
+            <p className="text-sm text-red-700 bg-red-50 border border-red-200 rounded-xl px-4 py-3 flex items-center justify-between gap-2">
+              {t('reconstruct.queuedFailed')}
+              <button onClick={() => setQueueFailed(false)} className="shrink-0 text-xs font-medium hover:underline">{t('reconstruct.dismiss')}</button>
+            </p>
+          )}
+        </div>
+
+        <div className="bg-stone-100 rounded-3xl border border-stone-200 h-[400px] flex items-center justify-center">
+          {originalImage && active ? (
+            <ComparisonSlider
+              before={originalImage}
+              after={active.imageUrl}
+              beforeLabel={t('reconstruct.before')}
+              afterLabel={t('reconstruct.after')}
+            />
+          ) : (
+            <p className="text-stone-400 italic">{reconLoading ? t('reconstruct.processing') : t('reconstruct.placeholder')}</p>
+          )}
+        </div>
+      </div>
+
+      {versions.length > 0 && (
+        <div className="mt-12">
+          <h3 className="text-2xl font-bold font-heritage text-stone-800 mb-4 border-b border-stone-200 pb-2">
+            {t('reconstruct.versions', { count: versions.length })}
+          </h3>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {versions.map((version, i) => (
+              <div key={version.id} className={`bg-white rounded-2xl border-2 overflow-hidden transition ${version.id === activeId ? 'border-amber-500 shadow-lg' : 'border-stone-200'}`}>
+                <button onClick={() => setActiveId(version.id)} className="relative block w-full h-32">
+                  <img src={version.imageUrl} alt={version.context} className="w-full h-full object-cover" />
+                  {version.id === activeId && (
+                    <span className="absolute top-2 end-2 w-6 h-6 rounded-full bg-amber-600 text-white flex items-center justify-center"><Check size={14} /></span>
+                  )}
+                </button>
+                <div className="p-3">
+                  <p className="text-sm font-bold text-stone-800">#{versions.length - i} • {version.context}</p>
+                  {(version.options.period || version.options.style || version.options.maskDataUrl) && (
+                    <p className="text-xs text-amber-700">{[version.options.period, version.options.style, version.options.maskDataUrl && t('reconstruct.masked')].filter(Boolean).join(' • ')}</p>
+                  )}
+                  <p className="text-xs text-stone-400 mb-1">{formatTime(version.createdAt, lang)}</p>
+                  <p className="text-xs text-stone-500 line-clamp-2" title={version.prompt}>{version.prompt}</p>
+                  <div className="flex gap-2 mt-3">
+                    {placeName && (
+                      <button
+                        onClick={() => saveVersion(version)}
+                        disabled={savedIds.has(version.id) || savingId === version.id}
+                        className={`flex-1 p-2 rounded-lg flex justify-center ${savedIds.has(version.id) ? 'bg-green-50 text-green-700' : 'bg-stone-100 hover:bg-amber-50'}`}
+                        title={savedIds.has(version.id) ? t('reconstruct.saved', { place: placeName }) : t('reconstruct.save', { place: placeName })}
+                      >
+                        {savingId === version.id ? <Loader2 size={16} className="animate-spin" /> : savedIds.has(version.id) ? <Check size={16} /> : <Save size={16} />}
+                      </button>
+                    )}
+                    <button onClick={() => downloadVersion(version)} className="flex-1 p-2 bg-stone-100 hover:bg-amber-50 rounded-lg flex justify-center" title={t('reconstruct.download')}><Download size={16} /></button>
+                    <button onClick={() => discardVersion(version.id)} className="flex-1 p-2 bg-stone-100 hover:bg-red-50 hover:text-red-600 rounded-lg flex justify-center" title={t('reconstruct.discard')}><Trash2 size={16} /></button>
+                  </div>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,263 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bookmark as BookmarkIcon, FolderOpen, FolderPlus, MapPin, StickyNote, Pin, PinOff, Trash2, Pencil, X, Download, Upload, Loader2 } from 'lucide-react';
+import { BookmarkService, LibraryImportError } from '../bookmarkService';
+import { downloadText } from '../download';
+import { OfflineDownloadMenu } from './OfflineStatus';
+import { Bookmark, Collection, HeritageContent, Language, PinnedAnswer, PlaceNote } from '../types';
+import { LANGUAGE_INFO, useT } from '../i18n';
+
+const formatDate = (timestamp: number, lang: Language) =>
+  new Date(timestamp).toLocaleDateString(LANGUAGE_INFO[lang].locale, { dateStyle: 'medium' });
+
+const Heading: React.FC<{ icon: React.ReactNode; children: React.ReactNode }> = ({ icon, children }) => (
+  <h3 className="text-2xl font-bold font-heritage text-stone-800 mb-4 border-b border-stone-200 pb-2 flex items-center gap-2">
+    {icon} {children}
+  </h3>
+);
+
+const CollectionCard: React.FC<{
+  collection: Collection;
+  lang: Language;
+  online: boolean;
+  onChange: (updated: Collection) => void;
+  onRemove: () => void;
+  onOpenPlace: (place: string) => void;
+}> = ({ collection, lang, online, onChange, onRemove, onOpenPlace }) => {
+  const t = useT();
+  const [renaming, setRenaming] = useState(false);
+  const [name, setName] = useState(collection.name);
+
+  const rename = async () => {
+    if (name.trim()) onChange(await BookmarkService.renameCollection(collection, name));
+    setRenaming(false);
+  };
+
+  return (
+    <div className="bg-white border border-stone-200 rounded-2xl p-5">
+      <div className="flex items-center gap-2 mb-3">
+        {renaming ? (
+          <input
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && rename()}
+            onBlur={rename}
+            autoFocus
+            className="flex-1 px-3 py-1.5 bg-stone-50 border border-stone-200 rounded-lg text-sm"
+          />
+        ) : (
+          <h4 className="flex-1 font-heritage text-xl font-bold text-stone-800 truncate">{collection.name}</h4>
+        )}
+        {collection.placeNames.length > 0 && <OfflineDownloadMenu placeNames={collection.placeNames} lang={lang} online={online} />}
+        <button onClick={() => setRenaming(true)} className="p-1.5 text-stone-400 hover:text-amber-700" title={t('saved.rename')}><Pencil size={16} /></button>
+        <button onClick={onRemove} className="p-1.5 text-stone-400 hover:text-red-600" title={t('saved.delete')}><Trash2 size={16} /></button>
+      </div>
+      {collection.placeNames.length === 0 ? (
+        <p className="text-sm text-stone-400">{t('saved.collectionEmpty')}</p>
+      ) : (
+        <ul className="flex flex-wrap gap-2">
+          {collection.placeNames.map(place => (
+            <li key={place} className="flex items-center bg-stone-100 rounded-full text-sm">
+              <button onClick={() => onOpenPlace(place)} className="ps-3 pe-1 py-1 hover:text-amber-700 flex items-center gap-1"><MapPin size={12} /> {place}</button>
+              <button
+                onClick={async () => onChange(await BookmarkService.setInCollection(collection, place, false))}
+                className="pe-2 ps-1 py-1 text-stone-400 hover:text-red-600"
+                title={t('saved.removeFromCollection')}
+              >
+                <X size={12} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+/** Everything the user has kept: collections, bookmarks, section notes and pinned answers, with export and import. */
+export const SavedView: React.FC<{
+  lang: Language;
+  online: boolean;
+  onOpenPlace: (place: string, section?: keyof HeritageContent) => void;
+}> = ({ lang, online, onOpenPlace }) => {
+  const t = useT();
+  const [bookmarks, setBookmarks] = useState<Bookmark[]>([]);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [notes, setNotes] = useState<PlaceNote[]>([]);
+  const [pins, setPins] = useState<PinnedAnswer[]>([]);
+  const [newName, setNewName] = useState('');
+  const [importing, setImporting] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const load = () =>
+    Promise.all([BookmarkService.listBookmarks(), BookmarkService.listCollections(), BookmarkService.listNotes(), BookmarkService.listPins()])
+      .then(([b, c, n, p]) => {
+        setBookmarks(b);
+        setCollections(c);
+        setNotes(n);
+        setPins(p);
+      })
+      .catch(console.error);
+
+  useEffect(() => {
+    load();
+  }, []);
+
+  const createCollection = async () => {
+    if (!newName.trim()) return;
+    const collection = await BookmarkService.createCollection(newName);
+    setCollections(prev => [...prev, collection]);
+    setNewName('');
+  };
+
+  const exportLibrary = async () => {
+    const data = await BookmarkService.exportAll();
+    downloadText(JSON.stringify(data, null, 2), `itihaasa-library-${new Date(data.exportedAt).toISOString().slice(0, 10)}.json`, 'application/json');
+  };
+
+  const importLibrary = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setImporting(true);
+    try {
+      await BookmarkService.importAll(await file.text());
+      await load();
+    } catch (error) {
+      console.error('Import failed', error);
+      alert(error instanceof LibraryImportError && error.reason === 'version' ? t('saved.importVersion') : t('saved.importFormat'));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="max-w-5xl mx-auto px-4 py-16">
+      <div className="text-center mb-12">
+        <BookmarkIcon size={48} className="mx-auto text-amber-600 mb-4" />
+        <h2 className="text-4xl font-heritage font-bold mb-4">{t('saved.title')}</h2>
+        <p className="text-stone-500 max-w-2xl mx-auto mb-6">{t('saved.intro')}</p>
+        <div className="flex justify-center gap-3">
+          <button onClick={exportLibrary} className="px-5 py-2 bg-stone-100 hover:bg-stone-200 rounded-full text-sm font-medium text-stone-600 flex items-center gap-2 transition">
+            <Download size={16} /> {t('saved.export')}
+          </button>
+          <button onClick={() => inputRef.current?.click()} disabled={importing} className="px-5 py-2 bg-stone-100 hover:bg-stone-200 rounded-full text-sm font-medium text-stone-600 flex items-center gap-2 transition disabled:opacity-50">
+            {importing ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />} {t('saved.import')}
+          </button>
+          <input ref={inputRef} type="file" hidden accept="application/json,.json" onChange={importLibrary} />
+        </div>
+      </div>
+
+      <section className="mb-12">
+        <Heading icon={<FolderOpen size={24} className="text-amber-700" />}>{t('bookmark.collections')}</Heading>
+        <div className="flex gap-2 mb-4 max-w-md">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && createCollection()}
+            placeholder={t('bookmark.collectionName')}
+            className="flex-1 px-4 py-2 bg-white border border-stone-200 rounded-xl text-sm"
+          />
+          <button onClick={createCollection} disabled={!newName.trim()} className="px-4 py-2 bg-amber-600 hover:bg-amber-700 text-white rounded-xl text-sm font-medium flex items-center gap-2 disabled:opacity-50 transition">
+            <FolderPlus size={16} /> {t('bookmark.newCollection')}
+          </button>
+        </div>
+        {collections.length === 0 ? (
+          <p className="text-stone-400 text-sm">{t('saved.noCollections')}</p>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {collections.map(collection => (
+              <CollectionCard
+                key={collection.id}
+                collection={collection}
+                lang={lang}
+                online={online}
+                onChange={updated => setCollections(prev => prev.map(c => c.id === updated.id ? updated : c))}
+                onRemove={async () => {
+                  await BookmarkService.removeCollection(collection.id);
+                  setCollections(prev => prev.filter(c => c.id !== collection.id));
+                }}
+                onOpenPlace={onOpenPlace}
+              />
+            ))}
+          </div>
+        )}
+      </section>
+
+      <section className="mb-12">
+        <Heading icon={<BookmarkIcon size={24} className="text-amber-700" />}>{t('saved.bookmarks')}</Heading>
+        {bookmarks.length === 0 ? (
+          <p className="text-stone-400 text-sm">{t('saved.noBookmarks')}</p>
+        ) : (
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {bookmarks.map(bookmark => (
+              <div key={bookmark.id} className="relative group">
+                <button
+                  onClick={() => onOpenPlace(bookmark.placeName)}
+                  className="w-full h-full p-5 bg-white border border-stone-200 rounded-2xl hover:border-amber-500 hover:shadow-lg transition text-start"
+                >
+                  <MapPin size={20} className="text-amber-600 mb-2" />
+                  <span className="font-bold text-stone-800 block">{bookmark.placeName}</span>
+                  <span className="text-xs text-stone-400">{formatDate(bookmark.createdAt, lang)}</span>
+                </button>
+                <button
+                  onClick={async () => {
+                    await BookmarkService.setBookmarked(bookmark.placeName, false);
+                    setBookmarks(prev => prev.filter(b => b.id !== bookmark.id));
+                  }}
+                  className="absolute top-2 end-2 p-1.5 text-stone-300 hover:text-red-600 opacity-0 group-hover:opacity-100 transition"
+                  title={t('saved.delete')}
+                >
+                  <Trash2 size={14} />
+                </button>
+              </div>
+            ))}
+          </div>
+        )}
+      </section>
+
+      {notes.length > 0 && (
+        <section className="mb-12">
+          <Heading icon={<StickyNote size={24} className="text-amber-700" />}>{t('saved.notes')}</Heading>
+          <ul className="space-y-3">
+            {notes.map(note => (
+              <li key={note.id}>
+                <button onClick={() => onOpenPlace(note.placeName, note.section)} className="w-full text-start p-4 bg-amber-50 border border-amber-100 hover:border-amber-300 rounded-xl transition">
+                  <p className="text-xs font-bold uppercase tracking-widest text-amber-800 mb-1">{note.placeName} • {t(`section.${note.section}`)}</p>
+                  <p className="text-sm text-stone-700 whitespace-pre-wrap line-clamp-4">{note.text}</p>
+                </button>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {pins.length > 0 && (
+        <section>
+          <Heading icon={<Pin size={24} className="text-amber-700" />}>{t('saved.pins')}</Heading>
+          <ul className="space-y-3">
+            {pins.map(pin => (
+              <li key={pin.id} className="p-4 bg-white border border-stone-200 rounded-xl text-sm">
+                <div className="flex items-center gap-2 mb-1">
+                  <button onClick={() => onOpenPlace(pin.placeName)} className="text-xs font-bold uppercase tracking-widest text-amber-800 hover:underline">{pin.placeName}</button>
+                  <span className="text-xs text-stone-400">{formatDate(pin.createdAt, lang)}</span>
+                  <button
+                    onClick={async () => {
+                      await BookmarkService.unpin(pin.id);
+                      setPins(prev => prev.filter(p => p.id !== pin.id));
+                    }}
+                    className="ms-auto p-1 text-stone-400 hover:text-red-600"
+                    title={t('pins.unpin')}
+                  >
+                    <PinOff size={14} />
+                  </button>
+                </div>
+                <p className="font-bold text-stone-800">{pin.question}</p>
+                <p className="text-stone-600 whitespace-pre-wrap">{pin.answer}</p>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,259 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Plus, Minus, RotateCcw, History, Loader2 } from 'lucide-react';
+import { TimelineService } from '../timelineService';
+import { DYNASTY_BANDS, DynastyBand } from '../timeline';
+import { HeritageContent, Language, TimelineEvent, TimelineEventKind } from '../types';
+import { useT } from '../i18n';
+
+const KINDS: TimelineEventKind[] = ['site', 'founded', 'patronage', 'invasion', 'renovation', 'poet', 'event'];
+
+const KIND_COLORS: Record<TimelineEventKind, string> = {
+  site: 'bg-stone-400',
+  founded: 'bg-amber-600',
+  patronage: 'bg-emerald-600',
+  invasion: 'bg-red-600',
+  renovation: 'bg-sky-600',
+  poet: 'bg-violet-600',
+  event: 'bg-stone-600',
+};
+
+const DEFAULT_RANGE: [number, number] = [-400, 2000];
+const MIN_SPAN = 20;
+const MAX_SPAN = 3000;
+const LABEL_WIDTH = 180;
+const ROW_HEIGHT = 28;
+const BAND_HEIGHT = 22;
+
+// A round tick interval giving roughly one tick per 100 pixels
+const tickStep = (span: number, width: number) => {
+  const rough = span / Math.max(1, width / 100);
+  return [1, 2, 5, 10, 20, 25, 50, 100, 200, 250, 500, 1000].find(step => step >= rough) || 1000;
+};
+
+// Dynasty bands in as few lanes as possible, each band in the first lane it does not overlap
+const bandLanes = (bands: DynastyBand[]) => {
+  const lanes: DynastyBand[][] = [];
+  for (const band of [...bands].sort((a, b) => a.start - b.start)) {
+    const lane = lanes.find(l => l[l.length - 1].end < band.start);
+    if (lane) lane.push(band);
+    else lanes.push([band]);
+  }
+  return lanes;
+};
+
+/**
+ * Dated events from every catalogued and bookmarked place on one zoomable timeline, against the dynasties ruling
+ * the region. Clicking an event opens the place at the section it was read from.
+ */
+export const TimelineView: React.FC<{
+  lang: Language;
+  onOpen: (place: string, section: keyof HeritageContent) => void;
+}> = ({ lang, onOpen }) => {
+  const t = useT();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ x: number; range: [number, number] } | null>(null);
+  const [width, setWidth] = useState(0);
+  const [range, setRange] = useState<[number, number]>(DEFAULT_RANGE);
+  const [events, setEvents] = useState<TimelineEvent[] | null>(null);
+  const [hidden, setHidden] = useState<Set<TimelineEventKind>>(new Set());
+
+  useEffect(() => {
+    let cancelled = false;
+    setEvents(null);
+    TimelineService.load(lang)
+      .then(loaded => !cancelled && setEvents(loaded))
+      .catch(error => {
+        console.error('Failed to load timeline', error);
+        if (!cancelled) setEvents([]);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [lang]);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width - LABEL_WIDTH));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, [events !== null]);
+
+  const counts = useMemo(() => {
+    const byKind = new Map<TimelineEventKind, number>();
+    for (const event of events || []) byKind.set(event.kind, (byKind.get(event.kind) || 0) + 1);
+    return byKind;
+  }, [events]);
+
+  // One row per place, ordered by its earliest event
+  const rows = useMemo(() => {
+    const byPlace = new Map<string, TimelineEvent[]>();
+    for (const event of events || []) {
+      if (hidden.has(event.kind)) continue;
+      byPlace.set(event.placeName, [...(byPlace.get(event.placeName) || []), event]);
+    }
+    return [...byPlace]
+      .map(([place, placeEvents]) => ({ place, events: placeEvents, first: Math.min(...placeEvents.map(e => e.start)) }))
+      .sort((a, b) => a.first - b.first || a.place.localeCompare(b.place));
+  }, [events, hidden]);
+
+  const lanes = useMemo(() => bandLanes(DYNASTY_BANDS), []);
+
+  const [from, to] = range;
+  const scale = width > 0 ? width / (to - from) : 0;
+  const x = (year: number) => (year - from) * scale;
+  const step = tickStep(to - from, width);
+  const ticks: number[] = [];
+  for (let year = Math.ceil(from / step) * step; year <= to; year += step) ticks.push(year);
+
+  const yearLabel = (year: number) => year < 0 ? t('timeline.bce', { year: -year }) : String(year);
+
+  const zoomTo = (span: number, focus = (from + to) / 2, at = 0.5) => {
+    const next = Math.max(MIN_SPAN, Math.min(MAX_SPAN, span));
+    setRange([focus - next * at, focus + next * (1 - at)]);
+  };
+
+  const handleWheel = (e: React.WheelEvent) => {
+    if (!scale) return;
+    const offset = e.clientX - e.currentTarget.getBoundingClientRect().left;
+    const at = Math.max(0, Math.min(1, offset / width));
+    zoomTo((to - from) * (e.deltaY < 0 ? 0.8 : 1.25), from + (to - from) * at, at);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    dragRef.current = { x: e.clientX, range };
+    (e.target as Element).setPointerCapture?.(e.pointerId);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    if (!drag || !scale) return;
+    const shift = (e.clientX - drag.x) / scale;
+    setRange([drag.range[0] - shift, drag.range[1] - shift]);
+  };
+
+  const toggleKind = (kind: TimelineEventKind) => setHidden(prev => {
+    const next = new Set(prev);
+    if (next.has(kind)) next.delete(kind);
+    else next.add(kind);
+    return next;
+  });
+
+  return (
+    <div className="max-w-7xl mx-auto px-4 py-12">
+      <div className="mb-8 flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div>
+          <History size={40} className="text-amber-600 mb-2" />
+          <h2 className="text-4xl font-heritage font-bold">{t('timeline.title')}</h2>
+          <p className="text-stone-500 mt-2 max-w-2xl">{t('timeline.intro')}</p>
+        </div>
+        <div className="flex bg-white border border-stone-200 rounded-xl overflow-hidden">
+          <button onClick={() => zoomTo((to - from) / 2)} className="p-2 hover:bg-stone-100 border-e border-stone-200" title={t('timeline.zoomIn')}><Plus size={18} /></button>
+          <button onClick={() => zoomTo((to - from) * 2)} className="p-2 hover:bg-stone-100 border-e border-stone-200" title={t('timeline.zoomOut')}><Minus size={18} /></button>
+          <button onClick={() => setRange(DEFAULT_RANGE)} className="p-2 hover:bg-stone-100" title={t('timeline.reset')}><RotateCcw size={18} /></button>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap gap-2 mb-4">
+        {KINDS.map(kind => (
+          <button
+            key={kind}
+            onClick={() => toggleKind(kind)}
+            className={`px-3 py-1 rounded-full text-sm flex items-center gap-2 border transition ${hidden.has(kind) ? 'border-stone-200 text-stone-400' : 'border-stone-300 bg-white text-stone-700'}`}
+          >
+            <span className={`w-2.5 h-2.5 rounded-full ${hidden.has(kind) ? 'bg-stone-200' : KIND_COLORS[kind]}`} />
+            {t(`timeline.kind.${kind}`)} ({counts.get(kind) || 0})
+          </button>
+        ))}
+      </div>
+
+      {events === null ? (
+        <div className="flex justify-center py-24"><Loader2 size={48} className="animate-spin text-amber-600" /></div>
+      ) : (
+        // Years run left to right in every language
+        <div dir="ltr" ref={containerRef} className="bg-white border border-stone-200 rounded-3xl overflow-hidden text-left">
+          <div className="flex border-b border-stone-200">
+            <div className="shrink-0 bg-stone-50" style={{ width: LABEL_WIDTH }} />
+            <div
+              className="relative flex-1 overflow-hidden select-none touch-none cursor-grab active:cursor-grabbing"
+              style={{ height: 24 + lanes.length * BAND_HEIGHT }}
+              onPointerDown={handlePointerDown}
+              onPointerMove={handlePointerMove}
+              onPointerUp={() => (dragRef.current = null)}
+              onPointerLeave={() => (dragRef.current = null)}
+              onWheel={handleWheel}
+            >
+              {ticks.map(year => (
+                <span key={year} className="absolute top-1 -translate-x-1/2 text-[11px] text-stone-500 whitespace-nowrap" style={{ left: x(year) }}>
+                  {yearLabel(year)}
+                </span>
+              ))}
+              {lanes.map((lane, i) => lane.map(band => (
+                <button
+                  key={band.label}
+                  onPointerDown={e => e.stopPropagation()}
+                  onClick={() => zoomTo((band.end - band.start) * 1.2, (band.start + band.end) / 2)}
+                  className={`absolute px-2 rounded text-[11px] font-medium text-stone-700 truncate text-left hover:ring-2 hover:ring-amber-500 ${band.color}`}
+                  style={{ left: x(band.start), width: Math.max(2, x(band.end) - x(band.start)), top: 24 + i * BAND_HEIGHT, height: BAND_HEIGHT - 4 }}
+                  title={`${band.label}: ${yearLabel(band.start)} – ${yearLabel(band.end)}`}
+                >
+                  {band.label}
+                </button>
+              )))}
+            </div>
+          </div>
+
+          {rows.length === 0 ? (
+            <p className="text-center text-stone-500 py-12">{t('timeline.empty')}</p>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto">
+              {rows.map(row => (
+                <div key={row.place} className="flex border-b border-stone-100 last:border-0">
+                  <div className="shrink-0 px-3 text-xs font-medium text-stone-700 truncate bg-stone-50 flex items-center" style={{ width: LABEL_WIDTH, height: ROW_HEIGHT }} title={row.place}>
+                    {row.place}
+                  </div>
+                  <div
+                    className="relative flex-1 overflow-hidden select-none touch-none cursor-grab active:cursor-grabbing"
+                    style={{ height: ROW_HEIGHT }}
+                    onPointerDown={handlePointerDown}
+                    onPointerMove={handlePointerMove}
+                    onPointerUp={() => (dragRef.current = null)}
+                    onPointerLeave={() => (dragRef.current = null)}
+                    onWheel={handleWheel}
+                  >
+                    {ticks.map(year => <span key={year} className="absolute inset-y-0 w-px bg-stone-100" style={{ left: x(year) }} />)}
+                    {row.events.map(event => {
+                      const left = x(event.start);
+                      const span = x(event.end + 1) - left;
+                      const title = `${event.dateText} — ${event.text}`;
+                      return span < 8 ? (
+                        <button
+                          key={event.id}
+                          onPointerDown={e => e.stopPropagation()}
+                          onClick={() => onOpen(event.placeName, event.section)}
+                          className={`absolute top-1/2 -translate-x-1/2 -translate-y-1/2 w-3 h-3 rounded-full border-2 border-white shadow hover:scale-150 transition ${KIND_COLORS[event.kind]}`}
+                          style={{ left: left + span / 2 }}
+                          title={title}
+                        />
+                      ) : (
+                        <button
+                          key={event.id}
+                          onPointerDown={e => e.stopPropagation()}
+                          onClick={() => onOpen(event.placeName, event.section)}
+                          className={`absolute top-1/2 -translate-y-1/2 h-2.5 rounded-full opacity-70 hover:opacity-100 transition ${KIND_COLORS[event.kind]}`}
+                          style={{ left, width: span }}
+                          title={title}
+                        />
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+      <p className="text-xs text-stone-400 mt-3">{t('timeline.events', { count: rows.reduce((sum, row) => sum + row.events.length, 0) })}</p>
+    </div>
+  );
+};
@@ -0,0 +1,17 @@
+// Runtime configuration, injected at build time by vite.config.ts from .env.local.
+// Nothing secret belongs here: everything in this file ends up in the browser bundle. The Gemini key and model
+// choices live with the API server (server/config.ts).
+
+export type AIProviderName = 'server' | 'mock';
+
+export interface AppConfig {
+  /** `server` calls the API server; `mock` serves deterministic fixtures, so the app runs without a server or network. */
+  aiProvider: AIProviderName;
+  /** Where the API server is mounted. The Vite dev server proxies `/api` to it. */
+  apiBaseUrl: string;
+}
+
+export const config: AppConfig = {
+  aiProvider: process.env.AI_PROVIDER === 'mock' ? 'mock' : 'server',
+  apiBaseUrl: (process.env.API_BASE_URL || '/api').replace(/\/$/, ''),
+};
@@ -0,0 +1,479 @@
+import { CacheService, CacheKeys } from './cacheService';
+import { downloadText } from './download';
+import { HERITAGE_SECTIONS, TextSectionKey } from './heritageSections';
+import { validateContent } from './heritageValidation';
+import { InscriptionService } from './inscriptionService';
+import { ReconstructionService } from './reconstructionService';
+import { LANGUAGE_INFO, LANGUAGES, MessageKey, MessageParams, translate } from './i18n';
+import { project, TILE_ATTRIBUTION, TILE_SIZE, tileUrl } from './mapTiles';
+import { CitedClaim, Coordinates, HeritageCitations, HeritageDossier, InscriptionRecord, Language, PlaceDetails, ReconstructionRecord, SourcePassage, WikiImage, WikiInfobox, WikiSource } from './types';
+
+const SCHEMA = 'itihaasa.dossier';
+
+/** Current dossier format. Bump it when the shape changes, and add a migration from the previous version. */
+export const DOSSIER_VERSION = 1;
+
+// Upgrades a dossier from the keyed version to the next one. Empty while only version 1 exists.
+const MIGRATIONS: Record<number, (dossier: Record<string, unknown>) => Record<string, unknown>> = {};
+
+export class DossierImportError extends Error {
+  constructor(public reason: 'format' | 'version', message: string) {
+    super(message);
+    this.name = 'DossierImportError';
+  }
+}
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const validCoords = (value: unknown): Coordinates | undefined =>
+  isObject(value) && Number.isFinite(value.lat) && Number.isFinite(value.lng) ? { lat: value.lat, lng: value.lng } : undefined;
+
+const validCitations = (value: unknown): HeritageCitations => {
+  if (!isObject(value)) return {};
+  const citations: HeritageCitations = {};
+  for (const { key } of HERITAGE_SECTIONS) {
+    const claims = value[key];
+    if (key === 'poets' || !Array.isArray(claims)) continue;
+    const valid = claims.filter((c): c is CitedClaim => isObject(c) && isString(c.text) && Array.isArray(c.sources) && c.sources.every(isString));
+    if (valid.length) citations[key as TextSectionKey] = valid;
+  }
+  return citations;
+};
+
+// Links from imported files end up as hrefs in the print view, the Markdown and the citations, so only web ones are kept
+const isWebUrl = (value: unknown): value is string => isString(value) && /^https?:\/\//i.test(value);
+const webUrl = (value: unknown) => isWebUrl(value) ? value : undefined;
+const optionalString = (value: unknown) => isString(value) ? value : undefined;
+
+const validSource = (value: unknown): WikiSource | undefined =>
+  isObject(value) && isWebUrl(value.url) && isString(value.title) && LANGUAGES.includes(value.lang)
+    ? { lang: value.lang, title: value.title, revisionId: Number(value.revisionId) || 0, url: value.url }
+    : undefined;
+
+const validPassage = (value: unknown): SourcePassage[] =>
+  isObject(value) && isString(value.id) && isString(value.heading) && isString(value.text)
+    ? [{ id: value.id, heading: value.heading, anchor: optionalString(value.anchor), text: value.text, source: validSource(value.source) }]
+    : [];
+
+const validInfobox = (value: unknown): WikiInfobox | undefined => {
+  if (!isObject(value) || !isObject(value.fields)) return undefined;
+  return {
+    built: optionalString(value.built),
+    architect: optionalString(value.architect),
+    dynasty: optionalString(value.dynasty),
+    coordinates: validCoords(value.coordinates),
+    fields: Object.fromEntries(Object.entries(value.fields).filter((entry): entry is [string, string] => isString(entry[1]))),
+  };
+};
+
+const validImage = (value: unknown): WikiImage[] =>
+  isObject(value) && isWebUrl(value.url) && isString(value.caption)
+    ? [{
+      url: value.url,
+      caption: value.caption,
+      thumbUrl: webUrl(value.thumbUrl),
+      width: Number.isFinite(value.width) ? value.width : undefined,
+      height: Number.isFinite(value.height) ? value.height : undefined,
+      author: optionalString(value.author),
+      license: optionalString(value.license),
+      licenseUrl: webUrl(value.licenseUrl),
+      descriptionUrl: webUrl(value.descriptionUrl),
+    }]
+    : [];
+
+// Imported files are untrusted: keep only what has the expected shape, and no link other than http(s)
+const validPlace = (value: unknown): PlaceDetails => {
+  if (!isObject(value) || !isString(value.name) || !value.name.trim()) throw new DossierImportError('format', 'Dossier has no place');
+  const name = value.name.trim();
+  return {
+    id: name,
+    name,
+    summary: isString(value.summary) ? value.summary : undefined,
+    source: validSource(value.source),
+    passages: Array.isArray(value.passages) ? value.passages.flatMap(validPassage) : undefined,
+    infobox: validInfobox(value.infobox),
+    coords: validCoords(value.coords),
+    content: validateContent(value.content),
+    citations: validCitations(value.citations),
+    images: Array.isArray(value.images) ? value.images.flatMap(validImage) : [],
+  };
+};
+
+const isImageData = (value: unknown): value is string => isString(value) && value.startsWith('data:image/');
+
+const validReconstructions = (value: unknown, placeName: string): ReconstructionRecord[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(r => isObject(r) && isString(r.id) && isImageData(r.imageUrl) && isImageData(r.originalImageUrl) && isObject(r.options))
+    .map(r => ({ ...r, placeName, prompt: isString(r.prompt) ? r.prompt : '', context: isString(r.context) ? r.context : placeName, createdAt: Number(r.createdAt) || Date.now() }));
+
+const validInscriptions = (value: unknown, placeName: string): InscriptionRecord[] =>
+  (Array.isArray(value) ? value : [])
+    .filter(r => isObject(r) && isString(r.id) && isImageData(r.imageDataUrl) && Array.isArray(r.lines) && isString(r.translation))
+    .map(r => ({ ...r, placeName, lang: LANGUAGES.includes(r.lang) ? r.lang : 'en', createdAt: Number(r.createdAt) || Date.now() }));
+
+const passageUrl = (place: PlaceDetails, passage: SourcePassage) => {
+  const origin = passage.source || place.source;
+  return origin ? `${origin.url}${passage.anchor ? `#${encodeURIComponent(passage.anchor)}` : ''}` : undefined;
+};
+
+// Numbers cited passages in order of first citation across the whole dossier. Claims citing nothing that
+// still exists are flagged with † by the callers and explained under the sources.
+const footnotes = (place: PlaceDetails) => {
+  const cited: SourcePassage[] = [];
+  let uncited = false;
+  const numbersOf = (claim: CitedClaim) => {
+    const numbers = claim.sources.flatMap(id => {
+      let index = cited.findIndex(p => p.id === id);
+      if (index === -1) {
+        const passage = place.passages?.find(p => p.id === id);
+        if (!passage) return [];
+        index = cited.push(passage) - 1;
+      }
+      return [index + 1];
+    });
+    if (!numbers.length) uncited = true;
+    return numbers;
+  };
+  return { cited, numbersOf, hasUncited: () => uncited };
+};
+
+const mapLink = ({ lat, lng }: Coordinates) => `https://www.openstreetmap.org/?mlat=${lat}&mlon=${lng}#map=14/${lat}/${lng}`;
+
+const imageCredit = (image: WikiImage) => [image.author, image.license].filter(Boolean).join(' • ');
+
+const formatDate = (timestamp: number, lang: Language) =>
+  new Date(timestamp).toLocaleDateString(LANGUAGE_INFO[lang].locale, { dateStyle: 'long' });
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const slug = (name: string) => name.replace(/\W+/g, '-').replace(/^-|-$/g, '').toLowerCase() || 'place';
+
+// Every script the app writes in, so verses quoted in another language than the page still print in a real font
+const PRINT_FONTS = 'https://fonts.googleapis.com/css2?family=Crimson+Pro:ital,wght@0,400;0,700;1,400&family=Inter:wght@400;600&family=Noto+Serif+Telugu:wght@400;700&family=Noto+Serif+Devanagari:wght@400;700&family=Noto+Serif+Tamil:wght@400;700&family=Noto+Serif+Kannada:wght@400;700&family=Noto+Serif+Oriya:wght@400;700&family=Noto+Nastaliq+Urdu:wght@400;700&display=block';
+const SCRIPT_FONTS = "'Noto Serif Telugu', 'Noto Serif Devanagari', 'Noto Serif Tamil', 'Noto Serif Kannada', 'Noto Serif Oriya', 'Noto Nastaliq Urdu'";
+
+const PRINT_STYLE = `
+  @page { size: A4; margin: 18mm 16mm; }
+  body { font-family: 'Crimson Pro', ${SCRIPT_FONTS}, serif; font-size: 12pt; line-height: 1.5; color: #1c1917; margin: 0; }
+  :lang(ur) body { font-family: 'Noto Nastaliq Urdu', 'Crimson Pro', ${SCRIPT_FONTS}, serif; line-height: 2; }
+  h1 { font-size: 30pt; margin: 0 0 4pt; }
+  h2 { font-size: 17pt; border-bottom: 1px solid #d6d3d1; padding-bottom: 3pt; margin: 20pt 0 8pt; break-after: avoid; }
+  h3 { font-size: 13pt; margin: 10pt 0 2pt; break-after: avoid; }
+  .meta, .credit, figcaption, .note { font-family: 'Inter', ${SCRIPT_FONTS}, sans-serif; font-size: 8.5pt; color: #57534e; }
+  .badge { font-family: 'Inter', sans-serif; font-size: 7pt; text-transform: uppercase; letter-spacing: .08em; color: #6d28d9; border: 1px solid #c4b5fd; border-radius: 8pt; padding: 0 5pt; margin-inline-start: 6pt; vertical-align: middle; }
+  sup { font-size: 7pt; color: #b45309; }
+  .uncited { background: #fef3c7; }
+  blockquote { font-style: italic; margin: 4pt 0; padding: 6pt 10pt; background: #f5f5f4; border-inline-start: 3pt solid #d97706; }
+  figure { margin: 0; break-inside: avoid; }
+  .gallery { display: grid; grid-template-columns: 1fr 1fr; gap: 10pt; }
+  .gallery img { width: 100%; height: 150pt; object-fit: cover; }
+  .pair { display: grid; grid-template-columns: 1fr 1fr; gap: 8pt; }
+  .pair img, .inscription img { width: 100%; max-height: 200pt; object-fit: contain; background: #f5f5f4; }
+  .record { break-inside: avoid; margin-bottom: 12pt; }
+  .map { position: relative; width: 480px; height: 240px; overflow: hidden; border: 1px solid #d6d3d1; }
+  .map img { position: absolute; width: ${TILE_SIZE}px; height: ${TILE_SIZE}px; }
+  .map .marker { position: absolute; left: 50%; top: 50%; transform: translate(-50%, -50%); width: 16px; height: 16px; border-radius: 50%; background: #d97706; border: 3px solid #fff; box-shadow: 0 0 0 1px #78350f; }
+  table { border-collapse: collapse; width: 100%; font-size: 10.5pt; }
+  td { border-bottom: 1px solid #e7e5e4; padding: 3pt 4pt; vertical-align: top; }
+  ol.sources { font-family: 'Inter', ${SCRIPT_FONTS}, sans-serif; font-size: 8.5pt; }
+  a { color: inherit; }
+`;
+
+// A 480×240 window of map tiles centred on the place
+const mapHtml = (coords: Coordinates) => {
+  const zoom = 13;
+  const width = 480, height = 240;
+  const center = project(coords, zoom);
+  const origin = { x: center.x - width / 2, y: center.y - height / 2 };
+  const tiles: string[] = [];
+  for (let tx = Math.floor(origin.x / TILE_SIZE); tx <= Math.floor((origin.x + width) / TILE_SIZE); tx++) {
+    for (let ty = Math.floor(origin.y / TILE_SIZE); ty <= Math.floor((origin.y + height) / TILE_SIZE); ty++) {
+      tiles.push(`<img src="${escapeHtml(tileUrl(tx, ty, zoom))}" alt="" style="left:${Math.round(tx * TILE_SIZE - origin.x)}px;top:${Math.round(ty * TILE_SIZE - origin.y)}px">`);
+    }
+  }
+  return `<div class="map">${tiles.join('')}<span class="marker"></span></div>`;
+};
+
+const waitForImages = (doc: Document, timeoutMs: number) =>
+  Promise.all([...doc.images].map(image => image.complete ? undefined : new Promise<void>(resolve => {
+    image.onload = image.onerror = () => resolve();
+    setTimeout(resolve, timeoutMs);
+  })));
+
+// Turning places into exportable dossiers (print/PDF, Markdown, JSON) and importing JSON dossiers back.
+export const DossierService = {
+  /** Everything known about a loaded place, including the user's saved reconstructions and inscription readings. */
+  async build(place: PlaceDetails, lang: Language): Promise<HeritageDossier> {
+    const [reconstructions, inscriptions] = await Promise.all([ReconstructionService.list(place.name), InscriptionService.list(place.name)]);
+    const { sectionErrors, ...details } = place;
+    return { schema: SCHEMA, version: DOSSIER_VERSION, exportedAt: Date.now(), lang, place: details, reconstructions, inscriptions };
+  },
+
+  toJson(dossier: HeritageDossier): string {
+    return JSON.stringify(dossier, null, 2);
+  },
+
+  /**
+   * Reads a JSON dossier, migrating older versions to the current one.
+   * Throws a DossierImportError when the file is not a dossier or was written by a newer version of the app.
+   */
+  parse(text: string): HeritageDossier {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      throw new DossierImportError('format', 'Not a JSON file');
+    }
+    if (!isObject(parsed) || parsed.schema !== SCHEMA || !Number.isInteger(parsed.version) || parsed.version < 1) {
+      throw new DossierImportError('format', 'Not an ITIHAASA dossier');
+    }
+    if (parsed.version > DOSSIER_VERSION) throw new DossierImportError('version', `Dossier version ${parsed.version} is newer than ${DOSSIER_VERSION}`);
+    let data: Record<string, unknown> = parsed;
+    for (let version = parsed.version; version < DOSSIER_VERSION; version++) data = MIGRATIONS[version](data);
+
+    const place = validPlace(data.place);
+    return {
+      schema: SCHEMA,
+      version: DOSSIER_VERSION,
+      exportedAt: Number(data.exportedAt) || Date.now(),
+      lang: LANGUAGES.includes(data.lang as Language) ? data.lang as Language : 'en',
+      place,
+      reconstructions: validReconstructions(data.reconstructions, place.name),
+      inscriptions: validInscriptions(data.inscriptions, place.name),
+    };
+  },
+
+  /**
+   * Makes an imported dossier's place open as exported: its generated content is cached as fresh for the
+   * dossier's language, and its reconstructions and readings are added to the library.
+   */
+  async import(dossier: HeritageDossier): Promise<void> {
+    const { place, lang } = dossier;
+    await CacheService.set(CacheKeys.content(place.name, lang), place.content || {});
+    await CacheService.set(CacheKeys.citations(place.name, lang), place.citations || {});
+    if (place.images.length) await CacheService.set(CacheKeys.images(place.name), place.images);
+    if (place.coords) await CacheService.set(CacheKeys.coords(place.name), place.coords);
+    await Promise.all([
+      ...dossier.reconstructions.map(ReconstructionService.restore),
+      ...dossier.inscriptions.map(InscriptionService.restore),
+    ]);
+  },
+
+  toMarkdown(dossier: HeritageDossier): string {
+    const { place, lang } = dossier;
+    const t = (key: MessageKey, params?: MessageParams) => translate(lang, key, params);
+    const { cited, numbersOf, hasUncited } = footnotes(place);
+    const lines: string[] = [`# ${place.name}`, ''];
+    if (place.summary) lines.push(`> ${place.summary.replace(/\n+/g, ' ')}`, '');
+    lines.push(`*${t('dossier.exportedOn', { date: formatDate(dossier.exportedAt, lang), language: LANGUAGE_INFO[lang].name })}*`, '');
+    lines.push(`*${t('dossier.aiNote')}*`, '');
+
+    if (place.coords) {
+      lines.push(`## ${t('dossier.location')}`, '', `${place.coords.lat.toFixed(4)}°, ${place.coords.lng.toFixed(4)}° — [${t('dossier.openMap')}](${mapLink(place.coords)})`, '');
+    }
+
+    for (const { key } of HERITAGE_SECTIONS) {
+      if (key === 'poets') continue;
+      const text = place.content?.[key];
+      if (text === undefined) continue;
+      const claims = place.citations?.[key];
+      lines.push(`## ${t(`section.${key}`)}`, '');
+      lines.push(claims
+        ? claims.map(claim => {
+          const numbers = numbersOf(claim);
+          return numbers.length ? `${claim.text}${numbers.map(n => `[^${n}]`).join('')}` : `${claim.text} †`;
+        }).join(' ')
+        : text, '');
+    }
+
+    const poets = place.content?.poets || [];
+    if (poets.length) {
+      lines.push(`## ${t('section.poets')}`, '');
+      for (const poet of poets) {
+        lines.push(`### ${poet.name}`, '', `*${poet.period} • ${poet.language}*`, '', poet.contribution, '');
+        if (poet.works.length) lines.push(poet.works.join(' • '), '');
+        lines.push(...poet.famousVerse.split('\n').map(line => `> ${line}`), '');
+        for (const rendering of [poet.verseTransliteration, poet.verseTranslation]) {
+          if (rendering && rendering !== poet.famousVerse) lines.push(...rendering.split('\n').map(line => `> *${line}*`), '');
+        }
+        lines.push(`— ${poet.source || t('explore.poetNoSource')}`, '');
+      }
+    }
+
+    if (place.images.length) {
+      lines.push(`## ${t('dossier.images')}`, '');
+      for (const image of place.images) {
+        lines.push(`![${image.caption}](${image.thumbUrl || image.url})`, '');
+        const credit = imageCredit(image);
+        lines.push(`*${image.caption}*${credit ? ` — ${credit}` : ''}${image.descriptionUrl ? ` ([source](${image.descriptionUrl}))` : ''}`, '');
+      }
+    }
+
+    // Saved images are data URLs, which most Markdown viewers will not show; they are kept in the JSON export
+    if (dossier.reconstructions.length) {
+      lines.push(`## ${t('dossier.reconstructions')}`, '');
+      for (const record of dossier.reconstructions) {
+        const options = [record.options.period, record.options.style].filter(Boolean).join(' • ');
+        lines.push(`- ${formatDate(record.createdAt, lang)}${options ? ` — ${options}` : ''}: ${record.prompt}`);
+      }
+      lines.push('');
+    }
+
+    if (dossier.inscriptions.length) {
+      lines.push(`## ${t('dossier.inscriptions')}`, '');
+      for (const record of dossier.inscriptions) {
+        lines.push(`### ${record.script}`, '', `*${t('inscriptions.language')}: ${record.language} • ${t('inscriptions.period')}: ${record.period}*`, '');
+        record.lines.forEach((line, i) => lines.push(`${i + 1}. ${line.original} — *${line.transliteration}*`));
+        lines.push('', `**${t('inscriptions.translation')}:** ${record.translation}`, '');
+        if (record.notes) lines.push(`**${t('inscriptions.notes')}:** ${record.notes}`, '');
+      }
+    }
+
+    if (cited.length || place.source) {
+      lines.push(`## ${t('dossier.sources')}`, '');
+      if (place.source) lines.push(t('dossier.wikipedia', { title: place.source.title, revision: String(place.source.revisionId) }) + ` <${place.source.url}>`, '');
+      cited.forEach((passage, i) => {
+        const url = passageUrl(place, passage);
+        lines.push(`[^${i + 1}]: ${passage.heading}${url ? ` <${url}>` : ''}`);
+      });
+      if (hasUncited()) lines.push('', `† ${t('citations.uncitedHint')}`);
+      lines.push('');
+    }
+    return lines.join('\n');
+  },
+
+  /** A standalone, print-styled HTML document for the dossier. */
+  toPrintHtml(dossier: HeritageDossier): string {
+    const { place, lang } = dossier;
+    const t = (key: MessageKey, params?: MessageParams) => escapeHtml(translate(lang, key, params));
+    const { cited, numbersOf, hasUncited } = footnotes(place);
+    const badge = `<span class="badge">${t('citations.aiBadge')}</span>`;
+    const parts: string[] = [`<h1>${escapeHtml(place.name)}</h1>`];
+    if (place.summary) parts.push(`<p><em>${escapeHtml(place.summary)}</em></p>`);
+    parts.push(`<p class="meta">${t('dossier.exportedOn', { date: formatDate(dossier.exportedAt, lang), language: LANGUAGE_INFO[lang].name })}</p>`);
+    parts.push(`<p class="note">${t('dossier.aiNote')}</p>`);
+
+    if (place.coords) {
+      const { lat, lng } = place.coords;
+      parts.push(`<h2>${t('dossier.location')}</h2>`, mapHtml(place.coords));
+      parts.push(`<p class="meta">${lat.toFixed(4)}°, ${lng.toFixed(4)}° — <a href="${escapeHtml(mapLink(place.coords))}">${t('dossier.openMap')}</a> • ${escapeHtml(TILE_ATTRIBUTION)}</p>`);
+    }
+
+    for (const { key } of HERITAGE_SECTIONS) {
+      if (key === 'poets') continue;
+      const text = place.content?.[key];
+      if (text === undefined) continue;
+      const claims = place.citations?.[key];
+      const body = claims
+        ? `<p>${claims.map(claim => {
+          const numbers = numbersOf(claim);
+          return numbers.length
+            ? `${escapeHtml(claim.text)}<sup>${numbers.join(',')}</sup>`
+            : `<span class="uncited">${escapeHtml(claim.text)}</span><sup>†</sup>`;
+        }).join(' ')}</p>`
+        : text.split(/\n{2,}/).map(paragraph => `<p>${escapeHtml(paragraph)}</p>`).join('');
+      parts.push(`<section><h2>${t(`section.${key}`)}${badge}</h2>${body}</section>`);
+    }
+
+    const poets = place.content?.poets || [];
+    if (poets.length) {
+      parts.push(`<h2>${t('section.poets')}${badge}</h2>`);
+      for (const poet of poets) {
+        parts.push(`<div class="record"><h3>${escapeHtml(poet.name)}</h3><p class="meta">${escapeHtml(poet.period)} • ${escapeHtml(poet.language)}</p>`
+          + `<p>${escapeHtml(poet.contribution)}</p>${poet.works.length ? `<p class="meta">${escapeHtml(poet.works.join(' • '))}</p>` : ''}`
+          + `<blockquote>${[poet.famousVerse, poet.verseTransliteration, poet.verseTranslation]
+            .filter((rendering, i) => rendering && (i === 0 || rendering !== poet.famousVerse))
+            .map(rendering => escapeHtml(rendering).replace(/\n/g, '<br>')).join('<br><br>')}</blockquote>`
+          + `<p class="credit">— ${poet.source ? escapeHtml(poet.source) : t('explore.poetNoSource')}</p></div>`);
+      }
+    }
+
+    if (place.images.length) {
+      parts.push(`<h2>${t('dossier.images')}</h2><div class="gallery">`);
+      for (const image of place.images) {
+        const credit = imageCredit(image);
+        parts.push(`<figure><img src="${escapeHtml(image.thumbUrl || image.url)}" alt=""><figcaption>${escapeHtml(image.caption)}`
+          + `${credit ? `<br>${escapeHtml(credit)}` : ''}${image.descriptionUrl ? `<br><a href="${escapeHtml(image.descriptionUrl)}">${escapeHtml(image.descriptionUrl)}</a>` : ''}</figcaption></figure>`);
+      }
+      parts.push('</div>');
+    }
+
+    if (dossier.reconstructions.length) {
+      parts.push(`<h2>${t('dossier.reconstructions')}${badge}</h2>`);
+      for (const record of dossier.reconstructions) {
+        const options = [record.options.period, record.options.style].filter(Boolean).join(' • ');
+        parts.push(`<div class="record"><div class="pair">`
+          + `<figure><img src="${escapeHtml(record.originalImageUrl)}" alt=""><figcaption>${t('reconstruct.before')}</figcaption></figure>`
+          + `<figure><img src="${escapeHtml(record.imageUrl)}" alt=""><figcaption>${t('reconstruct.after')}</figcaption></figure></div>`
+          + `<p class="meta">${escapeHtml(formatDate(record.createdAt, lang))}${options ? ` • ${escapeHtml(options)}` : ''}</p>`
+          + `<p class="note">${escapeHtml(record.prompt)}</p></div>`);
+      }
+    }
+
+    if (dossier.inscriptions.length) {
+      parts.push(`<h2>${t('dossier.inscriptions')}${badge}</h2>`);
+      for (const record of dossier.inscriptions) {
+        parts.push(`<div class="record inscription"><h3>${escapeHtml(record.script)}</h3>`
+          + `<p class="meta">${t('inscriptions.language')}: ${escapeHtml(record.language)} • ${t('inscriptions.period')}: ${escapeHtml(record.period)} • ${record.scheme}</p>`
+          + `<img src="${escapeHtml(record.imageDataUrl)}" alt="">`
+          + `<table>${record.lines.map((line, i) => `<tr><td>${i + 1}</td><td>${escapeHtml(line.original)}</td><td><em>${escapeHtml(line.transliteration)}</em></td></tr>`).join('')}</table>`
+          + `<p><strong>${t('inscriptions.translation')}:</strong> ${escapeHtml(record.translation)}</p>`
+          + `${record.notes ? `<p class="note"><strong>${t('inscriptions.notes')}:</strong> ${escapeHtml(record.notes)}</p>` : ''}</div>`);
+      }
+    }
+
+    if (cited.length || place.source) {
+      parts.push(`<h2>${t('dossier.sources')}</h2>`);
+      if (place.source) {
+        parts.push(`<p class="meta">${t('dossier.wikipedia', { title: place.source.title, revision: String(place.source.revisionId) })} — <a href="${escapeHtml(place.source.url)}">${escapeHtml(place.source.url)}</a></p>`);
+      }
+      parts.push(`<ol class="sources">${cited.map(passage => {
+        const url = passageUrl(place, passage);
+        return `<li>${escapeHtml(passage.heading)}${url ? ` — <a href="${escapeHtml(url)}">${escapeHtml(url)}</a>` : ''}</li>`;
+      }).join('')}</ol>`);
+      if (hasUncited()) parts.push(`<p class="note">† ${t('citations.uncitedHint')}</p>`);
+    }
+
+    return `<!DOCTYPE html><html lang="${lang}" dir="${LANGUAGE_INFO[lang].dir}"><head><meta charset="utf-8">`
+      + `<title>${escapeHtml(place.name)} - ITIHAASA</title><link rel="stylesheet" href="${PRINT_FONTS}"><style>${PRINT_STYLE}</style></head>`
+      + `<body>${parts.join('\n')}</body></html>`;
+  },
+
+  /**
+   * Opens the browser's print dialog (where "Save as PDF" lives) for the dossier. The document is laid out in a
+   * hidden frame, and printing waits for its web fonts and images so Indic and Urdu text is embedded, not blank.
+   */
+  print(dossier: HeritageDossier): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const frame = document.createElement('iframe');
+      frame.setAttribute('aria-hidden', 'true');
+      frame.style.cssText = 'position:fixed;inset-inline-start:-10000px;top:0;width:210mm;height:297mm;border:0';
+      frame.onload = async () => {
+        try {
+          const doc = frame.contentDocument!;
+          // Fonts only start loading once text needing them is laid out
+          void doc.body.offsetHeight;
+          await Promise.all([doc.fonts.ready, waitForImages(doc, 15000)]);
+          frame.contentWindow!.addEventListener('afterprint', () => frame.remove());
+          frame.contentWindow!.print();
+          resolve();
+        } catch (e) {
+          frame.remove();
+          reject(e);
+        }
+      };
+      frame.srcdoc = DossierService.toPrintHtml(dossier);
+      document.body.appendChild(frame);
+    });
+  },
+
+  /** Saves the dossier as a file in the given format. */
+  download(dossier: HeritageDossier, format: 'markdown' | 'json') {
+    const [text, type, extension] = format === 'json'
+      ? [DossierService.toJson(dossier), 'application/json', 'json']
+      : [DossierService.toMarkdown(dossier), 'text/markdown', 'md'];
+    downloadText(text, `itihaasa-${slug(dossier.place.name)}-${dossier.lang}.${extension}`, type);
+  },
+};
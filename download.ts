@@ -0,0 +1,9 @@
+/** Saves text as a file through the browser's download prompt. */
+export const downloadText = (text: string, fileName: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([text], { type: `${type};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
@@ -0,0 +1,7 @@
+// Choices offered when guiding a reconstruction. They go into the prompt as written.
+
+// Target periods
+export const RECONSTRUCTION_PERIODS = ['Satavahana', 'Ikshvaku', 'Eastern Chalukya', 'Kakatiya', 'Vijayanagara'];
+
+// Architectural styles
+export const RECONSTRUCTION_STYLES = ['Buddhist', 'Dravidian', 'Vijayanagara', 'Rock-cut', 'Fort', 'Indo-Islamic', 'Colonial'];
@@ -0,0 +1,54 @@
+import { HeritageContent } from './types';
+
+export type TextSectionKey = Exclude<keyof HeritageContent, 'poets'>;
+
+export interface HeritageSection {
+  key: keyof HeritageContent;
+  instruction: string;
+}
+
+// Display and generation order of the heritage report. The first entries are generated first,
+// so the top of the explore page can render before the rest of the report arrives.
+// Titles are translated under `section.<key>` in the locale catalogs.
+export const HERITAGE_SECTIONS: HeritageSection[] = [
+  {
+    key: 'overview',
+    instruction: 'Overview: Historical significance and founding.',
+  },
+  {
+    key: 'architecture',
+    instruction: 'Architecture: Specific styles (e.g., Vijayanagara, Dravidian, Buddhist) and stone-work details.',
+  },
+  {
+    key: 'monuments',
+    instruction: 'Monuments: Key structures and shrines.',
+  },
+  {
+    key: 'traditions',
+    instruction: 'Traditions: Local festivals, rituals, and folklore.',
+  },
+  {
+    key: 'cuisine',
+    instruction: 'Cuisine: Regional food specialties.',
+  },
+  {
+    key: 'artCrafts',
+    instruction: 'Art & Crafts: Local paintings, weaves, or dance forms.',
+  },
+  {
+    key: 'literature',
+    instruction: 'Literature: Historical inscriptions or literary mentions.',
+  },
+  {
+    key: 'agriculture',
+    instruction: 'Agriculture: Regional crops and geography.',
+  },
+  {
+    key: 'lifestyle',
+    instruction: 'Lifestyle: Traditional clothing and social structure.',
+  },
+  {
+    key: 'poets',
+    instruction: 'Poets: The poets associated with the place or its region, most closely associated first (up to six), with name, period, language, contribution, major works, and a famous verse quoted in its original language and script, with its transliteration and a translation.',
+  },
+];
@@ -0,0 +1,70 @@
+import { GeneratedSection } from './aiProvider';
+import { HERITAGE_SECTIONS } from './heritageSections';
+import { ValidationError } from './retry';
+import { CitedClaim, HeritageContent, Poet } from './types';
+
+// Runtime checks for model output against the HeritageContent schema. Small defects are
+// repaired in place; anything unusable throws ValidationError so the section is re-requested.
+
+const POET_FIELDS = ['name', 'period', 'language', 'contribution', 'famousVerse', 'verseTransliteration', 'verseTranslation', 'source'] as const;
+
+const asText = (value: unknown): string | null => {
+  if (typeof value === 'string') return value.trim() || null;
+  // Models occasionally return a list of paragraphs instead of one string
+  if (Array.isArray(value) && value.every(v => typeof v === 'string')) return value.join('\n\n').trim() || null;
+  return null;
+};
+
+const repairPoets = (value: unknown): Poet[] => {
+  if (!Array.isArray(value)) throw new ValidationError('poets: expected an array');
+  const poets = value
+    .filter((p): p is Record<string, unknown> => !!p && typeof p === 'object' && !!asText((p as Record<string, unknown>).name))
+    .map(p => ({
+      ...Object.fromEntries(POET_FIELDS.map(field => [field, asText(p[field]) || ''])),
+      // Content cached before works were generated has none
+      works: Array.isArray(p.works) ? p.works.map(asText).filter((work): work is string => !!work) : [],
+    }) as Poet);
+  if (poets.length === 0) throw new ValidationError('poets: no usable entries');
+  return poets;
+};
+
+const repairClaims = (value: unknown): CitedClaim[] | undefined => {
+  if (!Array.isArray(value)) return undefined;
+  const claims = value
+    .filter(c => c && typeof c === 'object' && asText(c.text))
+    .map(c => ({
+      text: asText(c.text)!,
+      sources: Array.isArray(c.sources) ? c.sources.filter((id: unknown): id is string => typeof id === 'string') : []
+    }));
+  return claims.length ? claims : undefined;
+};
+
+/** Validates one generated section, returning a repaired copy or throwing ValidationError. */
+export const validateSection = <K extends keyof HeritageContent>(section: GeneratedSection<K>): GeneratedSection<K> => {
+  if (section.key === 'poets') return { key: section.key, value: repairPoets(section.value) as HeritageContent[K] };
+
+  const claims = repairClaims(section.claims);
+  // Claims are the source of truth for text when present
+  const text = claims ? claims.map(c => c.text).join(' ') : asText(section.value);
+  if (!text) throw new ValidationError(`${section.key}: empty section`);
+  return { key: section.key, value: text as HeritageContent[K], claims };
+};
+
+/** Drops sections of stored content that no longer validate, so they are regenerated. */
+export const validateContent = (content: unknown): Partial<HeritageContent> => {
+  if (!content || typeof content !== 'object') return {};
+  const valid: Partial<HeritageContent> = {};
+  for (const { key } of HERITAGE_SECTIONS) {
+    const value = (content as Record<string, unknown>)[key];
+    if (value === undefined) continue;
+    try {
+      Object.assign(valid, { [key]: validateSection({ key, value: value as never }).value });
+    } catch (e) {
+      console.warn(`Discarding invalid cached section ${key}`, e);
+    }
+  }
+  return valid;
+};
+
+export const missingSections = (content: Partial<HeritageContent> | undefined) =>
+  HERITAGE_SECTIONS.map(s => s.key).filter(key => content?.[key] === undefined);
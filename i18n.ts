@@ -0,0 +1,17 @@
+import { createContext, useContext, useMemo } from 'react';
+import { Language } from './types';
+import { getTranslator } from './messages';
+
+// React bindings for the UI catalogs. The catalogs and formatter live in messages.ts and the language list in
+// languages.ts, both free of React so the server can import them; both are re-exported here for the app.
+
+export * from './languages';
+export * from './messages';
+
+export const LanguageContext = createContext<Language>('en');
+
+/** The `t` function for the current UI language. */
+export const useT = () => {
+  const lang = useContext(LanguageContext);
+  return useMemo(() => getTranslator(lang), [lang]);
+};
@@ -0,0 +1,25 @@
+// Phone photos run to several megabytes; shrink them before they are sent to the model or kept in chat history.
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('Could not read the image'));
+    image.src = src;
+  });
+
+/** Reads an image file (or any image blob) as a JPEG data URL whose longer side is at most `maxSize` pixels. */
+export const readImageFile = async (file: Blob, maxSize = 1280, quality = 0.85): Promise<string> => {
+  const url = URL.createObjectURL(file);
+  try {
+    const image = await loadImage(url);
+    const scale = Math.min(1, maxSize / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(image.naturalWidth * scale);
+    canvas.height = Math.round(image.naturalHeight * scale);
+    canvas.getContext('2d')!.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', quality);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+};
@@ -8,6 +8,13 @@ if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Field mode: the service worker (public/sw.js) keeps the app and its images working without a network
+if ('serviceWorker' in navigator) {
+  window.addEventListener('load', () => {
+    navigator.serviceWorker.register('/sw.js').catch(error => console.warn('Service worker registration failed', error));
+  });
+}
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
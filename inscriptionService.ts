@@ -0,0 +1,37 @@
+import { AIService } from './aiService';
+import { libraryStore } from './libraryStore';
+import { InscriptionReading, InscriptionRecord, Language, TransliterationScheme } from './types';
+
+const store = libraryStore<InscriptionRecord>('inscriptions');
+
+const samePlace = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Reading inscriptions from photos, and the readings the user has saved against places.
+export const InscriptionService = {
+  read(imageDataUrl: string, lang: Language, scheme: TransliterationScheme, signal?: AbortSignal): Promise<InscriptionReading> {
+    return AIService.readInscription(imageDataUrl, lang, scheme, signal);
+  },
+
+  /** Saved readings, newest first; only those for `placeName` when given. */
+  async list(placeName?: string): Promise<InscriptionRecord[]> {
+    const records = await store.list();
+    return records
+      .filter(record => !placeName || samePlace(record.placeName, placeName))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  },
+
+  async save(reading: InscriptionReading, placeName: string, imageDataUrl: string, lang: Language): Promise<InscriptionRecord> {
+    const record: InscriptionRecord = { ...reading, id: crypto.randomUUID(), placeName: placeName.trim(), imageDataUrl, lang, createdAt: Date.now() };
+    await store.put(record);
+    return record;
+  },
+
+  /** Puts back a record from an imported dossier. Its id is kept, so importing the same file twice does not duplicate it. */
+  restore(record: InscriptionRecord): Promise<void> {
+    return store.put(record);
+  },
+
+  remove(id: string): Promise<void> {
+    return store.remove(id);
+  },
+};
@@ -0,0 +1,25 @@
+import { Language } from './types';
+
+// The languages the app is offered in. Kept free of React and the message catalogs so the server can use it too.
+
+export interface LanguageInfo {
+  /** Name in its own script, for the language picker. */
+  name: string;
+  /** English name, used in AI prompts. */
+  englishName: string;
+  /** BCP 47 locale for plural rules, numbers and dates. */
+  locale: string;
+  dir: 'ltr' | 'rtl';
+}
+
+export const LANGUAGE_INFO: Record<Language, LanguageInfo> = {
+  en: { name: 'English', englishName: 'English', locale: 'en-IN', dir: 'ltr' },
+  te: { name: 'తెలుగు', englishName: 'Telugu', locale: 'te-IN', dir: 'ltr' },
+  hi: { name: 'हिंदी', englishName: 'Hindi', locale: 'hi-IN', dir: 'ltr' },
+  ta: { name: 'தமிழ்', englishName: 'Tamil', locale: 'ta-IN', dir: 'ltr' },
+  kn: { name: 'ಕನ್ನಡ', englishName: 'Kannada', locale: 'kn-IN', dir: 'ltr' },
+  or: { name: 'ଓଡ଼ିଆ', englishName: 'Odia', locale: 'or-IN', dir: 'ltr' },
+  ur: { name: 'اردو', englishName: 'Urdu', locale: 'ur-IN', dir: 'rtl' },
+};
+
+export const LANGUAGES = Object.keys(LANGUAGE_INFO) as Language[];
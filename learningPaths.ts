@@ -0,0 +1,18 @@
+// Curated learning paths: a handful of related places, visited in order, with a quiz at each stop.
+// Titles and descriptions live in the message catalogs as `path.<id>.title` / `path.<id>.description`.
+
+export type LearningPathId = 'buddhist' | 'vijayanagara' | 'caves';
+
+export interface LearningPath {
+  id: LearningPathId;
+  /** Wikipedia article titles, in the order they are visited. */
+  places: string[];
+}
+
+export const LEARNING_PATHS: LearningPath[] = [
+  { id: 'buddhist', places: ['Amaravati Stupa', 'Nagarjunakonda', 'Bhattiprolu', 'Salihundam', 'Thotlakonda'] },
+  { id: 'vijayanagara', places: ['Veerabhadra Temple, Lepakshi', 'Chintala Venkataramana Temple', 'Ahobilam', 'Penukonda', 'Chandragiri Fort'] },
+  { id: 'caves', places: ['Undavalli Caves', 'Mogalrajapuram Caves', 'Guntupalli Group of Buddhist Monuments', 'Bhairavakona'] },
+];
+
+export const findPath = (id: string | undefined) => LEARNING_PATHS.find(path => path.id === id);
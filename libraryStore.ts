@@ -0,0 +1,66 @@
+// Records the user creates (bookmarks, collections, notes and pins, saved inscription readings and reconstructions,
+// learners and their quiz progress), the poet profiles gathered from visited places, places downloaded for offline use
+// and requests waiting for connectivity, kept in their own IndexedDB database so that refreshing a place or clearing
+// the cache never deletes them.
+// Falls back to memory when IndexedDB is unavailable.
+
+const DB_NAME = 'itihaasa-library';
+const DB_VERSION = 6;
+const STORES = ['inscriptions', 'learners', 'reconstructions', 'bookmarks', 'collections', 'notes', 'pins', 'poets', 'offline', 'outbox'] as const;
+
+export type LibraryStoreName = typeof STORES[number];
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+const openDb = (): Promise<IDBDatabase | null> => {
+  if (!dbPromise) {
+    dbPromise = new Promise(resolve => {
+      if (typeof indexedDB === 'undefined') return resolve(null);
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        for (const name of STORES) {
+          if (!request.result.objectStoreNames.contains(name)) request.result.createObjectStore(name, { keyPath: 'id' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.warn('IndexedDB unavailable, library will not persist', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/** A keyed collection of records in the library database. */
+export const libraryStore = <T extends { id: string }>(name: LibraryStoreName) => {
+  const memory = new Map<string, T>();
+
+  const run = async <R>(mode: IDBTransactionMode, request: (store: IDBObjectStore) => IDBRequest<R>): Promise<R | undefined> => {
+    const db = await openDb();
+    return db ? promisify(request(db.transaction(name, mode).objectStore(name))) : undefined;
+  };
+
+  return {
+    async list(): Promise<T[]> {
+      const stored = await run<T[]>('readonly', store => store.getAll());
+      return stored ?? [...memory.values()];
+    },
+
+    async put(record: T): Promise<void> {
+      memory.set(record.id, record);
+      await run('readwrite', store => store.put(record));
+    },
+
+    async remove(id: string): Promise<void> {
+      memory.delete(id);
+      await run('readwrite', store => store.delete(id));
+    },
+  };
+};
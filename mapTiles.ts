@@ -0,0 +1,22 @@
+import { Coordinates } from './types';
+
+export const TILE_SIZE = 256;
+
+// Tiles are configurable so development can run against a local tile server (see MAP_TILE_URL in .env.local)
+export const TILE_URL = process.env.MAP_TILE_URL || 'https://tile.openstreetmap.org/{z}/{x}/{y}.png';
+export const TILE_ATTRIBUTION = process.env.MAP_TILE_ATTRIBUTION || '© OpenStreetMap contributors';
+
+export interface Point { x: number; y: number }
+
+export const tileUrl = (x: number, y: number, zoom: number) =>
+  TILE_URL.replace('{z}', String(zoom)).replace('{x}', String(x)).replace('{y}', String(y));
+
+// Web Mercator projection into world pixel space at a given zoom
+export const project = ({ lat, lng }: Coordinates, zoom: number): Point => {
+  const scale = TILE_SIZE * Math.pow(2, zoom);
+  const sin = Math.sin((Math.max(-85, Math.min(85, lat)) * Math.PI) / 180);
+  return {
+    x: ((lng + 180) / 360) * scale,
+    y: (0.5 - Math.log((1 + sin) / (1 - sin)) / (4 * Math.PI)) * scale,
+  };
+};
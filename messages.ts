@@ -0,0 +1,85 @@
+import { Language } from './types';
+import { LANGUAGE_INFO } from './languages';
+import en from './locales/en.json';
+import te from './locales/te.json';
+import hi from './locales/hi.json';
+import ta from './locales/ta.json';
+import kn from './locales/kn.json';
+import or from './locales/or.json';
+import ur from './locales/ur.json';
+
+// UI message catalogs (locales/*.json) and an ICU-style formatter for them.
+// English is the reference catalog: a key missing elsewhere falls back to English at runtime,
+// and `npm run check:i18n` (run by `npm run build`) fails the build when any locale is missing a key.
+
+export type MessageKey = keyof typeof en;
+export type MessageParams = Record<string, string | number>;
+export type Translate = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<Language, Partial<Record<MessageKey, string>>> = { en, te, hi, ta, kn, or, ur };
+
+// Index of the brace closing the one at `start`
+const closingBrace = (text: string, start: number) => {
+  let depth = 0;
+  for (let i = start; i < text.length; i++) {
+    if (text[i] === '{') depth++;
+    else if (text[i] === '}' && --depth === 0) return i;
+  }
+  return -1;
+};
+
+// `one {...} other {...}` -> { one: '...', other: '...' }
+const parseCases = (text: string) => {
+  const cases: Record<string, string> = {};
+  let i = 0;
+  while (i < text.length) {
+    const match = /^\s*([^\s{]+)\s*\{/.exec(text.slice(i));
+    if (!match) break;
+    const open = i + match[0].length - 1;
+    const close = closingBrace(text, open);
+    if (close === -1) break;
+    cases[match[1]] = text.slice(open + 1, close);
+    i = close + 1;
+  }
+  return cases;
+};
+
+const formatArgument = (body: string, params: MessageParams, locale: string): string => {
+  const match = /^\s*(\w+)\s*(?:,\s*(plural|select)\s*,([\s\S]*))?$/.exec(body);
+  if (!match) return `{${body}}`;
+  const [, name, type, rest] = match;
+  const value = params[name];
+  if (value === undefined) return `{${name}}`;
+  if (!type) return typeof value === 'number' ? new Intl.NumberFormat(locale).format(value) : value;
+
+  const cases = parseCases(rest);
+  if (type === 'select') return formatMessage(cases[String(value)] ?? cases.other ?? '', params, locale);
+  const count = Number(value);
+  const selected = cases[`=${count}`] ?? cases[new Intl.PluralRules(locale).select(count)] ?? cases.other ?? '';
+  return formatMessage(selected.replace(/#/g, new Intl.NumberFormat(locale).format(count)), params, locale);
+};
+
+/**
+ * Formats an ICU-style message: `{name}` interpolation, plus `{count, plural, =0 {...} one {# item} other {# items}}`
+ * and `{kind, select, a {...} other {...}}`. Unknown arguments are left in place so gaps are visible.
+ */
+export const formatMessage = (message: string, params: MessageParams = {}, locale = 'en'): string => {
+  let out = '';
+  for (let i = 0; i < message.length; i++) {
+    const close = message[i] === '{' ? closingBrace(message, i) : -1;
+    if (close === -1) {
+      out += message[i];
+      continue;
+    }
+    out += formatArgument(message.slice(i + 1, close), params, locale);
+    i = close;
+  }
+  return out;
+};
+
+export const translate = (lang: Language, key: MessageKey, params?: MessageParams) => {
+  const message = CATALOGS[lang][key] ?? en[key] ?? key;
+  return formatMessage(message, params, LANGUAGE_INFO[lang].locale);
+};
+
+export const getTranslator = (lang: Language): Translate => (key, params) => translate(lang, key, params);
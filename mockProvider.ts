@@ -0,0 +1,127 @@
+import { AIProvider, GeneratedSection } from './aiProvider';
+import { HERITAGE_SECTIONS } from './heritageSections';
+import { translate } from './messages';
+import { romanize } from './transliteration';
+import { silentWavDataUrl } from './wav';
+import { CitedClaim, HeritageContent, Language, Poet, SourcePassage } from './types';
+
+// Deterministic, network-free stand-in for Gemini used in local development and tests.
+// Text is assembled from the Wikipedia passages it is given, so pages still look plausible.
+
+const POET_FIXTURES: Poet[] = [
+  { name: 'Nannaya', period: '11th century', language: 'Telugu', contribution: 'Began the Telugu rendering of the Mahabharata (Andhra Mahabharatamu).', works: ['Andhra Mahabharatamu'], famousVerse: 'శ్రీ వాణీ గిరిజాశ్చిరాయ దధతో...', verseTransliteration: 'śrī vāṇī girijāścirāya dadhatō...', verseTranslation: 'May Vani, Girija and Lakshmi, ever holding...', source: '' },
+  { name: 'Tikkana', period: '13th century', language: 'Telugu', contribution: 'Translated fifteen parvas of the Mahabharata into Telugu.', works: ['Andhra Mahabharatamu', 'Nirvachanottara Ramayanamu'], famousVerse: 'శ్రీయన గౌరినా బరగు...', verseTransliteration: 'śrīyana gaurinā baragu...', verseTranslation: 'She who shines as Sri and as Gauri...', source: '' },
+  { name: 'Pothana', period: '15th century', language: 'Telugu', contribution: 'Composed the Andhra Maha Bhagavatamu.', works: ['Andhra Maha Bhagavatamu'], famousVerse: 'ఇంతింతై వటుడింతై...', verseTransliteration: 'intintai vaṭuḍintai...', verseTranslation: 'Growing this much, the dwarf grew this much more...', source: '' },
+  { name: 'Vemana', period: '17th century', language: 'Telugu', contribution: 'Wrote aphoristic verses on social life, ending "Viswadabhirama Vinura Vema".', works: ['Vemana Satakamu'], famousVerse: 'ఉప్పుకప్పురంబు నొక్కపోలికనుండు...', verseTransliteration: 'uppukappurambu nokkapōlikanuṇḍu...', verseTranslation: 'Salt and camphor look alike...', source: '' },
+  { name: 'Annamacharya', period: '1408–1503', language: 'Telugu', contribution: 'Composed thousands of sankirtanas to Venkateswara of Tirupati.', works: ['Sankirtanas'], famousVerse: 'బ్రహ్మమొక్కటే పరబ్రహ్మమొక్కటే...', verseTransliteration: 'brahmamokkaṭē parabrahmamokkaṭē...', verseTranslation: 'The Brahman is one, the supreme Brahman is one...', source: '' },
+];
+
+// Stable small hash so the same place always gets the same fixtures
+const hash = (text: string) => [...text].reduce((h, c) => (h * 31 + c.charCodeAt(0)) >>> 0, 7);
+
+const sentences = (text: string) => text.match(/[^.!?।]+[.!?।]+/g)?.map(s => s.trim()) || (text.trim() ? [text.trim()] : []);
+
+const words = async function* (text: string) {
+  for (const word of text.split(/(?<=\s)/)) yield word;
+};
+
+export const MockProvider: AIProvider = {
+  async getSection<K extends keyof HeritageContent>(placeName: string, passages: SourcePassage[], lang: Language, key: K): Promise<GeneratedSection<K>> {
+    const seed = hash(placeName);
+    if (key === 'poets') {
+      const first = seed % POET_FIXTURES.length;
+      const poets = [0, 1, 2].map(offset => POET_FIXTURES[(first + offset) % POET_FIXTURES.length]).map((poet, i) => ({
+        ...poet,
+        // Fixture translations are English; other languages get the mock note in their place
+        verseTranslation: lang === 'en' ? poet.verseTranslation : translate(lang, 'mock.note'),
+        source: passages[i] ? `[${passages[i].id}] ${passages[i].heading}` : ''
+      }));
+      return { key, value: poets as HeritageContent[K] };
+    }
+
+    // Take two sentences per section, walking through the passages in section order
+    const index = HERITAGE_SECTIONS.findIndex(s => s.key === key);
+    const pool = passages.flatMap(p => sentences(p.text).map(text => ({ text, id: p.id })));
+    const picked = pool.length ? [pool[(index * 2) % pool.length], pool[(index * 2 + 1) % pool.length]] : [];
+    const claims: CitedClaim[] = [
+      ...picked.map(s => ({ text: s.text, sources: [s.id] })),
+      // One uncited claim per section so the verification flags are exercised
+      { text: `${placeName}: ${translate(lang, `section.${key}`)}. ${translate(lang, 'mock.note')}`, sources: [] }
+    ];
+    return { key, value: claims.map(c => c.text).join(' ') as HeritageContent[K], claims };
+  },
+
+  async compareSites(first, second, lang) {
+    const line = (topic: string) => `${topic}: ${first.name} / ${second.name}. ${translate(lang, 'mock.note')}`;
+    return {
+      architecture: line('Architecture'),
+      period: line('Period'),
+      patrons: line('Patrons'),
+      traditions: line('Traditions'),
+      summary: `${first.name} ↔ ${second.name}. ${translate(lang, 'mock.note')}`
+    };
+  },
+
+  // Returns the upload unchanged, so the before/after tooling can be exercised offline
+  async reconstructMonument(imageDataUrl, context, options = {}) {
+    const guidance = [options.period, options.style, options.maskDataUrl && 'masked', options.notes].filter(Boolean).join(', ');
+    return { imageUrl: imageDataUrl, prompt: `[mock] Reconstruct ${context}${guidance ? ` (${guidance})` : ''}` };
+  },
+
+  // "Which topic does this describe?" for each cited claim, with the section titles as options
+  async generateQuiz(place, lang, count) {
+    const keys = HERITAGE_SECTIONS.map(s => s.key).filter(key => key !== 'poets');
+    const questions = keys.flatMap((key, i) => {
+      const claim = place.citations?.[key as Exclude<keyof HeritageContent, 'poets'>]?.find(c => c.sources.length);
+      if (!claim) return [];
+      const options = [key, keys[(i + 1) % keys.length], keys[(i + 3) % keys.length], keys[(i + 5) % keys.length]];
+      return [{
+        kind: 'choice' as const,
+        prompt: `[mock] "${claim.text}"`,
+        options: options.map(k => translate(lang, `section.${k}`)),
+        answer: 0,
+        explanation: `${translate(lang, `section.${key}`)}. ${translate(lang, 'mock.note')}`,
+        section: key
+      }];
+    });
+    return questions.slice(0, count);
+  },
+
+  // A fixed reading of the Bhattiprolu casket inscription, whatever the photo
+  async readInscription(imageDataUrl, lang, scheme) {
+    const note = translate(lang, 'mock.note');
+    return {
+      script: 'Bhattiprolu Brahmi',
+      scriptConfidence: 'high',
+      language: 'Prakrit',
+      period: 'c. 3rd–2nd century BCE',
+      periodConfidence: 'medium',
+      scheme,
+      lines: [
+        { original: '𑀓𑀼𑀭𑀧𑀺𑀢𑀼𑀦𑁄 𑀘', transliteration: scheme === 'IAST' ? 'kurapituno ca' : 'kurapitunō ca', translation: `Of Kura's father and… — ${note}`, confidence: 'medium' },
+        { original: '𑀫𑀚𑀼𑀲𑀁 [?]', transliteration: 'majusaṁ [?]', translation: `…the casket… — ${note}`, confidence: 'low' },
+      ],
+      translation: `The casket of Kura's father… — ${note}`,
+      notes: note,
+    };
+  },
+
+  // Silence roughly as long as the text would take to read, so the audio-guide fallback can be exercised offline
+  async translateVerse(verse, language, lang) {
+    const fixture = POET_FIXTURES.find(poet => poet.famousVerse === verse);
+    return {
+      transliteration: fixture?.verseTransliteration || romanize(verse),
+      translation: lang === 'en' && fixture ? fixture.verseTranslation : translate(lang, 'mock.note'),
+    };
+  },
+
+  async synthesizeSpeech(text) {
+    return silentWavDataUrl(Math.max(1, text.length / 15));
+  },
+
+  async *chat(message, history, lang, place) {
+    const about = place ? ` about ${place.name}` : '';
+    const photos = message.attachments?.length ? ` [${message.attachments.length} photo(s)]` : '';
+    yield* words(`(${Math.floor(history.length / 2) + 1}) "${message.text}"${photos}${about} — ${translate(lang, 'mock.note')}`);
+  }
+};
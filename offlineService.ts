@@ -0,0 +1,114 @@
+import { libraryStore } from './libraryStore';
+import { PlaceService } from './placeService';
+import { abortError } from './retry';
+import { Language, OfflinePlace, WikiImage } from './types';
+
+const places = libraryStore<OfflinePlace>('offline');
+
+// Cache Storage shared with the service worker (public/sw.js), which serves images from it when the network is gone
+const OFFLINE_IMAGES = 'itihaasa-offline-images';
+// Images kept per place; each at the bounded thumbnail width Wikipedia is asked for (see wikipediaService.ts)
+const IMAGES_PER_PLACE = 12;
+
+const normalize = (placeName: string) => placeName.trim().toLowerCase();
+
+export interface DownloadProgress {
+  done: number;
+  total: number;
+  placeName: string;
+}
+
+// The three languages a download always offers: English, Telugu and Hindi
+const OFFLINE_LANGUAGES: Language[] = ['en', 'te', 'hi'];
+
+/** The languages a download covers unless the user picks others: English, Telugu, Hindi and the current one. */
+export const defaultOfflineLanguages = (lang: Language): Language[] => [...new Set<Language>([...OFFLINE_LANGUAGES, lang])];
+
+// Stores each image's thumbnail under its own URL and under the full-size one, so the gallery and its lightbox both
+// work offline without keeping full-resolution files. Returns the URLs stored.
+const storeImages = async (images: WikiImage[], signal?: AbortSignal): Promise<string[]> => {
+  if (typeof caches === 'undefined') return [];
+  const cache = await caches.open(OFFLINE_IMAGES);
+  const stored: string[] = [];
+  for (const image of images.slice(0, IMAGES_PER_PLACE)) {
+    if (signal?.aborted) throw abortError();
+    const source = image.thumbUrl || image.url;
+    try {
+      const response = await fetch(source, { mode: 'cors', credentials: 'omit', signal });
+      if (!response.ok) continue;
+      if (image.url !== source) await cache.put(image.url, response.clone());
+      await cache.put(source, response);
+      stored.push(...new Set([source, image.url]));
+    } catch (error) {
+      if (signal?.aborted) throw abortError();
+      console.warn('Failed to store image for offline use', source, error);
+    }
+  }
+  return stored;
+};
+
+// Places downloaded for field visits: Wikipedia data and generated content go into the regular cache (which the app
+// already falls back to offline), images into Cache Storage, and a record here notes what was downloaded.
+export const OfflineService = {
+  /**
+   * Downloads a place in each of `langs`: its Wikipedia data, generated content and images. Content already cached
+   * is kept, so retrying after a failure only generates what is missing.
+   */
+  async downloadPlace(placeName: string, langs: Language[], onProgress?: (progress: DownloadProgress) => void, signal?: AbortSignal): Promise<OfflinePlace> {
+    // Ask the browser not to evict the downloads under storage pressure; it may decline
+    await navigator.storage?.persist?.().catch(() => false);
+    const total = langs.length + 1;
+    onProgress?.({ done: 0, total, placeName });
+    let images: WikiImage[] = [];
+    for (const [i, lang] of langs.entries()) {
+      const details = await PlaceService.getDetails(placeName, lang, signal);
+      const failed = Object.keys(details.sectionErrors || {});
+      if (failed.length) throw new Error(`Could not generate ${failed.join(', ')} for ${placeName} (${lang})`);
+      images = details.images;
+      onProgress?.({ done: i + 1, total, placeName });
+    }
+    const imageUrls = await storeImages(images, signal);
+    const previous = await OfflineService.get(placeName);
+    const record: OfflinePlace = {
+      id: normalize(placeName),
+      placeName: placeName.trim(),
+      langs: [...new Set([...(previous?.langs || []), ...langs])],
+      imageUrls: [...new Set([...(previous?.imageUrls || []), ...imageUrls])],
+      downloadedAt: Date.now(),
+    };
+    await places.put(record);
+    onProgress?.({ done: total, total, placeName });
+    return record;
+  },
+
+  /** Downloads each place in turn, reporting progress across all of them. Stops at the first failure. */
+  async downloadPlaces(placeNames: string[], langs: Language[], onProgress?: (progress: DownloadProgress) => void, signal?: AbortSignal): Promise<OfflinePlace[]> {
+    const steps = langs.length + 1;
+    const total = placeNames.length * steps;
+    const downloaded: OfflinePlace[] = [];
+    for (const [i, placeName] of placeNames.entries()) {
+      downloaded.push(await OfflineService.downloadPlace(placeName, langs, progress => onProgress?.({ ...progress, done: i * steps + progress.done, total }), signal));
+    }
+    return downloaded;
+  },
+
+  /** Downloaded places, most recent first. */
+  async list(): Promise<OfflinePlace[]> {
+    return (await places.list()).sort((a, b) => b.downloadedAt - a.downloadedAt);
+  },
+
+  async get(placeName: string): Promise<OfflinePlace | undefined> {
+    return (await places.list()).find(place => place.id === normalize(placeName));
+  },
+
+  /** Forgets a download and deletes its images. Its content stays in the cache until it expires or is cleared. */
+  async remove(placeName: string): Promise<void> {
+    const record = await OfflineService.get(placeName);
+    if (!record) return;
+    if (typeof caches !== 'undefined') {
+      const cache = await caches.open(OFFLINE_IMAGES);
+      await Promise.all(record.imageUrls.map(url => cache.delete(url)));
+    }
+    await places.remove(record.id);
+  },
+};
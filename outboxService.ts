@@ -0,0 +1,112 @@
+import { libraryStore } from './libraryStore';
+import { AIService } from './aiService';
+import { PlaceService } from './placeService';
+import { ReconstructionService } from './reconstructionService';
+import { NetworkError } from './retry';
+import { ChatMessage, Language, OutboxItem, PlaceDetails, ReconstructionOptions, ReconstructionRecord, ReconstructionVersion } from './types';
+
+const items = libraryStore<OutboxItem>('outbox');
+
+/** The result of sending a queued request: the reply or reconstruction (and its saved record), or why it failed. */
+export interface OutboxDelivery {
+  item: OutboxItem;
+  reply?: string;
+  version?: ReconstructionVersion;
+  record?: ReconstructionRecord;
+  error?: unknown;
+}
+
+type Listener = (delivery?: OutboxDelivery) => void;
+const listeners = new Set<Listener>();
+const notify = (delivery?: OutboxDelivery) => listeners.forEach(listener => listener(delivery));
+
+let flushing: Promise<OutboxDelivery[]> | null = null;
+
+/**
+ * Whether a request failed because the server could not be reached, rather than because of the request itself or a
+ * bug, so it is worth keeping for later.
+ */
+export const isOfflineError = (error: unknown) => error instanceof NetworkError;
+
+// The place a queued question was asked about, from whatever is cached for it, so the answer stays grounded
+const loadPlace = async (placeName: string, lang: Language): Promise<PlaceDetails | null> => {
+  try {
+    const [base, cached] = await Promise.all([PlaceService.getBase(placeName, lang), PlaceService.getCachedContent(placeName, lang)]);
+    return { ...base, content: cached?.content, citations: cached?.citations };
+  } catch {
+    return null;
+  }
+};
+
+const deliver = async (item: OutboxItem): Promise<OutboxDelivery> => {
+  if (item.kind === 'chat') {
+    const place = item.placeName ? await loadPlace(item.placeName, item.lang) : null;
+    let reply = '';
+    for await (const chunk of AIService.chat(item.message, item.history, item.lang, place)) reply += chunk;
+    return { item, reply };
+  }
+  const result = await AIService.reconstructMonument(item.imageDataUrl, item.context, item.options);
+  if (!result.imageUrl) throw new Error('No image returned');
+  const version: ReconstructionVersion = { ...result, id: item.id, context: item.context, options: item.options, createdAt: Date.now() };
+  // Kept for the place straight away, since the user may have moved on by the time it arrives
+  const record = item.placeName ? await ReconstructionService.save(version, item.placeName, item.imageDataUrl) : undefined;
+  return { item, version, record };
+};
+
+// Chat questions and reconstructions asked for without a network, kept on the device and sent in order once it
+// is back. Requests that fail for another reason are dropped and reported, so one bad request cannot block the rest.
+export const OutboxService = {
+  /** Waiting requests, oldest first. */
+  async list(): Promise<OutboxItem[]> {
+    return (await items.list()).sort((a, b) => a.createdAt - b.createdAt);
+  },
+
+  async queueChat(message: ChatMessage, history: ChatMessage[], lang: Language, placeName?: string): Promise<OutboxItem> {
+    const item: OutboxItem = { id: crypto.randomUUID(), createdAt: Date.now(), kind: 'chat', message, history, lang, placeName };
+    await items.put(item);
+    notify();
+    return item;
+  },
+
+  async queueReconstruction(placeName: string | undefined, imageDataUrl: string, context: string, options: ReconstructionOptions): Promise<OutboxItem> {
+    const item: OutboxItem = { id: crypto.randomUUID(), createdAt: Date.now(), kind: 'reconstruction', placeName: placeName?.trim(), imageDataUrl, context, options };
+    await items.put(item);
+    notify();
+    return item;
+  },
+
+  /**
+   * Sends every waiting request, stopping if the connection drops again. Listeners get each delivery as it
+   * happens; the promise resolves with all of them. Calls made while a flush is running join it.
+   */
+  flush(): Promise<OutboxDelivery[]> {
+    flushing ??= (async () => {
+      const deliveries: OutboxDelivery[] = [];
+      try {
+        for (const item of await OutboxService.list()) {
+          let delivery: OutboxDelivery;
+          try {
+            delivery = await deliver(item);
+          } catch (error) {
+            if (isOfflineError(error)) break;
+            console.error('Failed to send queued request', error);
+            delivery = { item, error };
+          }
+          await items.remove(item.id);
+          deliveries.push(delivery);
+          notify(delivery);
+        }
+      } finally {
+        flushing = null;
+      }
+      return deliveries;
+    })();
+    return flushing;
+  },
+
+  /** Calls `listener` whenever the outbox changes, with the delivery when a request was sent. Returns an unsubscribe. */
+  subscribe(listener: Listener): () => void {
+    listeners.add(listener);
+    return () => listeners.delete(listener);
+  },
+};
@@ -0,0 +1,117 @@
+import { WikipediaService } from './wikipediaService';
+import { AIService } from './aiService';
+import { CacheService, CacheKeys, CacheTTL } from './cacheService';
+import { missingSections, validateContent } from './heritageValidation';
+import { HeritageCitations, HeritageContent, Language, PlaceDetails } from './types';
+
+export type GeneratedContent = Pick<PlaceDetails, 'content' | 'citations' | 'sectionErrors'>;
+
+export interface StreamContentOptions {
+  signal?: AbortSignal;
+  /** Content to keep; only the sections missing from it are generated. */
+  existing?: GeneratedContent;
+  /** Stale content to show for sections that fail to generate. */
+  fallback?: GeneratedContent;
+}
+
+// The Wikipedia + Gemini pipeline behind a place page, with every step going through the cache.
+export const PlaceService = {
+  /**
+   * Wikipedia data for a place (article sections, infobox, images, coordinates), without generated content.
+   * For languages other than English the native-language article is fetched through interlanguage links, and its
+   * sections are listed first so generation is grounded in native sources.
+   */
+  async getBase(name: string, lang: Language): Promise<PlaceDetails> {
+    const article = await CacheService.getOrLoad(CacheKeys.article(name, 'en'), CacheTTL.article, () => WikipediaService.getArticle(name, 'en'));
+    const nativeTitle = lang !== 'en' ? article.langlinks[lang] : undefined;
+    const native = nativeTitle
+      ? await CacheService.getOrLoad(CacheKeys.article(name, lang), CacheTTL.article, () => WikipediaService.getArticle(nativeTitle, lang)).catch(() => undefined)
+      : undefined;
+    const images = await CacheService.getOrLoad(CacheKeys.images(name), CacheTTL.images, () => WikipediaService.getPlaceImages(name));
+    const infobox = article.infobox || native?.infobox;
+    const coords = await CacheService.getOrLoad(CacheKeys.coords(name), CacheTTL.geo, () => WikipediaService.getCoordinates(name))
+      .catch(() => undefined) || infobox?.coordinates;
+
+    return {
+      id: name,
+      name,
+      summary: article.sections[0]?.text || '',
+      source: article.source,
+      passages: [...(native?.sections || []), ...article.sections],
+      infobox,
+      coords,
+      images
+    };
+  },
+
+  /**
+   * Previously generated content for a place, and whether it is still within its TTL.
+   * Sections that no longer pass validation are dropped so they get regenerated.
+   */
+  async getCachedContent(name: string, lang: Language): Promise<(GeneratedContent & { fresh: boolean }) | null> {
+    const stored = await CacheService.get<Partial<HeritageContent>>(CacheKeys.content(name, lang));
+    if (!stored) return null;
+    const content = validateContent(stored.value);
+    const citations = await CacheService.get<HeritageCitations>(CacheKeys.citations(name, lang));
+    return {
+      content,
+      citations: citations?.value,
+      fresh: Date.now() - stored.storedAt < CacheTTL.content
+    };
+  },
+
+  /**
+   * Generates content section by section, yielding the accumulated result after each one.
+   * Sections already in `existing` are kept and not regenerated. A section that fails falls back
+   * to its `fallback` (stale) value when there is one, and is otherwise recorded in `sectionErrors`.
+   * Whatever was generated is cached, even when the stream is cancelled part way through.
+   */
+  async *streamContent(place: PlaceDetails, lang: Language, options: StreamContentOptions = {}): AsyncGenerator<GeneratedContent> {
+    const { signal, existing, fallback } = options;
+    let content: Partial<HeritageContent> = { ...existing?.content };
+    let citations: HeritageCitations = { ...existing?.citations };
+    let sectionErrors: GeneratedContent['sectionErrors'] = {};
+    // Generated and previously cached sections, excluding stale fallbacks, which must not be re-cached as fresh
+    let toCache = { content, citations };
+    let changed = false;
+    try {
+      const only = missingSections(content);
+      for await (const section of AIService.streamStructuredContent(place.name, place.passages || [], lang, { signal, only })) {
+        const { key } = section;
+        if ('error' in section) {
+          const stale = fallback?.content?.[key];
+          if (stale === undefined) sectionErrors = { ...sectionErrors, [key]: section.error };
+          else {
+            content = { ...content, [key]: stale };
+            const staleClaims = key !== 'poets' && fallback?.citations?.[key];
+            if (staleClaims) citations = { ...citations, [key]: staleClaims };
+          }
+        } else {
+          content = { ...content, [key]: section.value };
+          if (section.claims && key !== 'poets') citations = { ...citations, [key]: section.claims };
+          toCache = {
+            content: { ...toCache.content, [key]: section.value },
+            citations: section.claims && key !== 'poets' ? { ...toCache.citations, [key]: section.claims } : toCache.citations
+          };
+          changed = true;
+        }
+        yield { content, citations, sectionErrors };
+      }
+    } finally {
+      if (changed) {
+        await CacheService.set(CacheKeys.content(place.name, lang), toCache.content);
+        await CacheService.set(CacheKeys.citations(place.name, lang), toCache.citations);
+      }
+    }
+  },
+
+  /** A fully generated place, waiting for every section. Use `streamContent` for interactive pages. */
+  async getDetails(name: string, lang: Language, signal?: AbortSignal): Promise<PlaceDetails> {
+    const base = await PlaceService.getBase(name, lang);
+    const cached = await PlaceService.getCachedContent(name, lang);
+    let generated: GeneratedContent = cached || {};
+    const options = cached?.fresh ? { signal, existing: cached } : { signal, fallback: cached || undefined };
+    for await (const update of PlaceService.streamContent(base, lang, options)) generated = update;
+    return { ...base, content: generated.content, citations: generated.citations, sectionErrors: generated.sectionErrors };
+  }
+};
@@ -0,0 +1,60 @@
+import { editDistance, searchKey } from './transliteration';
+
+// Well-known poets of the region, so the names generated for them are recognised however they are spelled
+// ("Nannayya", "Nannaya Bhattaraka", "నన్నయ") and shown the same way everywhere. Poets not listed here still get
+// profiles, identified by their name alone.
+
+export interface KnownPoet {
+  id: string;
+  name: string;
+  /** Other spellings, titles and native-script names. */
+  aliases: string[];
+  period: string;
+  language: string;
+  works: string[];
+}
+
+export const POET_ROSTER: KnownPoet[] = [
+  { id: 'hala', name: 'Hala', aliases: ['Satavahana Hala', 'Hala Satavahana', 'హాలుడు', 'हाल'], period: '1st century', language: 'Maharashtri Prakrit', works: ['Gaha Sattasai'] },
+  { id: 'nagarjuna', name: 'Nagarjuna', aliases: ['Acharya Nagarjuna', 'ఆచార్య నాగార్జున', 'नागार्जुन'], period: '2nd century', language: 'Sanskrit', works: ['Mulamadhyamakakarika', 'Ratnavali', 'Suhrllekha'] },
+  { id: 'nannaya', name: 'Nannaya', aliases: ['Nannayya', 'Nannaya Bhattaraka', 'Nannaya Bhattu', 'Adikavi Nannaya', 'నన్నయ', 'నన్నయ్య', 'नन्नय'], period: '11th century', language: 'Telugu', works: ['Andhra Mahabharatamu', 'Andhra Shabda Chintamani'] },
+  { id: 'tikkana', name: 'Tikkana', aliases: ['Tikkana Somayaji', 'Tikkanna', 'తిక్కన', 'तिक्कन'], period: '13th century', language: 'Telugu', works: ['Andhra Mahabharatamu', 'Nirvachanottara Ramayanamu'] },
+  { id: 'errana', name: 'Errana', aliases: ['Errapragada', 'Yerrapragada', 'Errapreggada', 'ఎర్రన', 'ఎఱ్ఱన', 'ఎఱ్ఱాప్రగడ'], period: '14th century', language: 'Telugu', works: ['Andhra Mahabharatamu', 'Harivamsamu', 'Nrisimha Puranamu'] },
+  { id: 'srinatha', name: 'Srinatha', aliases: ['Srinathudu', 'Kavi Sarvabhauma Srinatha', 'శ్రీనాథుడు', 'श्रीनाथ'], period: '1365–1441', language: 'Telugu', works: ['Sringara Naishadhamu', 'Kasi Khandamu', 'Bhimeswara Puranamu', 'Palnati Vira Charitra'] },
+  { id: 'pothana', name: 'Pothana', aliases: ['Bammera Pothana', 'Potana', 'Pothanamatya', 'పోతన', 'బమ్మెర పోతన', 'पोतना'], period: '15th century', language: 'Telugu', works: ['Andhra Maha Bhagavatamu', 'Bhogini Dandakamu', 'Virabhadra Vijayamu'] },
+  { id: 'annamacharya', name: 'Annamacharya', aliases: ['Annamayya', 'Tallapaka Annamacharya', 'అన్నమయ్య', 'అన్నమాచార్యులు', 'अन्नमाचार्य'], period: '1408–1503', language: 'Telugu', works: ['Sankirtanas', 'Sringara Manjari'] },
+  { id: 'krishnadevaraya', name: 'Krishnadevaraya', aliases: ['Sri Krishnadevaraya', 'Krishna Deva Raya', 'శ్రీకృష్ణదేవరాయలు', 'కృష్ణదేవరాయలు', 'कृष्णदेवराय'], period: '1471–1529', language: 'Telugu', works: ['Amuktamalyada', 'Jambavati Kalyanamu'] },
+  { id: 'peddana', name: 'Allasani Peddana', aliases: ['Peddana', 'Andhra Kavita Pitamaha', 'అల్లసాని పెద్దన', 'పెద్దన'], period: '16th century', language: 'Telugu', works: ['Manucharitramu'] },
+  { id: 'tenali-ramakrishna', name: 'Tenali Ramakrishna', aliases: ['Tenali Rama', 'Tenali Raman', 'Tenali Ramalinga', 'తెనాలి రామకృష్ణ', 'तेनाली रामकृष्ण'], period: '16th century', language: 'Telugu', works: ['Panduranga Mahatmyamu', 'Udbhataradhya Charitramu'] },
+  { id: 'molla', name: 'Molla', aliases: ['Atukuri Molla', 'Mollamamba', 'మొల్ల', 'ఆతుకూరి మొల్ల'], period: '16th century', language: 'Telugu', works: ['Molla Ramayanamu'] },
+  { id: 'vemana', name: 'Vemana', aliases: ['Yogi Vemana', 'Vemanna', 'వేమన', 'వేమన్న', 'वेमना'], period: '17th century', language: 'Telugu', works: ['Vemana Satakamu'] },
+  { id: 'kshetrayya', name: 'Kshetrayya', aliases: ['Kshetragna', 'Movva Varadayya', 'క్షేత్రయ్య'], period: '17th century', language: 'Telugu', works: ['Padams'] },
+  { id: 'ramadasu', name: 'Bhadrachala Ramadasu', aliases: ['Ramadasu', 'Kancharla Gopanna', 'Bhakta Ramadas', 'భద్రాచల రామదాసు', 'కంచర్ల గోపన్న'], period: '17th century', language: 'Telugu', works: ['Ramadasu Keertanalu', 'Dasarathi Satakamu'] },
+  { id: 'tyagaraja', name: 'Tyagaraja', aliases: ['Thyagaraja', 'Saint Tyagaraja', 'త్యాగరాజు', 'त्यागराज', 'தியாகராஜர்'], period: '1767–1847', language: 'Telugu', works: ['Pancharatna Kritis', 'Prahlada Bhakti Vijayam', 'Nauka Charitram'] },
+  { id: 'gurajada', name: 'Gurajada Apparao', aliases: ['Gurajada Appa Rao', 'Gurajada', 'గురజాడ అప్పారావు', 'గురజాడ'], period: '1862–1915', language: 'Telugu', works: ['Kanyasulkam', 'Mutyala Saralu'] },
+];
+
+const INDEX = POET_ROSTER.map(poet => ({ poet, keys: [poet.name, ...poet.aliases].map(searchKey) }));
+
+// Typos allowed for a name of this many characters
+const tolerance = (length: number) => length < 5 ? 0 : length < 9 ? 1 : 2;
+
+/** Whether two names, in any script, are the same name allowing for a typo or two. */
+export const sameName = (a: string, b: string) => {
+  const [x, y] = [searchKey(a), searchKey(b)];
+  return !!x && (x === y || editDistance(x, y, tolerance(x.length)) <= tolerance(x.length));
+};
+
+/**
+ * The roster poet a generated name refers to. Besides spelling variants, a name that carries a listed name as whole
+ * words ("Mahakavi Bammera Pothanamatya" has "Pothanamatya") is taken to be that poet.
+ */
+export const findKnownPoet = (name: string): KnownPoet | undefined => {
+  const key = searchKey(name);
+  if (!key) return undefined;
+  const max = tolerance(key.length);
+  const close = INDEX.find(entry => entry.keys.some(k => k === key || editDistance(key, k, max) <= max));
+  if (close) return close.poet;
+  const padded = ` ${key} `;
+  return INDEX.find(entry => entry.keys.some(k => k.length >= 5 && padded.includes(` ${k} `)))?.poet;
+};
@@ -0,0 +1,109 @@
+import { libraryStore } from './libraryStore';
+import { AIService } from './aiService';
+import { findKnownPoet, KnownPoet, POET_ROSTER, sameName } from './poetRoster';
+import { findDates } from './timeline';
+import { romanize, searchKey } from './transliteration';
+import { Language, Poet, PoetProfile } from './types';
+
+const profiles = libraryStore<PoetProfile>('poets');
+
+// Ids of poets outside the roster come from their romanised name, so every script and spelling of it agrees
+const idFromName = (name: string) => searchKey(name).replace(/ /g, '-');
+
+const fromRoster = ({ id, name, aliases, period, language, works }: KnownPoet): PoetProfile =>
+  ({ id, name, aliases, period, language, works, contributions: {}, verses: [], places: [], updatedAt: 0 });
+
+// Appends `value` unless the list already has it, in any spelling
+const addUnique = (list: string[], value: string) =>
+  !value.trim() || list.some(item => searchKey(item) === searchKey(value)) ? list : [...list, value.trim()];
+
+const firstYear = (period: string) => findDates(period)[0]?.start ?? Infinity;
+
+const resolveId = (name: string, stored: PoetProfile[]) =>
+  findKnownPoet(name)?.id
+  || stored.find(profile => [profile.name, ...profile.aliases].some(known => sameName(known, name)))?.id
+  || idFromName(name);
+
+/** Adds what a place's content says about one poet to their profile. */
+const merge = (profile: PoetProfile, poet: Poet, placeName: string, lang: Language): PoetProfile => {
+  const verses = [...profile.verses];
+  const verse = poet.famousVerse.trim();
+  const existing = verses.findIndex(v => searchKey(v.original) === searchKey(verse));
+  if (verse && existing < 0) {
+    verses.push({
+      original: verse,
+      transliteration: poet.verseTransliteration || romanize(verse),
+      translations: poet.verseTranslation ? { [lang]: poet.verseTranslation } : {},
+      placeName,
+      source: poet.source,
+    });
+  } else if (existing >= 0 && poet.verseTranslation && !verses[existing].translations[lang]) {
+    verses[existing] = { ...verses[existing], translations: { ...verses[existing].translations, [lang]: poet.verseTranslation } };
+  }
+  return {
+    ...profile,
+    aliases: sameName(poet.name, profile.name) ? profile.aliases : addUnique(profile.aliases, poet.name),
+    period: profile.period || poet.period,
+    language: profile.language || poet.language,
+    works: poet.works.reduce(addUnique, profile.works),
+    contributions: { ...profile.contributions, [lang]: profile.contributions[lang] || poet.contribution },
+    verses,
+    places: addUnique(profile.places, placeName),
+    updatedAt: Date.now(),
+  };
+};
+
+// Poets as one knowledge base: each generated poet is matched to a single profile, by the roster of well-known poets
+// or by name, and the profile collects their works, verses and places across every visit.
+export const PoetService = {
+  /** The name a poet is shown under, whatever spelling the content used. */
+  displayName(name: string): string {
+    return findKnownPoet(name)?.name || name;
+  },
+
+  /** The id of the profile a poet named in generated content belongs to. */
+  async idFor(name: string): Promise<string> {
+    return resolveId(name, await profiles.list());
+  },
+
+  /** Records the poets a place's content (generated in `lang`) mentions against their profiles. */
+  async record(placeName: string, lang: Language, poets: Poet[]): Promise<void> {
+    const stored = await profiles.list();
+    const changed = new Map<string, PoetProfile>();
+    for (const poet of poets) {
+      if (!poet.name.trim()) continue;
+      const id = resolveId(poet.name, stored);
+      const known = findKnownPoet(poet.name);
+      const current = changed.get(id) || stored.find(profile => profile.id === id)
+        || fromRoster(known || { id, name: poet.name.trim(), aliases: [], period: '', language: '', works: [] });
+      changed.set(id, merge(current, poet, placeName, lang));
+    }
+    for (const profile of changed.values()) await profiles.put(profile);
+  },
+
+  /** Every poet: the roster, whether met yet or not, and any others met in generated content. Oldest first. */
+  async list(): Promise<PoetProfile[]> {
+    const stored = await profiles.list();
+    const unmet = POET_ROSTER.filter(known => !stored.some(profile => profile.id === known.id)).map(fromRoster);
+    return [...stored, ...unmet].sort((a, b) => firstYear(a.period) - firstYear(b.period) || a.name.localeCompare(b.name));
+  },
+
+  async get(id: string): Promise<PoetProfile | undefined> {
+    const stored = (await profiles.list()).find(profile => profile.id === id);
+    const known = POET_ROSTER.find(poet => poet.id === id);
+    return stored || (known && fromRoster(known));
+  },
+
+  /** Translates a profile's verse into `lang` when no content in that language has, and keeps the translation. */
+  async translateVerse(profile: PoetProfile, index: number, lang: Language, signal?: AbortSignal): Promise<PoetProfile> {
+    const verse = profile.verses[index];
+    if (verse.translations[lang]) return profile;
+    const { transliteration, translation } = await AIService.translateVerse(verse.original, profile.language, lang, signal);
+    const translated = { ...verse, transliteration: verse.transliteration || transliteration, translations: { ...verse.translations, [lang]: translation } };
+    // Re-read so a place recorded meanwhile is not overwritten
+    const latest = (await profiles.list()).find(p => p.id === profile.id) || profile;
+    const updated = { ...latest, verses: latest.verses.map(v => v.original === verse.original ? translated : v) };
+    await profiles.put(updated);
+    return updated;
+  },
+};
@@ -0,0 +1,63 @@
+import { libraryStore } from './libraryStore';
+import { PASS_MARK } from './quizService';
+import { Learner, QuizAttempt } from './types';
+
+const store = libraryStore<Learner>('learners');
+
+// Which learner is using the device; remembered across visits
+const CURRENT_LEARNER_KEY = 'itihaasa-learner';
+
+const samePlace = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Learners on this device and their quiz results. Nothing leaves the device.
+export const ProgressService = {
+  async listLearners(): Promise<Learner[]> {
+    return (await store.list()).sort((a, b) => a.createdAt - b.createdAt);
+  },
+
+  async addLearner(name: string): Promise<Learner> {
+    const learner: Learner = { id: crypto.randomUUID(), name: name.trim(), createdAt: Date.now(), attempts: [] };
+    await store.put(learner);
+    return learner;
+  },
+
+  async removeLearner(id: string): Promise<void> {
+    await store.remove(id);
+    if (ProgressService.getCurrentId() === id) ProgressService.setCurrentId(null);
+  },
+
+  getCurrentId(): string | null {
+    try {
+      return localStorage.getItem(CURRENT_LEARNER_KEY);
+    } catch {
+      return null;
+    }
+  },
+
+  setCurrentId(id: string | null) {
+    try {
+      if (id) localStorage.setItem(CURRENT_LEARNER_KEY, id);
+      else localStorage.removeItem(CURRENT_LEARNER_KEY);
+    } catch {
+      // Storage disabled: the choice just is not remembered
+    }
+  },
+
+  async recordAttempt(learner: Learner, attempt: QuizAttempt): Promise<Learner> {
+    const updated = { ...learner, attempts: [...learner.attempts, attempt] };
+    await store.put(updated);
+    return updated;
+  },
+
+  /** The learner's best result for a place as a fraction, or undefined if they have not taken its quiz. */
+  bestScore(learner: Learner | null | undefined, placeName: string): number | undefined {
+    const scores = (learner?.attempts || [])
+      .filter(attempt => samePlace(attempt.placeName, placeName) && attempt.total > 0)
+      .map(attempt => attempt.score / attempt.total);
+    return scores.length ? Math.max(...scores) : undefined;
+  },
+
+  hasPassed(learner: Learner | null | undefined, placeName: string): boolean {
+    return (ProgressService.bestScore(learner, placeName) ?? 0) >= PASS_MARK;
+  },
+};
@@ -0,0 +1,103 @@
+// Service worker for field mode: keeps the app itself, its CDN libraries and fonts, and images available without a
+// network. Place data and generated content are not handled here; they live in IndexedDB (cacheService.ts), which the
+// app already falls back to offline. Places downloaded for offline use put their images in OFFLINE_IMAGES (see
+// offlineService.ts), which is never trimmed.
+
+const VERSION = 'v1';
+const SHELL = `itihaasa-shell-${VERSION}`;
+const RUNTIME = `itihaasa-runtime-${VERSION}`;
+const IMAGES = `itihaasa-images-${VERSION}`;
+// Shared with offlineService.ts, and not versioned, so a new service worker keeps downloads
+const OFFLINE_IMAGES = 'itihaasa-offline-images';
+
+const SHELL_URLS = ['/', '/manifest.webmanifest', '/icon.svg'];
+// Libraries and fonts from the import map and index.html; their URLs are versioned, so a cached copy stays good
+const CDN_HOSTS = ['esm.sh', 'cdn.tailwindcss.com', 'fonts.googleapis.com', 'fonts.gstatic.com'];
+// Images seen while browsing, kept up to this many (oldest dropped first)
+const MAX_IMAGES = 300;
+// How long to wait for an image over a poor connection before showing the cached copy
+const IMAGE_TIMEOUT_MS = 4000;
+// Served for a page when the network is gone and the shell never made it into the cache
+const OFFLINE_PAGE = '<!doctype html><html lang="en"><meta charset="utf-8"><meta name="viewport" content="width=device-width, initial-scale=1"><title>ITIHAASA</title><p style="font-family: sans-serif; text-align: center; margin-top: 40vh">You are offline. Open ITIHAASA once with a connection to use it without one.</p></html>';
+
+self.addEventListener('install', event => {
+  event.waitUntil(caches.open(SHELL).then(cache => cache.addAll(SHELL_URLS)).then(() => self.skipWaiting()));
+});
+
+self.addEventListener('activate', event => {
+  const keep = [SHELL, RUNTIME, IMAGES, OFFLINE_IMAGES];
+  event.waitUntil(
+    caches.keys()
+      .then(names => Promise.all(names.filter(name => name.startsWith('itihaasa-') && !keep.includes(name)).map(name => caches.delete(name))))
+      .then(() => self.clients.claim())
+  );
+});
+
+const trim = async (cacheName, max) => {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  await Promise.all(keys.slice(0, Math.max(0, keys.length - max)).map(key => cache.delete(key)));
+};
+
+// Fetches the request, keeping a copy of the response in `cacheName` for when the network is gone. Cross-origin
+// images are asked for with CORS (Wikimedia and the tile servers allow it): an opaque copy would count against the
+// storage quota many times over its real size, so those are not kept.
+const fetchAndKeep = (event, cacheName, max) => {
+  const { request } = event;
+  const response = request.mode === 'no-cors'
+    ? fetch(new Request(request.url, { mode: 'cors', credentials: 'omit' })).catch(() => fetch(request))
+    : fetch(request);
+  event.waitUntil(response.then(async res => {
+    if (!res.ok) return;
+    await (await caches.open(cacheName)).put(request, res.clone());
+    if (max) await trim(cacheName, max);
+  }).catch(() => undefined));
+  return response;
+};
+
+// The network when it answers, otherwise (or after `timeoutMs`) whatever copy is cached
+const networkFirst = async (event, cacheName, { timeoutMs, max } = {}) => {
+  const fromNetwork = fetchAndKeep(event, cacheName, max);
+  const timeout = timeoutMs && new Promise(resolve => setTimeout(resolve, timeoutMs));
+  try {
+    const response = await (timeout ? Promise.race([fromNetwork, timeout]) : fromNetwork);
+    if (response) return response;
+  } catch {
+    // Offline: fall through to the cache
+  }
+  return (await caches.match(event.request)) || fromNetwork;
+};
+
+// The cached copy at once, refreshed in the background for next time
+const staleWhileRevalidate = async (event, cacheName) => {
+  const fromNetwork = fetchAndKeep(event, cacheName);
+  return (await caches.match(event.request)) || fromNetwork;
+};
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const url = new URL(request.url);
+
+  // Every route is the same single-page app, so the latest page is kept as the shell and served for any of them offline
+  if (request.mode === 'navigate') {
+    const response = fetch(request);
+    event.waitUntil(response.then(async res => {
+      if (res.ok) await (await caches.open(SHELL)).put('/', res.clone());
+    }).catch(() => undefined));
+    event.respondWith(response.catch(async () =>
+      (await caches.match('/')) || new Response(OFFLINE_PAGE, { status: 503, headers: { 'Content-Type': 'text/html; charset=utf-8' } })));
+    return;
+  }
+
+  // API responses are cached by the app itself, where it can tell fresh from stale
+  if (url.origin === self.location.origin && url.pathname.startsWith('/api/')) return;
+
+  if (CDN_HOSTS.includes(url.hostname)) {
+    event.respondWith(staleWhileRevalidate(event, RUNTIME));
+  } else if (request.destination === 'image' && url.origin !== self.location.origin) {
+    event.respondWith(networkFirst(event, IMAGES, { timeoutMs: IMAGE_TIMEOUT_MS, max: MAX_IMAGES }));
+  } else if (url.origin === self.location.origin) {
+    event.respondWith(networkFirst(event, RUNTIME));
+  }
+});
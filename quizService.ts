@@ -0,0 +1,92 @@
+import { AIService } from './aiService';
+import { CacheService, CacheKeys, CacheTTL } from './cacheService';
+import { translate } from './i18n';
+import { Language, PlaceDetails, QuizAnswer, QuizChoiceQuestion, QuizMatchQuestion, QuizQuestion, WikiImage } from './types';
+
+/** Share of questions a learner must get right to complete a stop on a learning path. */
+export const PASS_MARK = 0.6;
+
+const CHOICE_QUESTIONS = 6;
+const IMAGE_QUESTIONS = 2;
+const MATCH_PAIRS = 4;
+
+export const shuffle = <T>(items: T[]): T[] => {
+  const copy = [...items];
+  for (let i = copy.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [copy[i], copy[j]] = [copy[j], copy[i]];
+  }
+  return copy;
+};
+
+// Shuffled so the right answer is not always in the position the model (or mock) put it
+const shuffleOptions = (question: QuizChoiceQuestion): QuizChoiceQuestion => {
+  const options = shuffle(question.options.map((text, i) => ({ text, correct: i === question.answer })));
+  return { ...question, options: options.map(o => o.text), answer: options.findIndex(o => o.correct) };
+};
+
+const poetQuestion = (place: PlaceDetails, lang: Language): QuizMatchQuestion | null => {
+  // Poets sharing a period would make the match ambiguous, so keep one per period
+  const seen = new Set<string>();
+  const pairs = (place.content?.poets || [])
+    .map(poet => ({ item: poet.name.trim(), match: poet.period.trim() }))
+    .filter(pair => pair.item && pair.match && !seen.has(pair.match) && seen.add(pair.match))
+    .slice(0, MATCH_PAIRS);
+  if (pairs.length < 2) return null;
+  return {
+    kind: 'match',
+    prompt: translate(lang, 'quiz.matchPrompt'),
+    pairs,
+    explanation: pairs.map(pair => `${pair.item}: ${pair.match}`).join(' • '),
+  };
+};
+
+const captionOf = (image: WikiImage) => image.caption.trim();
+
+/**
+ * "Which site is this?" when other places are known (e.g. the rest of a learning path),
+ * otherwise "Which caption matches this photo?" among the place's own gallery.
+ */
+const imageQuestions = (place: PlaceDetails, lang: Language, otherPlaces: string[]): QuizChoiceQuestion[] => {
+  const images = place.images.filter(image => captionOf(image));
+  const others = otherPlaces.filter(name => name !== place.name);
+  return shuffle(images).slice(0, IMAGE_QUESTIONS).flatMap((image): QuizChoiceQuestion[] => {
+    const explanation = translate(lang, 'quiz.imageExplanation', { caption: captionOf(image), place: place.name });
+    if (others.length >= 3) {
+      return [{ kind: 'image', prompt: translate(lang, 'quiz.imagePlacePrompt'), imageUrl: image.thumbUrl || image.url, options: [place.name, ...shuffle(others).slice(0, 3)], answer: 0, explanation }];
+    }
+    const distractors = shuffle(images.filter(other => other !== image).map(captionOf).filter(c => c !== captionOf(image))).slice(0, 3);
+    if (distractors.length < 2) return [];
+    return [{ kind: 'image', prompt: translate(lang, 'quiz.imageCaptionPrompt'), imageUrl: image.thumbUrl || image.url, options: [captionOf(image), ...distractors], answer: 0, explanation }];
+  });
+};
+
+// Quizzes built from a place's generated content, poets and gallery.
+export const QuizService = {
+  /**
+   * A quiz for a fully generated place: model-written questions about the content (cached with the place),
+   * a poet-to-period match, and photo identification. `otherPlaces` supplies wrong answers for "which site is this?".
+   */
+  async build(place: PlaceDetails, lang: Language, otherPlaces: string[] = [], signal?: AbortSignal): Promise<QuizQuestion[]> {
+    const hasText = Object.entries(place.content || {}).some(([key, value]) => key !== 'poets' && value);
+    const choices = hasText
+      ? await CacheService.getOrLoad(CacheKeys.quiz(place.name, lang), CacheTTL.content, () => AIService.generateQuiz(place, lang, CHOICE_QUESTIONS, signal))
+      : [];
+    const match = poetQuestion(place, lang);
+    return [
+      ...choices.map(shuffleOptions),
+      ...(match ? [match] : []),
+      ...imageQuestions(place, lang, otherPlaces).map(shuffleOptions),
+    ];
+  },
+
+  isCorrect(question: QuizQuestion, answer: QuizAnswer | undefined): boolean {
+    if (answer === undefined) return false;
+    if (question.kind === 'match') return Array.isArray(answer) && question.pairs.every((pair, i) => answer[i] === pair.match);
+    return answer === question.answer;
+  },
+
+  score(questions: QuizQuestion[], answers: (QuizAnswer | undefined)[]): number {
+    return questions.filter((question, i) => QuizService.isCorrect(question, answers[i])).length;
+  },
+};
@@ -0,0 +1,35 @@
+import { libraryStore } from './libraryStore';
+import { readImageFile } from './imageFile';
+import { ReconstructionRecord, ReconstructionVersion } from './types';
+
+const store = libraryStore<ReconstructionRecord>('reconstructions');
+
+const samePlace = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase();
+
+// Reconstructions the user has kept for places, so they survive the session and go into exported dossiers.
+export const ReconstructionService = {
+  /** Saved reconstructions, newest first; only those for `placeName` when given. */
+  async list(placeName?: string): Promise<ReconstructionRecord[]> {
+    const records = await store.list();
+    return records
+      .filter(record => !placeName || samePlace(record.placeName, placeName))
+      .sort((a, b) => b.createdAt - a.createdAt);
+  },
+
+  /** Keeps `version` for a place. The uploaded photo is stored downscaled; the reconstruction itself as generated. */
+  async save(version: ReconstructionVersion, placeName: string, originalImage: string): Promise<ReconstructionRecord> {
+    const originalImageUrl = await readImageFile(await (await fetch(originalImage)).blob(), 1024);
+    const record: ReconstructionRecord = { ...version, placeName: placeName.trim(), originalImageUrl };
+    await store.put(record);
+    return record;
+  },
+
+  /** Puts back a record from an imported dossier, keeping its id. */
+  restore(record: ReconstructionRecord): Promise<void> {
+    return store.put(record);
+  },
+
+  remove(id: string): Promise<void> {
+    return store.remove(id);
+  },
+};
@@ -0,0 +1,94 @@
+// Retry with exponential backoff for rate limits and transient failures, with AbortSignal support.
+
+export class HttpError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+/** A response that arrived but did not have the expected shape. Retried, since a second attempt usually succeeds. */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ValidationError';
+  }
+}
+
+/** `fetch` got no response at all: the device or the server is unreachable. */
+export class NetworkError extends Error {
+  constructor(message: string, public cause?: unknown) {
+    super(message);
+    this.name = 'NetworkError';
+  }
+}
+
+const RETRYABLE_STATUS = [408, 429, 500, 502, 503, 504];
+
+export const isAbortError = (error: unknown) => (error as Error)?.name === 'AbortError';
+
+export const isRetryableError = (error: unknown) => {
+  if (isAbortError(error)) return false;
+  if (error instanceof ValidationError || error instanceof NetworkError) return true;
+  const status = (error as { status?: number })?.status;
+  return typeof status === 'number' && RETRYABLE_STATUS.includes(status);
+};
+
+export const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError());
+    const timer = setTimeout(resolve, ms);
+    signal?.addEventListener('abort', () => {
+      clearTimeout(timer);
+      reject(abortError());
+    }, { once: true });
+  });
+
+export interface RetryOptions {
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  signal?: AbortSignal;
+}
+
+/**
+ * Runs `task`, retrying retryable failures with exponential backoff and jitter
+ * (1s, 2s, 4s... by default). Aborting the signal stops both the wait and further attempts.
+ */
+export const withRetry = async <T>(task: (attempt: number) => Promise<T>, options: RetryOptions = {}): Promise<T> => {
+  const { retries = 3, baseDelayMs = 1000, maxDelayMs = 16000, signal } = options;
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw abortError();
+    try {
+      return await task(attempt);
+    } catch (error) {
+      if (attempt >= retries || !isRetryableError(error)) throw error;
+      const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt) * (0.5 + Math.random() / 2);
+      console.warn(`Attempt ${attempt + 1} failed, retrying in ${Math.round(delay)}ms`, error);
+      await sleep(delay, signal);
+    }
+  }
+};
+
+/**
+ * `fetch`, with a failure to get any response rejected as a `NetworkError` (aborts stay aborts). Other errors, such as
+ * bugs in the caller, are then never mistaken for the network being down.
+ */
+export const fetchOrFail = async (input: string, init?: RequestInit): Promise<Response> => {
+  try {
+    return await fetch(input, init);
+  } catch (error) {
+    if (isAbortError(error)) throw error;
+    throw new NetworkError(`Network request to ${input} failed`, error);
+  }
+};
+
+/** `fetch` + JSON with HTTP errors surfaced as `HttpError` and transient failures retried. */
+export const fetchJson = <T = any>(url: string, signal?: AbortSignal): Promise<T> =>
+  withRetry(async () => {
+    const response = await fetchOrFail(url, { signal });
+    if (!response.ok) throw new HttpError(response.status, `${response.status} ${response.statusText} for ${url}`);
+    return response.json();
+  }, { signal });
@@ -0,0 +1,98 @@
+import { useCallback, useEffect, useState } from 'react';
+import { HERITAGE_SECTIONS } from './heritageSections';
+import { LANGUAGES } from './i18n';
+import { HeritageContent, Language } from './types';
+
+// URL <-> page state, so every page can be bookmarked, shared and reached with back/forward.
+//
+//   /                                   home
+//   /explore                            destination picker
+//   /explore/Lepakshi?lang=te#section-architecture
+//   /reconstruct/Lepakshi               reconstruction, with the place as context
+//   /compare/Lepakshi                   comparison, with the place on the left
+//   /inscriptions/Amaravati             inscription reader, saving readings against the place
+//   /learn                              learning paths and learners
+//   /learn/Ahobilam?path=vijayanagara   the quiz for a place, as a stop on a learning path
+//   /map
+//   /saved                              bookmarks, collections, notes and pinned answers
+//   /timeline                           dated events across places, against the ruling dynasties
+//   /poets                              every poet met so far, and the well-known ones
+//   /poets/pothana                      one poet's works, verses and places
+//
+// `?lang=` is omitted for English and `&chat=1` opens the chat panel over any page.
+
+export type View = 'home' | 'explore' | 'reconstruct' | 'map' | 'compare' | 'inscriptions' | 'learn' | 'saved' | 'timeline' | 'poets';
+
+export interface Route {
+  view: View;
+  lang: Language;
+  place?: string;
+  section?: keyof HeritageContent;
+  chat?: boolean;
+  /** Learning path the learn view is following. */
+  path?: string;
+  /** Poet profile the poets view is showing. */
+  poet?: string;
+}
+
+const VIEWS: View[] = ['home', 'explore', 'reconstruct', 'map', 'compare', 'inscriptions', 'learn', 'saved', 'timeline', 'poets'];
+// Views that take a place in their path
+const PLACE_VIEWS: View[] = ['explore', 'reconstruct', 'compare', 'inscriptions', 'learn'];
+
+// Wikipedia-style titles: underscores in the URL, spaces in the app
+const encodePlace = (place: string) => encodeURIComponent(place.replace(/ /g, '_'));
+const decodePlace = (segment: string) => {
+  try {
+    return decodeURIComponent(segment).replace(/_/g, ' ').trim();
+  } catch {
+    return '';
+  }
+};
+
+export const parseRoute = (location: { pathname: string; search: string; hash: string }): Route => {
+  const [first = '', ...rest] = location.pathname.split('/').filter(Boolean);
+  const view = VIEWS.find(v => v === first) || 'home';
+  const params = new URLSearchParams(location.search);
+  const lang = LANGUAGES.find(l => l === params.get('lang')) || 'en';
+  const place = PLACE_VIEWS.includes(view) && rest.length ? decodePlace(rest.join('/')) || undefined : undefined;
+  const sectionKey = location.hash.replace(/^#section-/, '');
+  const section = place ? HERITAGE_SECTIONS.find(s => s.key === sectionKey)?.key : undefined;
+  const path = view === 'learn' ? params.get('path') || undefined : undefined;
+  const poet = view === 'poets' && rest.length ? decodePlace(rest[0]) || undefined : undefined;
+  return { view, lang, place, section, chat: params.get('chat') === '1' || undefined, path, poet };
+};
+
+export const buildUrl = (route: Route) => {
+  const path = route.view === 'home' ? '/'
+    : route.view === 'poets' && route.poet ? `/poets/${encodeURIComponent(route.poet)}`
+      : `/${route.view}${route.place && PLACE_VIEWS.includes(route.view) ? `/${encodePlace(route.place)}` : ''}`;
+  const params = new URLSearchParams();
+  if (route.lang !== 'en') params.set('lang', route.lang);
+  if (route.chat) params.set('chat', '1');
+  if (route.view === 'learn' && route.path) params.set('path', route.path);
+  const query = params.toString();
+  return `${path}${query ? `?${query}` : ''}${route.place && route.section ? `#section-${route.section}` : ''}`;
+};
+
+/**
+ * The current route and a `navigate` function that updates it. Navigation pushes a history entry
+ * unless `replace` is set; back/forward are picked up through `popstate`.
+ */
+export const useRoute = () => {
+  const [route, setRoute] = useState<Route>(() => parseRoute(window.location));
+
+  useEffect(() => {
+    const onPopState = () => setRoute(parseRoute(window.location));
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  const navigate = useCallback((next: Route, { replace = false } = {}) => {
+    const url = buildUrl(next);
+    const current = `${window.location.pathname}${window.location.search}${window.location.hash}`;
+    if (url !== current) window.history[replace ? 'replaceState' : 'pushState'](null, '', url);
+    setRoute(parseRoute(new URL(url, window.location.origin)));
+  }, []);
+
+  return [route, navigate] as const;
+};
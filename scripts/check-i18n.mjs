@@ -0,0 +1,51 @@
+// Fails when a locale catalog is missing a key from locales/en.json, has keys English does not,
+// uses different {arguments}, or has a plural/select without an `other` case.
+// Usage: npm run check:i18n
+import { readFileSync, readdirSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const dir = join(dirname(fileURLToPath(import.meta.url)), '..', 'locales');
+const load = (file) => JSON.parse(readFileSync(join(dir, file), 'utf8'));
+
+// Top-level argument names, e.g. "{count, plural, one {# item} other {# items}}" -> ["count"]
+const argumentsOf = (message) => [...message.matchAll(/\{\s*([A-Za-z_]\w*)\s*[,}]/g)].map(m => m[1]).sort();
+
+const checkSyntax = (message) => {
+  let depth = 0;
+  for (const ch of message) {
+    if (ch === '{') depth++;
+    else if (ch === '}' && --depth < 0) return 'unbalanced braces';
+  }
+  if (depth !== 0) return 'unbalanced braces';
+  if (/,\s*(plural|select)\s*,/.test(message) && !/\bother\s*\{/.test(message)) return 'plural/select without an "other" case';
+  return null;
+};
+
+const reference = load('en.json');
+const problems = [];
+
+for (const file of readdirSync(dir).filter(f => f.endsWith('.json')).sort()) {
+  const locale = file.replace(/\.json$/, '');
+  const catalog = load(file);
+  for (const key of Object.keys(reference)) {
+    if (!(key in catalog)) {
+      problems.push(`${locale}: missing "${key}"`);
+      continue;
+    }
+    const syntax = checkSyntax(catalog[key]);
+    if (syntax) problems.push(`${locale}: "${key}" has ${syntax}`);
+    const expected = [...new Set(argumentsOf(reference[key]))].join(', ');
+    const actual = [...new Set(argumentsOf(catalog[key]))].join(', ');
+    if (expected !== actual) problems.push(`${locale}: "${key}" uses {${actual}} but en uses {${expected}}`);
+  }
+  for (const key of Object.keys(catalog)) {
+    if (!(key in reference)) problems.push(`${locale}: unknown key "${key}"`);
+  }
+}
+
+if (problems.length) {
+  console.error(`i18n check failed with ${problems.length} problem(s):\n  ${problems.join('\n  ')}`);
+  process.exit(1);
+}
+console.log(`i18n check passed: ${Object.keys(reference).length} keys in every locale.`);
@@ -0,0 +1,176 @@
+// Adds heritage sites from a CSV file to a region's catalog (catalog/<region>.json), creating the file if needed.
+// Rows are matched to existing sites by id, so re-importing an updated sheet updates those sites in place; empty cells
+// keep what the catalog already has.
+// Usage: npm run catalog:import -- <sites.csv> --region "Karnataka" [--resolve]
+//
+// Columns (header row required, any order): name, district, period, century, dynasty, religion, category, and
+// optionally id, asi_id, lat, lng, aliases (separated by ";") and title_<lang> for Wikipedia titles (title_en
+// defaults to the name). With --resolve, missing coordinates and other-language titles are looked up on Wikipedia
+// from the English title.
+// Each region's sheet is kept next to its catalog (catalog/<region>.csv), so edits go through the sheet and a re-import.
+// A new region file also has to be listed in CATALOGS in catalogService.ts.
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { join, dirname } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+const SCHEMA = 'itihaasa.catalog';
+// Keep in step with CATALOG_VERSION in catalogService.ts
+const VERSION = 1;
+// Upgrades a catalog from the keyed version to the next one. Empty while only version 1 exists.
+const MIGRATIONS = {};
+
+// Keep in step with Language, HeritageReligion and HeritageCategory in types.ts
+const LANGUAGES = ['en', 'te', 'hi', 'ta', 'kn', 'or', 'ur'];
+const RELIGIONS = ['hindu', 'buddhist', 'jain', 'islamic', 'christian', 'secular'];
+const CATEGORIES = ['temple', 'stupa', 'cave', 'fort', 'monastery', 'mosque', 'church', 'palace', 'archaeological'];
+
+const fail = (message) => {
+  console.error(message);
+  process.exit(1);
+};
+
+const args = process.argv.slice(2);
+const option = (name) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 ? args.splice(i, 2)[1] : undefined;
+};
+const flag = (name) => {
+  const i = args.indexOf(`--${name}`);
+  return i >= 0 && !!args.splice(i, 1);
+};
+const region = option('region');
+const resolve = flag('resolve');
+const [csvPath] = args;
+if (!csvPath || !region) fail('Usage: npm run catalog:import -- <sites.csv> --region "<State>" [--resolve]');
+
+const slug = (text) => text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+// RFC 4180: fields may be quoted, with "" for a literal quote and line breaks allowed inside quotes
+const parseCsv = (text) => {
+  const rows = [[]];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') field += text[i++];
+      else if (ch === '"') quoted = false;
+      else field += ch;
+    } else if (ch === '"') quoted = true;
+    else if (ch === ',') {
+      rows.at(-1).push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      rows.at(-1).push(field);
+      field = '';
+      rows.push([]);
+    } else field += ch;
+  }
+  rows.at(-1).push(field);
+  return rows.filter(row => row.some(cell => cell.trim()));
+};
+
+const toSite = (record, line, problems) => {
+  const problem = (message) => problems.push(`line ${line}: ${message}`);
+  const text = (column) => {
+    if (!record[column]) problem(`missing ${column}`);
+    return record[column];
+  };
+  const name = text('name');
+  const century = Number(record.century);
+  if (!Number.isInteger(century) || century === 0) problem(`century must be a non-zero integer (negative for BCE), got "${record.century}"`);
+  if (!RELIGIONS.includes(record.religion)) problem(`religion must be one of ${RELIGIONS.join(', ')}, got "${record.religion}"`);
+  if (!CATEGORIES.includes(record.category)) problem(`category must be one of ${CATEGORIES.join(', ')}, got "${record.category}"`);
+  const lat = Number(record.lat);
+  const lng = Number(record.lng);
+  const hasCoords = record.lat && record.lng && Math.abs(lat) <= 90 && Math.abs(lng) <= 180;
+  if ((record.lat || record.lng) && !hasCoords) problem(`invalid coordinates "${record.lat}, ${record.lng}"`);
+
+  const titles = Object.fromEntries(LANGUAGES.flatMap(lang => {
+    const title = record[`title_${lang}`] || (lang === 'en' ? name : '');
+    return title ? [[lang, title]] : [];
+  }));
+  return {
+    id: record.id || slug(name || ''),
+    name,
+    ...(record.asi_id ? { asiId: record.asi_id } : {}),
+    state: region,
+    district: text('district'),
+    period: text('period'),
+    century,
+    dynasty: text('dynasty'),
+    religion: record.religion,
+    category: record.category,
+    coords: hasCoords ? { lat, lng } : undefined,
+    titles,
+    ...(record.aliases ? { aliases: record.aliases.split(';').map(alias => alias.trim()).filter(Boolean) } : {}),
+  };
+};
+
+// Fills in coordinates and interlanguage titles from the English article
+const resolveFromWikipedia = async (site) => {
+  const url = `https://en.wikipedia.org/w/api.php?action=query&prop=coordinates|langlinks&lllimit=max&titles=${encodeURIComponent(site.titles.en)}&redirects=1&format=json&formatversion=2`;
+  const response = await fetch(url, { headers: { 'User-Agent': 'ITIHAASA catalog import' } });
+  if (!response.ok) throw new Error(`${response.status} from Wikipedia for ${site.titles.en}`);
+  const page = (await response.json()).query?.pages?.[0];
+  if (!page || page.missing) throw new Error(`No English Wikipedia article "${site.titles.en}"`);
+  const coords = page.coordinates?.[0];
+  if (!site.coords && coords) site.coords = { lat: coords.lat, lng: coords.lon };
+  for (const link of page.langlinks || []) {
+    if (LANGUAGES.includes(link.lang) && !site.titles[link.lang]) site.titles[link.lang] = link.title;
+  }
+  if (!site.coords) throw new Error(`No coordinates on Wikipedia for ${site.titles.en}; add lat/lng to the sheet`);
+};
+
+const [header, ...rows] = parseCsv(readFileSync(csvPath, 'utf8').replace(/^\uFEFF/, ''));
+const columns = header.map(column => column.trim().toLowerCase());
+const problems = [];
+const imported = rows.map((row, i) => toSite(Object.fromEntries(columns.map((column, j) => [column, (row[j] || '').trim()])), i + 2, problems));
+
+const seen = new Set();
+for (const site of imported) {
+  if (seen.has(site.id)) problems.push(`duplicate id "${site.id}"`);
+  seen.add(site.id);
+}
+if (problems.length) fail(`Import failed with ${problems.length} problem(s):\n  ${problems.join('\n  ')}`);
+
+const file = join(dirname(fileURLToPath(import.meta.url)), '..', 'catalog', `${slug(region)}.json`);
+let catalog = { schema: SCHEMA, version: VERSION, region, sites: [] };
+if (existsSync(file)) {
+  catalog = JSON.parse(readFileSync(file, 'utf8'));
+  if (catalog.schema !== SCHEMA) fail(`${file} is not a catalog`);
+  if (catalog.version > VERSION) fail(`${file} is version ${catalog.version}, newer than this tool (${VERSION})`);
+  for (let version = catalog.version; version < VERSION; version++) catalog = MIGRATIONS[version](catalog);
+}
+
+// A row updates its stored site rather than replacing it: cells left empty (or columns missing from the sheet) keep
+// the asiId, coordinates, titles and aliases stored before
+const merge = (stored, site) => stored ? {
+  ...stored,
+  ...Object.fromEntries(Object.entries(site).filter(([, value]) => value !== undefined)),
+  titles: { ...stored.titles, ...site.titles },
+} : site;
+
+const byId = new Map(catalog.sites.map(site => [site.id, site]));
+const merged = imported.map(site => merge(byId.get(site.id), site));
+if (!resolve) {
+  for (const site of merged) if (!site.coords) problems.push(`${site.id}: missing lat/lng (or pass --resolve to look them up)`);
+  if (problems.length) fail(`Import failed with ${problems.length} problem(s):\n  ${problems.join('\n  ')}`);
+}
+
+if (resolve) {
+  for (const site of merged) {
+    try {
+      await resolveFromWikipedia(site);
+    } catch (error) {
+      problems.push(`${site.id}: ${error.message}`);
+    }
+  }
+  if (problems.length) fail(`Import failed with ${problems.length} problem(s):\n  ${problems.join('\n  ')}`);
+}
+
+for (const site of merged) byId.set(site.id, site);
+catalog.sites = [...byId.values()];
+writeFileSync(file, `${JSON.stringify(catalog, null, 2)}\n`);
+console.log(`Imported ${imported.length} site(s) into ${file} (${catalog.sites.length} in total).`);
@@ -0,0 +1,64 @@
+import { existsSync } from 'node:fs';
+
+// Server configuration, read from the environment and .env.local when there is one. The Gemini key lives only here.
+
+export type ServerProviderName = 'gemini' | 'mock';
+
+export interface RateLimit {
+  requests: number;
+  windowMs: number;
+}
+
+export interface ServerConfig {
+  port: number;
+  /** `mock` (only with AI_PROVIDER=mock) serves the same deterministic fixtures as the client-side mock, without a key. */
+  aiProvider: ServerProviderName;
+  apiKey: string;
+  models: {
+    content: string;
+    reconstruction: string;
+    chat: string;
+    speech: string;
+  };
+  /** Per-client limits per minute: `ai` counts model calls (cached sections are free), `wiki` counts Wikipedia proxy requests. */
+  rateLimits: { ai: RateLimit; wiki: RateLimit };
+  /** Largest request body accepted, in bytes. Uploads (photos for reconstruction, inscriptions and chat) get the larger cap. */
+  maxBodyBytes: { json: number; upload: number };
+  /** Where generated sections are kept between restarts. */
+  cacheDir: string;
+  /** Take the client address from X-Forwarded-For; only set this behind a proxy you control. */
+  trustProxy: boolean;
+  /** Allowed origin for cross-origin requests; unset when the app is served from the same origin (or through the Vite proxy). */
+  corsOrigin?: string;
+}
+
+// Variables already set in the environment win over the file
+if (existsSync('.env.local')) process.loadEnvFile('.env.local');
+
+const env = process.env;
+const apiKey = env.GEMINI_API_KEY || env.API_KEY || '';
+const number = (value: string | undefined, fallback: number) => Number(value) > 0 ? Number(value) : fallback;
+
+export const serverConfig: ServerConfig = {
+  port: number(env.PORT, 8787),
+  // Fixtures only when asked for: a missing key in production must not quietly serve them (see index.ts)
+  aiProvider: env.AI_PROVIDER === 'mock' ? 'mock' : 'gemini',
+  apiKey,
+  models: {
+    content: env.GEMINI_CONTENT_MODEL || 'gemini-3-flash-preview',
+    reconstruction: env.GEMINI_IMAGE_MODEL || 'gemini-2.5-flash-image',
+    chat: env.GEMINI_CHAT_MODEL || 'gemini-3-flash-preview',
+    speech: env.GEMINI_TTS_MODEL || 'gemini-2.5-flash-preview-tts',
+  },
+  rateLimits: {
+    ai: { requests: number(env.RATE_LIMIT_AI, 60), windowMs: 60_000 },
+    wiki: { requests: number(env.RATE_LIMIT_WIKI, 300), windowMs: 60_000 },
+  },
+  maxBodyBytes: {
+    json: number(env.MAX_JSON_BYTES, 2 * 1024 * 1024),
+    upload: number(env.MAX_UPLOAD_BYTES, 10 * 1024 * 1024),
+  },
+  cacheDir: env.SERVER_CACHE_DIR || '.server-cache',
+  trustProxy: env.TRUST_PROXY === 'true',
+  corsOrigin: env.CORS_ORIGIN || undefined,
+};
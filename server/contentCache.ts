@@ -0,0 +1,68 @@
+import { createHash } from 'node:crypto';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { GeneratedSection } from '../aiProvider';
+import { HERITAGE_SECTIONS } from '../heritageSections';
+import { HeritageContent, Language, SourcePassage } from '../types';
+import { serverConfig } from './config';
+
+const TTL_MS = 30 * 24 * 60 * 60 * 1000;
+// Most recent sections kept in memory; older ones are read back from disk
+const MEMORY_ENTRIES = 500;
+
+interface Entry {
+  expires: number;
+  section: GeneratedSection;
+}
+
+const memory = new Map<string, Entry>();
+
+// The passages and the section's instruction are part of the key, so a section is regenerated once the Wikipedia
+// article it was written from, or what is asked of it, changes
+const cacheKey = (placeName: string, passages: SourcePassage[], lang: Language, key: keyof HeritageContent) =>
+  createHash('sha256')
+    .update(JSON.stringify([placeName.trim().toLowerCase(), lang, key, HERITAGE_SECTIONS.find(s => s.key === key)?.instruction, passages.map(p => [p.id, p.text])]))
+    .digest('hex');
+
+const fileOf = (hash: string) => path.join(serverConfig.cacheDir, `${hash}.json`);
+
+const remember = (hash: string, entry: Entry) => {
+  memory.delete(hash);
+  memory.set(hash, entry);
+  if (memory.size > MEMORY_ENTRIES) memory.delete(memory.keys().next().value!);
+};
+
+// Generated heritage sections shared by every client, so a place is only paid for once per language and article revision.
+// Only validated sections are stored. A failed read or write is logged and treated as a miss.
+export const ContentCache = {
+  async get<K extends keyof HeritageContent>(placeName: string, passages: SourcePassage[], lang: Language, key: K): Promise<GeneratedSection<K> | null> {
+    const hash = cacheKey(placeName, passages, lang, key);
+    let entry = memory.get(hash);
+    if (!entry) {
+      try {
+        entry = JSON.parse(await readFile(fileOf(hash), 'utf8')) as Entry;
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') console.error('Content cache read failed', error);
+        return null;
+      }
+    }
+    if (entry.expires < Date.now()) {
+      memory.delete(hash);
+      return null;
+    }
+    remember(hash, entry);
+    return entry.section as GeneratedSection<K>;
+  },
+
+  async set(placeName: string, passages: SourcePassage[], lang: Language, section: GeneratedSection): Promise<void> {
+    const hash = cacheKey(placeName, passages, lang, section.key);
+    const entry: Entry = { expires: Date.now() + TTL_MS, section };
+    remember(hash, entry);
+    try {
+      await mkdir(serverConfig.cacheDir, { recursive: true });
+      await writeFile(fileOf(hash), JSON.stringify(entry));
+    } catch (error) {
+      console.error('Content cache write failed', error);
+    }
+  },
+};
@@ -0,0 +1,389 @@
+
+import { GoogleGenAI, Modality, Type } from "@google/genai";
+import { ChatMessage, CitedClaim, Confidence, HeritageContent, InscriptionReading, Language, PlaceComparison, PlaceDetails, QuizChoiceQuestion, ReconstructionOptions, ReconstructionResult, SourcePassage, TransliterationScheme, VerseTranslation } from "../types";
+import { HERITAGE_SECTIONS } from "../heritageSections";
+import { POET_ROSTER } from "../poetRoster";
+import { AIProvider, GeneratedSection } from "../aiProvider";
+import { serverConfig as config } from "./config";
+import { ValidationError } from "../retry";
+import { LANGUAGE_INFO } from "../languages";
+import { pcmBase64ToWavDataUrl } from "../wav";
+
+// Created on first use so the server can start (e.g. with the mock provider) without a key
+let client: GoogleGenAI | null = null;
+const getClient = () => client ??= new GoogleGenAI({ apiKey: config.apiKey });
+
+// e.g. "Telugu (తెలుగు)", so the model sees both the name and the script
+const targetLanguage = (lang: Language) => lang === 'en' ? 'English' : `${LANGUAGE_INFO[lang].englishName} (${LANGUAGE_INFO[lang].name})`;
+
+// Splits a data URL into the inline image part Gemini expects, keeping the upload's real MIME type
+const toInlineData = (dataUrl: string) => {
+  const [header, data] = dataUrl.split(',');
+  const mimeType = header.match(/^data:([^;]+)/)?.[1] || "image/jpeg";
+  return { inlineData: { data, mimeType } };
+};
+
+// Photos first, then the question about them
+const toChatParts = (message: ChatMessage) => [
+  ...(message.attachments || []).map(a => toInlineData(a.dataUrl)),
+  ...(message.text.trim() ? [{ text: message.text }] : []),
+];
+
+// Earlier turns keep their words but not their photos, which would otherwise be re-sent (and billed) on every message
+const toHistoryParts = (message: ChatMessage) => [
+  ...(message.attachments || []).map(a => ({ text: `[Photo shared earlier${a.name ? `: ${a.name}` : ''}]` })),
+  ...(message.text.trim() ? [{ text: message.text }] : []),
+];
+
+const formatPassages = (passages: SourcePassage[]) =>
+  passages.map(p => `[${p.id}] ${p.heading}${p.source ? ` (${p.source.lang}.wikipedia.org: ${p.source.title})` : ''}\n${p.text}`).join('\n\n');
+
+const parseJson = (text: string | undefined) => {
+  try {
+    return JSON.parse(text || '');
+  } catch (e) {
+    console.error("Failed to parse Gemini response", e);
+    throw new ValidationError("Response is not valid JSON");
+  }
+};
+
+const POET_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    name: { type: Type.STRING },
+    period: { type: Type.STRING },
+    language: { type: Type.STRING },
+    contribution: { type: Type.STRING },
+    works: { type: Type.ARRAY, items: { type: Type.STRING } },
+    famousVerse: { type: Type.STRING },
+    verseTransliteration: { type: Type.STRING },
+    verseTranslation: { type: Type.STRING },
+    source: { type: Type.STRING }
+  },
+  required: ["name", "period", "language", "contribution", "works", "famousVerse", "verseTransliteration", "verseTranslation", "source"]
+};
+
+const CONFIDENCE_SCHEMA = { type: Type.STRING, enum: ["high", "medium", "low"] };
+const CONFIDENCE_LEVELS: Confidence[] = ["high", "medium", "low"];
+
+export const GeminiService: AIProvider = {
+  async getSection<K extends keyof HeritageContent>(placeName: string, passages: SourcePassage[], lang: Language, key: K, signal?: AbortSignal): Promise<GeneratedSection<K>> {
+    const targetLang = targetLanguage(lang);
+    const section = HERITAGE_SECTIONS.find(s => s.key === key)!;
+
+    const response = await getClient().models.generateContent({
+      model: config.models.content,
+      contents: `You are a world-class cultural historian and translator. 
+      Using these Wikipedia passages about ${placeName}, write one section of a highly detailed cultural heritage report.
+      
+      CRITICAL REQUIREMENT: The entire response content MUST be written in ${targetLang}. 
+      Do not use English words unless they are specific technical architectural terms that have no equivalent in ${targetLang}.
+      
+      Source passages (cite them by id). When passages from the ${targetLang} Wikipedia are present, prefer them for names, terminology and local detail:
+      ${formatPassages(passages)}
+      
+      Section to write (in ${targetLang}): ${section.instruction}
+      ${key === 'poets'
+        ? `For each poet, set "source" to the passage id and heading that mentions them, or an empty string if no passage does.
+      Write "name" in English, exactly as in this list when the poet is one of these: ${POET_ROSTER.map(p => p.name).join(', ')}.
+      Quote "famousVerse" in its original language and script (not translated), give "verseTransliteration" in ISO 15919, and "verseTranslation" in ${targetLang}. List "works" by their usual English titles.`
+        : 'Write the section as a list of claims, one or two sentences each, in reading order. For every claim list the ids of the passages that support it; leave "sources" empty if the claim comes from general knowledge rather than the passages. Use no headings or markdown.'}`,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: key === 'poets'
+          ? { type: Type.ARRAY, items: POET_SCHEMA }
+          : {
+            type: Type.OBJECT,
+            properties: {
+              claims: {
+                type: Type.ARRAY,
+                items: {
+                  type: Type.OBJECT,
+                  properties: {
+                    text: { type: Type.STRING },
+                    sources: { type: Type.ARRAY, items: { type: Type.STRING } }
+                  },
+                  required: ["text", "sources"]
+                }
+              }
+            },
+            required: ["claims"]
+          }
+      }
+    });
+
+    const parsed = parseJson(response.text);
+    if (key === 'poets') return { key, value: parsed };
+    const knownIds = new Set(passages.map(p => p.id));
+    const claims: CitedClaim[] | undefined = Array.isArray(parsed?.claims)
+      ? parsed.claims.map((claim: CitedClaim) => ({
+        ...claim,
+        // Drop ids the model invented so a fabricated citation is flagged like a missing one
+        sources: Array.isArray(claim?.sources) ? claim.sources.filter(id => knownIds.has(id)) : []
+      }))
+      : undefined;
+    // Shape is checked (and repaired where possible) by validateSection
+    return { key, value: (claims || []).map(c => c?.text).join(' ') as HeritageContent[K], claims };
+  },
+
+  async compareSites(first: PlaceDetails, second: PlaceDetails, lang: Language, signal?: AbortSignal): Promise<PlaceComparison> {
+    const targetLang = targetLanguage(lang);
+    const describe = (place: PlaceDetails) => `${place.name}
+      Wikipedia summary: ${place.summary || 'Not available.'}
+      Heritage report: ${place.content ? JSON.stringify(place.content) : 'Not available.'}`;
+
+    const response = await getClient().models.generateContent({
+      model: config.models.content,
+      contents: `You are a world-class cultural historian. Compare these two heritage sites of Andhra Pradesh for students.
+      
+      CRITICAL REQUIREMENT: All text values MUST be written in ${targetLang}.
+      
+      Site A: ${describe(first)}
+      
+      Site B: ${describe(second)}
+      
+      For each field, contrast Site A and Site B directly, naming both sites:
+      1. architecture: Architectural style and construction.
+      2. period: When each was built and flourished.
+      3. patrons: Dynasties, rulers or communities that built and supported them.
+      4. traditions: Religious affiliation, festivals and living traditions.
+      5. summary: A short concluding paragraph on what makes each site distinctive.`,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            architecture: { type: Type.STRING },
+            period: { type: Type.STRING },
+            patrons: { type: Type.STRING },
+            traditions: { type: Type.STRING },
+            summary: { type: Type.STRING }
+          },
+          required: ["architecture", "period", "patrons", "traditions", "summary"]
+        }
+      }
+    });
+
+    const parsed = parseJson(response.text);
+    const fields: (keyof PlaceComparison)[] = ["architecture", "period", "patrons", "traditions", "summary"];
+    if (fields.some(field => typeof parsed?.[field] !== 'string')) throw new ValidationError("comparison: missing fields");
+    return parsed;
+  },
+
+  async reconstructMonument(imageDataUrl: string, context: string, options: ReconstructionOptions = {}, signal?: AbortSignal): Promise<ReconstructionResult> {
+    const guidance = [
+      options.period && `Restore it as it would have appeared under the ${options.period} dynasty.`,
+      options.style && `Follow the ${options.style} architectural style.`,
+      options.maskDataUrl && `The second image is a mask: restore ONLY the region painted white and leave everything in the black region exactly as it is.`,
+      options.notes && `Additional notes from the user: ${options.notes}`
+    ].filter(Boolean).join(' ');
+    const prompt = `Reconstruct this damaged monument or sculpture from ${context}. Restore missing features and original architectural grandeur in high detail. Maintain historical accuracy for Andhra Pradesh styles.${guidance ? ' ' + guidance : ''}`;
+
+    const parts = [toInlineData(imageDataUrl)];
+    if (options.maskDataUrl) parts.push(toInlineData(options.maskDataUrl));
+
+    const response = await getClient().models.generateContent({
+      model: config.models.reconstruction,
+      contents: {
+        parts: [...parts, { text: prompt }]
+      },
+      config: { abortSignal: signal }
+    });
+
+    let imageUrl = '';
+    for (const part of response.candidates?.[0]?.content?.parts || []) {
+      if (part.inlineData) {
+        imageUrl = `data:image/png;base64,${part.inlineData.data}`;
+      }
+    }
+    return { imageUrl, prompt };
+  },
+
+  async generateQuiz(place: PlaceDetails, lang: Language, count: number, signal?: AbortSignal): Promise<QuizChoiceQuestion[]> {
+    const targetLang = targetLanguage(lang);
+    const sectionKeys = HERITAGE_SECTIONS.map(s => s.key);
+    const response = await getClient().models.generateContent({
+      model: config.models.content,
+      contents: `You are a history teacher writing a quiz for school students about ${place.name}, a heritage site of Andhra Pradesh.
+      Write ${count} multiple-choice questions, each with exactly four options and one correct answer, using ONLY facts stated in the heritage report below.
+      Spread the questions across different sections of the report and vary their difficulty. Make wrong options plausible but clearly wrong to someone who read the report.
+      For each question give a one or two sentence explanation of why the correct answer is right, and the report section it comes from.
+      Write the questions, options and explanations in ${targetLang}.
+
+      Heritage report: ${JSON.stringify(place.content || {})}`,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.ARRAY,
+          items: {
+            type: Type.OBJECT,
+            properties: {
+              prompt: { type: Type.STRING },
+              options: { type: Type.ARRAY, items: { type: Type.STRING } },
+              answer: { type: Type.INTEGER },
+              explanation: { type: Type.STRING },
+              section: { type: Type.STRING, enum: sectionKeys }
+            },
+            required: ["prompt", "options", "answer", "explanation"]
+          }
+        }
+      }
+    });
+
+    const parsed = parseJson(response.text);
+    if (!Array.isArray(parsed)) throw new ValidationError("quiz: not a list");
+    // Drop malformed questions rather than failing the whole quiz
+    const questions: QuizChoiceQuestion[] = parsed
+      .filter(q => typeof q?.prompt === 'string' && Array.isArray(q.options) && q.options.length >= 2
+        && Number.isInteger(q.answer) && q.answer >= 0 && q.answer < q.options.length)
+      .map(q => ({
+        kind: 'choice',
+        prompt: q.prompt,
+        options: q.options.map(String),
+        answer: q.answer,
+        explanation: typeof q.explanation === 'string' ? q.explanation : '',
+        section: sectionKeys.includes(q.section) ? q.section : undefined
+      }));
+    if (!questions.length) throw new ValidationError("quiz: no usable questions");
+    return questions;
+  },
+
+  async readInscription(imageDataUrl: string, lang: Language, scheme: TransliterationScheme, signal?: AbortSignal): Promise<InscriptionReading> {
+    const targetLang = targetLanguage(lang);
+    const response = await getClient().models.generateContent({
+      model: config.models.content,
+      contents: {
+        parts: [toInlineData(imageDataUrl), {
+          text: `You are an epigraphist specialising in the inscriptions of Andhra Pradesh: Brahmi and Bhattiprolu, Telugu-Kannada, Nagari, Grantha and later Telugu scripts, in Prakrit, Sanskrit, Old Kannada and Telugu.
+          Read the inscription in this photo line by line.
+          1. Identify the script and the language, and date it approximately from the letter forms.
+          2. Give each line in the original script (use Unicode for the closest modern script when the original has none), then transliterate it using ${scheme}.
+          3. Translate each line, and the whole text, into ${targetLang}.
+          Rate your confidence as high, medium or low for the script, the date and every line. Mark illegible letters with [?] rather than guessing,
+          and explain damage, doubtful readings and the basis of the dating in "notes", written in ${targetLang}.
+          If the photo shows no inscription, return no lines and say so in "notes".`
+        }]
+      },
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            script: { type: Type.STRING },
+            scriptConfidence: CONFIDENCE_SCHEMA,
+            language: { type: Type.STRING },
+            period: { type: Type.STRING },
+            periodConfidence: CONFIDENCE_SCHEMA,
+            lines: {
+              type: Type.ARRAY,
+              items: {
+                type: Type.OBJECT,
+                properties: {
+                  original: { type: Type.STRING },
+                  transliteration: { type: Type.STRING },
+                  translation: { type: Type.STRING },
+                  confidence: CONFIDENCE_SCHEMA
+                },
+                required: ["original", "transliteration", "translation", "confidence"]
+              }
+            },
+            translation: { type: Type.STRING },
+            notes: { type: Type.STRING }
+          },
+          required: ["script", "scriptConfidence", "language", "period", "periodConfidence", "lines", "translation", "notes"]
+        }
+      }
+    });
+
+    const parsed = parseJson(response.text);
+    const fields = ["script", "language", "period", "translation", "notes"] as const;
+    if (fields.some(field => typeof parsed?.[field] !== 'string') || !Array.isArray(parsed.lines)) throw new ValidationError("inscription: missing fields");
+    // Anything unexpected counts as the least certain level
+    const confidence = (value: unknown): Confidence => CONFIDENCE_LEVELS.includes(value as Confidence) ? value as Confidence : "low";
+    return {
+      ...parsed,
+      scheme,
+      scriptConfidence: confidence(parsed.scriptConfidence),
+      periodConfidence: confidence(parsed.periodConfidence),
+      lines: parsed.lines.map((line: InscriptionReading['lines'][number]) => ({ ...line, confidence: confidence(line?.confidence) }))
+    };
+  },
+
+  async translateVerse(verse: string, language: string, lang: Language, signal?: AbortSignal): Promise<VerseTranslation> {
+    const targetLang = targetLanguage(lang);
+    const response = await getClient().models.generateContent({
+      model: config.models.content,
+      contents: `You are a translator of classical Indian poetry. This verse is in ${language}:
+      ${verse}
+      Transliterate it into Latin script using ISO 15919, line for line, and translate it into ${targetLang}, keeping its imagery rather than paraphrasing it away.`,
+      config: {
+        abortSignal: signal,
+        responseMimeType: "application/json",
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            transliteration: { type: Type.STRING },
+            translation: { type: Type.STRING }
+          },
+          required: ["transliteration", "translation"]
+        }
+      }
+    });
+
+    const parsed = parseJson(response.text);
+    if (typeof parsed?.transliteration !== 'string' || typeof parsed?.translation !== 'string' || !parsed.translation.trim()) {
+      throw new ValidationError("verse: missing translation");
+    }
+    return { transliteration: parsed.transliteration, translation: parsed.translation };
+  },
+
+  async synthesizeSpeech(text: string, lang: Language, signal?: AbortSignal): Promise<string> {
+    const response = await getClient().models.generateContent({
+      model: config.models.speech,
+      contents: [{ parts: [{ text: `Read aloud in ${targetLanguage(lang)}, calmly and clearly, like a museum audio guide:\n\n${text}` }] }],
+      config: {
+        abortSignal: signal,
+        responseModalities: [Modality.AUDIO],
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } }
+      }
+    });
+
+    const audio = response.candidates?.[0]?.content?.parts?.find(part => part.inlineData)?.inlineData;
+    if (!audio?.data) throw new ValidationError("No audio returned");
+    return pcmBase64ToWavDataUrl(audio.data, audio.mimeType);
+  },
+
+  async *chat(message: ChatMessage, history: ChatMessage[], lang: Language, place?: PlaceDetails | null, signal?: AbortSignal): AsyncGenerator<string> {
+    const targetLang = targetLanguage(lang);
+
+    const grounding = place ? `
+        The user is currently viewing ${place.name}. Prefer this place as the subject of vague questions and ground your answers in the reference material below.
+        Wikipedia summary: ${place.summary || 'Not available.'}
+        Generated heritage report: ${place.content ? JSON.stringify(place.content) : 'Not available.'}` : '';
+
+    const chat = getClient().chats.create({
+      model: config.models.chat,
+      history: history
+        .filter(m => m.text.trim() || m.attachments?.length)
+        .map(m => ({ role: m.role, parts: toHistoryParts(m) })),
+      config: {
+        abortSignal: signal,
+        systemInstruction: `You are ITIHAASA AI, an expert on Andhra Pradesh's cultural heritage. 
+        MANDATORY: You must communicate ONLY in ${targetLang}. 
+        If the user asks in English but the app language is ${targetLang}, answer in ${targetLang}.
+        Be informative, respectful, and academically accurate about the history of Andhra Pradesh.
+        When the user sends a photo, identify the monument, sculpture or inscription in it, transcribe and translate any legible text,
+        and say plainly how confident you are; never invent an identification you cannot see evidence for.${grounding}`
+      }
+    });
+
+    const stream = await chat.sendMessageStream({ message: toChatParts(message) });
+    for await (const chunk of stream) {
+      if (chunk.text) yield chunk.text;
+    }
+  }
+};
@@ -0,0 +1,68 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { HttpError, ValidationError, isAbortError } from '../retry';
+import { serverConfig } from './config';
+
+/** Reads and parses a JSON body, refusing anything larger than `maxBytes` with a 413. */
+export const readJson = async <T = any>(req: IncomingMessage, maxBytes: number): Promise<T> => {
+  if (Number(req.headers['content-length']) > maxBytes) throw new HttpError(413, `Request body is larger than ${maxBytes} bytes`);
+  if (!/^application\/json\b/.test(req.headers['content-type'] || '')) throw new HttpError(415, 'Expected a JSON body');
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req as AsyncIterable<Buffer>) {
+    size += chunk.length;
+    // content-length can be missing (chunked uploads) or wrong, so count as the body arrives too
+    if (size > maxBytes) throw new HttpError(413, `Request body is larger than ${maxBytes} bytes`);
+    chunks.push(chunk);
+  }
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+};
+
+export const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+/**
+ * The status to answer a failed request with. Our own HttpErrors keep theirs; a model reply that failed validation is
+ * a bad gateway, which the client retries; provider errors carrying a status (e.g. 429 from Gemini) pass it on.
+ */
+export const statusOf = (error: unknown) => {
+  if (error instanceof HttpError) return error.status;
+  if (error instanceof ValidationError) return 502;
+  if (isAbortError(error)) return 499;
+  const status = (error as { status?: number })?.status;
+  return typeof status === 'number' && status >= 400 && status < 600 ? status : 500;
+};
+
+export const sendError = (res: ServerResponse, error: unknown) => {
+  const status = statusOf(error);
+  if (status >= 500) console.error(error);
+  if (res.headersSent) {
+    res.destroy();
+    return;
+  }
+  // Server faults are logged above; the client only learns that something went wrong
+  const message = status >= 500 && !(error instanceof ValidationError) ? 'Internal server error' : (error as Error)?.message || String(error);
+  sendJson(res, status, { error: message });
+};
+
+/** Identifies the caller for rate limiting. */
+export const clientId = (req: IncomingMessage) => {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (serverConfig.trustProxy && typeof forwarded === 'string') return forwarded.split(',')[0].trim();
+  return req.socket.remoteAddress || 'unknown';
+};
+
+/** An AbortSignal that fires when the client goes away, so abandoned model calls stop too. */
+export const requestSignal = (req: IncomingMessage, res: ServerResponse) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
@@ -0,0 +1,246 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { AIProvider } from '../aiProvider';
+import { MockProvider } from '../mockProvider';
+import { HERITAGE_SECTIONS } from '../heritageSections';
+import { validateSection } from '../heritageValidation';
+import { LANGUAGES } from '../languages';
+import { HttpError } from '../retry';
+import { ChatAttachment, ChatMessage, HeritageContent, Language, PlaceDetails, ReconstructionOptions, SourcePassage } from '../types';
+import { serverConfig } from './config';
+import { GeminiService } from './geminiService';
+import { ContentCache } from './contentCache';
+import { createRateLimiter, RateLimitError } from './rateLimiter';
+import { clientId, readJson, requestSignal, sendError, sendJson } from './http';
+
+// API server for the web app: holds the Gemini key, and proxies Wikipedia so browsers never call third parties directly.
+// The routes mirror AIProvider one to one; the client side is serverProvider.ts.
+
+if (serverConfig.aiProvider === 'gemini' && !serverConfig.apiKey) {
+  console.error('GEMINI_API_KEY is not set. Put it in .env.local, or set AI_PROVIDER=mock to serve offline fixtures.');
+  process.exit(1);
+}
+
+const provider: AIProvider = serverConfig.aiProvider === 'mock' ? MockProvider : GeminiService;
+
+const aiLimiter = createRateLimiter(serverConfig.rateLimits.ai);
+const wikiLimiter = createRateLimiter(serverConfig.rateLimits.wiki);
+
+const WIKI_TTL_MS = 5 * 60 * 1000;
+const WIKI_CACHE_ENTRIES = 1000;
+const wikiCache = new Map<string, { expires: number; status: number; body: string }>();
+
+const invalid = (message: string) => new HttpError(400, message);
+
+const language = (value: unknown): Language => {
+  if (!LANGUAGES.includes(value as Language)) throw invalid('Unknown language');
+  return value as Language;
+};
+
+const text = (value: unknown, name: string): string => {
+  if (typeof value !== 'string' || !value.trim()) throw invalid(`Missing ${name}`);
+  return value;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const object = <T>(value: unknown, name: string): T => {
+  if (!isRecord(value)) throw invalid(`Missing ${name}`);
+  return value as T;
+};
+
+// The fields of a JSON object body, each left for the handler to check
+const fields = (body: unknown) => object<Record<string, unknown>>(body, 'body');
+
+const list = <T>(value: unknown, name: string, valid: (item: unknown) => item is T): T[] => {
+  if (!Array.isArray(value) || !value.every(valid)) throw invalid(`Invalid ${name}`);
+  return value;
+};
+
+const isPassage = (value: unknown): value is SourcePassage => isRecord(value) && typeof value.text === 'string';
+
+const isAttachment = (value: unknown): value is ChatAttachment => isRecord(value) && typeof value.dataUrl === 'string';
+
+const isChatMessage = (value: unknown): value is ChatMessage =>
+  isRecord(value) &&
+  (value.role === 'user' || value.role === 'model') &&
+  typeof value.text === 'string' &&
+  (value.attachments === undefined || (Array.isArray(value.attachments) && value.attachments.every(isAttachment)));
+
+const reconstructionOptions = (value: unknown): ReconstructionOptions => {
+  if (value === undefined) return {};
+  const options = object<Record<string, unknown>>(value, 'options');
+  if (!['period', 'style', 'notes', 'maskDataUrl'].every(k => options[k] === undefined || typeof options[k] === 'string')) throw invalid('Invalid options');
+  return options as ReconstructionOptions;
+};
+
+interface Context {
+  req: IncomingMessage;
+  res: ServerResponse;
+  client: string;
+  signal: AbortSignal;
+}
+
+/**
+ * Generative endpoints: each reads a JSON body (capped at `maxBytes`) and answers with the provider's result. The body
+ * is checked before a rate-limit token is taken, so a malformed request costs the client nothing.
+ */
+const AI_ROUTES: Record<string, { maxBytes: number; handle: (body: unknown, context: Context) => Promise<unknown> }> = {
+  '/api/section': {
+    maxBytes: serverConfig.maxBodyBytes.json,
+    async handle(body, { client, signal }) {
+      const { placeName, passages, lang, key } = fields(body);
+      if (!HERITAGE_SECTIONS.some(s => s.key === key)) throw invalid('Unknown section');
+      const name = text(placeName, 'placeName');
+      const sources = list(passages, 'passages', isPassage);
+      const target = language(lang);
+      const cached = await ContentCache.get(name, sources, target, key as keyof HeritageContent);
+      if (cached) return cached;
+      aiLimiter.take(client);
+      const section = validateSection(await provider.getSection(name, sources, target, key as keyof HeritageContent, signal));
+      await ContentCache.set(name, sources, target, section);
+      return section;
+    },
+  },
+  '/api/compare': {
+    maxBytes: serverConfig.maxBodyBytes.json,
+    handle: (body, { client, signal }) => {
+      const { first, second, lang } = fields(body);
+      const request = [object<PlaceDetails>(first, 'first'), object<PlaceDetails>(second, 'second'), language(lang)] as const;
+      aiLimiter.take(client);
+      return provider.compareSites(...request, signal);
+    },
+  },
+  '/api/reconstruct': {
+    maxBytes: serverConfig.maxBodyBytes.upload,
+    handle: (body, { client, signal }) => {
+      const { imageDataUrl, context, options } = fields(body);
+      const request = [text(imageDataUrl, 'imageDataUrl'), text(context, 'context'), reconstructionOptions(options)] as const;
+      aiLimiter.take(client);
+      return provider.reconstructMonument(...request, signal);
+    },
+  },
+  '/api/quiz': {
+    maxBytes: serverConfig.maxBodyBytes.json,
+    handle: (body, { client, signal }) => {
+      const { place, lang, count } = fields(body);
+      const request = [object<PlaceDetails>(place, 'place'), language(lang), Math.min(Math.max(Number(count) || 5, 1), 20)] as const;
+      aiLimiter.take(client);
+      return provider.generateQuiz(...request, signal);
+    },
+  },
+  '/api/inscription': {
+    maxBytes: serverConfig.maxBodyBytes.upload,
+    handle: (body, { client, signal }) => {
+      const { imageDataUrl, lang, scheme } = fields(body);
+      const request = [text(imageDataUrl, 'imageDataUrl'), language(lang), scheme === 'IAST' ? 'IAST' : 'ISO 15919'] as const;
+      aiLimiter.take(client);
+      return provider.readInscription(...request, signal);
+    },
+  },
+  '/api/verse': {
+    maxBytes: serverConfig.maxBodyBytes.json,
+    handle: (body, { client, signal }) => {
+      const { verse, language: verseLanguage, lang } = fields(body);
+      const request = [text(verse, 'verse'), text(verseLanguage, 'language'), language(lang)] as const;
+      aiLimiter.take(client);
+      return provider.translateVerse(...request, signal);
+    },
+  },
+  '/api/speech': {
+    maxBytes: serverConfig.maxBodyBytes.json,
+    handle: async (body, { client, signal }) => {
+      const { text: narration, lang } = fields(body);
+      const request = [text(narration, 'text'), language(lang)] as const;
+      aiLimiter.take(client);
+      return { audioUrl: await provider.synthesizeSpeech(...request, signal) };
+    },
+  },
+};
+
+/** Streams the reply as plain text. The first chunk is awaited before answering, so a failed call still gets a proper status. */
+const handleChat = async ({ req, res, client, signal }: Context) => {
+  const { message, history, lang, place } = fields(await readJson(req, serverConfig.maxBodyBytes.upload));
+  if (!isChatMessage(message)) throw invalid('Invalid message');
+  const turns = list(history, 'history', isChatMessage);
+  const target = language(lang);
+  const grounding = place ? object<PlaceDetails>(place, 'place') : null;
+  aiLimiter.take(client);
+  const stream = provider.chat(message, turns, target, grounding, signal);
+  let next = await stream.next();
+  res.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8', 'Cache-Control': 'no-store' });
+  while (!next.done) {
+    if (signal.aborted) {
+      await stream.return(undefined);
+      return;
+    }
+    res.write(next.value);
+    next = await stream.next();
+  }
+  res.end();
+};
+
+/** Passes a MediaWiki `action=query` request through, with a short shared cache. */
+const handleWiki = async ({ req, res, client, signal }: Context, lang: string, query: string) => {
+  const params = new URLSearchParams(query);
+  if (params.get('action') !== 'query') throw invalid('Only action=query is proxied');
+  const url = `https://${lang}.wikipedia.org/w/api.php?${params}`;
+
+  let entry = wikiCache.get(url);
+  if (!entry || entry.expires < Date.now()) {
+    wikiLimiter.take(client);
+    const response = await fetch(url, { signal, headers: { 'User-Agent': 'ITIHAASA heritage explorer (server proxy)' } });
+    entry = { expires: Date.now() + WIKI_TTL_MS, status: response.status, body: await response.text() };
+    if (response.ok) {
+      wikiCache.delete(url);
+      wikiCache.set(url, entry);
+      if (wikiCache.size > WIKI_CACHE_ENTRIES) wikiCache.delete(wikiCache.keys().next().value!);
+    }
+  }
+  res.writeHead(entry.status, { 'Content-Type': 'application/json; charset=utf-8', 'Cache-Control': 'public, max-age=300' });
+  res.end(entry.body);
+};
+
+const route = async (context: Context) => {
+  const { req, res } = context;
+  const url = new URL(req.url || '/', 'http://localhost');
+
+  if (req.method === 'GET' && url.pathname === '/api/health') {
+    return sendJson(res, 200, { ok: true, provider: serverConfig.aiProvider });
+  }
+  const wiki = url.pathname.match(/^\/api\/wiki\/([a-z]{2,3}(?:-[a-z]+)?)$/);
+  if (wiki) {
+    if (req.method !== 'GET') throw new HttpError(405, 'Method not allowed');
+    return handleWiki(context, wiki[1], url.search.slice(1));
+  }
+  if (url.pathname === '/api/chat') {
+    if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed');
+    return handleChat(context);
+  }
+  const endpoint = AI_ROUTES[url.pathname];
+  if (!endpoint) throw new HttpError(404, 'Not found');
+  if (req.method !== 'POST') throw new HttpError(405, 'Method not allowed');
+  const body = await readJson(req, endpoint.maxBytes);
+  sendJson(res, 200, await endpoint.handle(body, context));
+};
+
+const server = createServer(async (req, res) => {
+  if (serverConfig.corsOrigin) {
+    res.setHeader('Access-Control-Allow-Origin', serverConfig.corsOrigin);
+    res.setHeader('Vary', 'Origin');
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, { 'Access-Control-Allow-Methods': 'GET, POST', 'Access-Control-Allow-Headers': 'Content-Type', 'Access-Control-Max-Age': '86400' });
+      return res.end();
+    }
+  }
+  const context: Context = { req, res, client: clientId(req), signal: requestSignal(req, res) };
+  try {
+    await route(context);
+  } catch (error) {
+    if (error instanceof RateLimitError) res.setHeader('Retry-After', String(error.retryAfterSeconds));
+    sendError(res, error);
+  }
+});
+
+server.listen(serverConfig.port, () => {
+  console.log(`ITIHAASA API listening on http://localhost:${serverConfig.port} (${serverConfig.aiProvider} provider)`);
+});
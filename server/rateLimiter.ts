@@ -0,0 +1,34 @@
+import { HttpError } from '../retry';
+import { RateLimit } from './config';
+
+export class RateLimitError extends HttpError {
+  constructor(public retryAfterSeconds: number) {
+    super(429, 'Too many requests');
+    this.name = 'RateLimitError';
+  }
+}
+
+/** Fixed-window request counter per client. Counts live in memory, so they reset when the server restarts. */
+export const createRateLimiter = ({ requests, windowMs }: RateLimit) => {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  // Forget finished windows now and then so the map does not grow with every address ever seen
+  const sweep = setInterval(() => {
+    const now = Date.now();
+    for (const [client, window] of windows) if (now - window.start >= windowMs) windows.delete(client);
+  }, windowMs);
+  sweep.unref();
+
+  return {
+    /** Counts a request from `client`, throwing a RateLimitError once it is over the limit for the current window. */
+    take(client: string) {
+      const now = Date.now();
+      let window = windows.get(client);
+      if (!window || now - window.start >= windowMs) {
+        window = { start: now, count: 0 };
+        windows.set(client, window);
+      }
+      if (++window.count > requests) throw new RateLimitError(Math.ceil((window.start + windowMs - now) / 1000));
+    },
+  };
+};
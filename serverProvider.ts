@@ -0,0 +1,72 @@
+import { AIProvider } from './aiProvider';
+import { config } from './config';
+import { fetchOrFail, HttpError } from './retry';
+
+// Talks to the API server (server/index.ts), which holds the Gemini key. Errors come back as HttpErrors carrying the
+// server's status, so rate limits (429) and upstream failures (502) are retried by AIService like any other; a
+// server that cannot be reached at all gives a NetworkError.
+
+const request = async (path: string, body: unknown, signal?: AbortSignal) => {
+  const response = await fetchOrFail(`${config.apiBaseUrl}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) {
+    const message = await response.json().then(data => data?.error, () => undefined);
+    throw new HttpError(response.status, message || `${response.status} ${response.statusText} for ${path}`);
+  }
+  return response;
+};
+
+const postJson = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> =>
+  (await request(path, body, signal)).json();
+
+export const ServerProvider: AIProvider = {
+  getSection(placeName, passages, lang, key, signal) {
+    return postJson('/section', { placeName, passages, lang, key }, signal);
+  },
+
+  compareSites(first, second, lang, signal) {
+    return postJson('/compare', { first, second, lang }, signal);
+  },
+
+  reconstructMonument(imageDataUrl, context, options, signal) {
+    return postJson('/reconstruct', { imageDataUrl, context, options }, signal);
+  },
+
+  generateQuiz(place, lang, count, signal) {
+    return postJson('/quiz', { place, lang, count }, signal);
+  },
+
+  readInscription(imageDataUrl, lang, scheme, signal) {
+    return postJson('/inscription', { imageDataUrl, lang, scheme }, signal);
+  },
+
+  translateVerse(verse, language, lang, signal) {
+    return postJson('/verse', { verse, language, lang }, signal);
+  },
+
+  async synthesizeSpeech(text, lang, signal) {
+    return (await postJson<{ audioUrl: string }>('/speech', { text, lang }, signal)).audioUrl;
+  },
+
+  async *chat(message, history, lang, place, signal) {
+    // Only the current message carries its photos; earlier ones go by name, so the body does not grow with the chat
+    const sent = history.map(m => m.attachments?.length ? { ...m, attachments: m.attachments.map(({ name }) => ({ name, dataUrl: '' })) } : m);
+    const response = await request('/chat', { message, history: sent, lang, place }, signal);
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    try {
+      for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+        const text = decoder.decode(chunk.value, { stream: true });
+        if (text) yield text;
+      }
+      const rest = decoder.decode();
+      if (rest) yield rest;
+    } finally {
+      reader.releaseLock();
+    }
+  },
+};
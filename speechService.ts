@@ -0,0 +1,241 @@
+import { AIService } from './aiService';
+import { CacheService, CacheKeys, CacheTTL } from './cacheService';
+import { HERITAGE_SECTIONS, TextSectionKey } from './heritageSections';
+import { LANGUAGE_INFO } from './i18n';
+import { abortError } from './retry';
+import { HeritageCitations, HeritageContent, Language } from './types';
+
+// Narration for the audio guide: heritage content split into tracks of highlightable sentences,
+// spoken by the device's speech engine or, when it has no voice for the language, by generated audio.
+// Also speech-to-text for voice questions in the chat.
+
+export type SpeechEngine = 'device' | 'recorded';
+
+export interface NarrationTrack {
+  /** Section key, or `verse-<poet index>` for a recited verse. */
+  id: string;
+  section: keyof HeritageContent;
+  kind: 'section' | 'verse';
+  /** Language to speak in; a verse keeps the language of its own script. */
+  lang: Language;
+  /** Spoken one after another and highlighted while spoken: citation claims, sentences, or one entry per poet. */
+  units: string[];
+  /** Set on verse tracks. */
+  poetIndex?: number;
+  /** Multiplier on the listener's speed; verses are recited more slowly. */
+  rate: number;
+}
+
+// Scripts of the supported languages; Devanagari verses (Sanskrit included) get the Hindi voice
+const SCRIPTS: [RegExp, Language][] = [
+  [/[ఀ-౿]/, 'te'],
+  [/[ऀ-ॿ]/, 'hi'],
+  [/[஀-௿]/, 'ta'],
+  [/[ಀ-೿]/, 'kn'],
+  [/[଀-୿]/, 'or'],
+  [/[؀-ۿ]/, 'ur'],
+];
+
+export const detectLanguage = (text: string, fallback: Language): Language =>
+  SCRIPTS.find(([script]) => script.test(text))?.[1] || fallback;
+
+export const splitSentences = (text: string, lang: Language): string[] => {
+  const segmenter = new Intl.Segmenter(LANGUAGE_INFO[lang].locale, { granularity: 'sentence' });
+  return [...segmenter.segment(text)].map(s => s.segment.trim()).filter(Boolean);
+};
+
+/** Paragraphs of `text`, each split into sentences, matching how plain sections are rendered. */
+export const paragraphSentences = (text: string, lang: Language): string[][] =>
+  text.split(/\n+/).filter(p => p.trim()).map(p => splitSentences(p, lang));
+
+/** The narration for a place's content, in page order, with each poet's verse as its own track after the poets. */
+export const buildNarration = (content: Partial<HeritageContent>, citations: HeritageCitations | undefined, lang: Language): NarrationTrack[] => {
+  const tracks: NarrationTrack[] = [];
+  for (const { key } of HERITAGE_SECTIONS) {
+    if (key === 'poets') {
+      const poets = content.poets || [];
+      if (!poets.length) continue;
+      tracks.push({ id: key, section: key, kind: 'section', lang, units: poets.map(p => `${p.name}. ${p.period}. ${p.contribution}`), rate: 1 });
+      poets.forEach((poet, i) => {
+        if (poet.famousVerse.trim()) {
+          tracks.push({ id: `verse-${i}`, section: key, kind: 'verse', lang: detectLanguage(poet.famousVerse, lang), units: [poet.famousVerse.trim()], poetIndex: i, rate: 0.85 });
+        }
+      });
+      continue;
+    }
+    const text = content[key as TextSectionKey];
+    if (!text) continue;
+    const claims = citations?.[key as TextSectionKey];
+    const units = claims ? claims.map(c => c.text) : paragraphSentences(text, lang).flat();
+    if (units.length) tracks.push({ id: key, section: key, kind: 'section', lang, units, rate: 1 });
+  }
+  return tracks;
+};
+
+// FNV-1a, enough to tell regenerated text apart in cache keys
+const hashText = (text: string) => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) hash = Math.imul(hash ^ text.charCodeAt(i), 0x01000193);
+  return (hash >>> 0).toString(36);
+};
+
+const trackText = (track: NarrationTrack) => track.units.join(' ');
+
+let voicesPromise: Promise<SpeechSynthesisVoice[]> | null = null;
+
+// Browsers load voices asynchronously; give up waiting after a second
+const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  if (typeof speechSynthesis === 'undefined') return Promise.resolve([]);
+  if (!voicesPromise) {
+    voicesPromise = new Promise(resolve => {
+      const voices = speechSynthesis.getVoices();
+      if (voices.length) return resolve(voices);
+      const done = () => resolve(speechSynthesis.getVoices());
+      speechSynthesis.addEventListener('voiceschanged', done, { once: true });
+      setTimeout(done, 1000);
+    });
+  }
+  return voicesPromise;
+};
+
+const findVoice = async (lang: Language) => {
+  const locale = LANGUAGE_INFO[lang].locale.toLowerCase();
+  const voices = (await loadVoices()).map(voice => ({ voice, lang: voice.lang.replace('_', '-').toLowerCase() }));
+  return (voices.find(v => v.lang === locale) || voices.find(v => v.lang.split('-')[0] === lang))?.voice;
+};
+
+// Index of the unit being spoken once `fraction` of the track's text has been read
+const unitAt = (units: string[], fraction: number) => {
+  const total = units.reduce((sum, u) => sum + u.length, 0);
+  let read = 0;
+  for (let i = 0; i < units.length; i++) {
+    read += units[i].length;
+    if (read / total > fraction) return i;
+  }
+  return units.length - 1;
+};
+
+const unitStart = (units: string[], index: number) =>
+  units.slice(0, index).reduce((sum, u) => sum + u.length, 0) / units.reduce((sum, u) => sum + u.length, 0);
+
+// Speech recognition is not in TypeScript's DOM types, and Chromium only ships it prefixed
+interface Recognition {
+  lang: string;
+  interimResults: boolean;
+  continuous: boolean;
+  onresult: ((event: { resultIndex: number; results: ArrayLike<ArrayLike<{ transcript: string }> & { isFinal: boolean }> }) => void) | null;
+  onerror: ((event: { error: string }) => void) | null;
+  onend: (() => void) | null;
+  start(): void;
+  stop(): void;
+}
+
+declare global {
+  interface Window {
+    SpeechRecognition?: new () => Recognition;
+    webkitSpeechRecognition?: new () => Recognition;
+  }
+}
+
+const RecognitionImpl = typeof window !== 'undefined' ? window.SpeechRecognition || window.webkitSpeechRecognition : undefined;
+
+export const SpeechService = {
+  canRecognize: !!RecognitionImpl,
+
+  /**
+   * Transcribes one spoken question in `lang`, reporting the transcript so far as it grows.
+   * Resolves with the final transcript when the speaker pauses, or when `signal` aborts (stop listening).
+   */
+  recognize(lang: Language, onText: (text: string) => void, signal?: AbortSignal): Promise<string> {
+    if (!RecognitionImpl) return Promise.reject(new Error('Speech recognition is not supported in this browser'));
+    return new Promise((resolve, reject) => {
+      const recognition = new RecognitionImpl();
+      recognition.lang = LANGUAGE_INFO[lang].locale;
+      recognition.interimResults = true;
+      recognition.continuous = false;
+      let transcript = '';
+      let failure: Error | null = null;
+      const onAbort = () => recognition.stop();
+      recognition.onresult = (event) => {
+        transcript = Array.from(event.results, result => result[0].transcript).join('');
+        onText(transcript);
+      };
+      recognition.onerror = (event) => {
+        // Silence or an early stop just means an empty question
+        if (event.error !== 'no-speech' && event.error !== 'aborted') failure = new Error(`Speech recognition failed: ${event.error}`);
+      };
+      recognition.onend = () => {
+        signal?.removeEventListener('abort', onAbort);
+        failure ? reject(failure) : resolve(transcript.trim());
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      recognition.start();
+    });
+  },
+
+  /** The engine that will narrate `lang`: the device voice when there is one, otherwise generated audio. */
+  async engineFor(lang: Language): Promise<SpeechEngine> {
+    return (await findVoice(lang)) ? 'device' : 'recorded';
+  },
+
+  /** Speaks `text` with the device's speech engine, resolving when it finishes. */
+  async speak(text: string, lang: Language, rate: number, signal?: AbortSignal): Promise<void> {
+    const voice = await findVoice(lang);
+    if (signal?.aborted) throw abortError();
+    return new Promise((resolve, reject) => {
+      const utterance = new SpeechSynthesisUtterance(text);
+      utterance.lang = LANGUAGE_INFO[lang].locale;
+      utterance.rate = rate;
+      if (voice) utterance.voice = voice;
+      const onAbort = () => speechSynthesis.cancel();
+      utterance.onend = () => {
+        signal?.removeEventListener('abort', onAbort);
+        signal?.aborted ? reject(abortError()) : resolve();
+      };
+      utterance.onerror = (e) => {
+        signal?.removeEventListener('abort', onAbort);
+        reject(signal?.aborted || e.error === 'interrupted' || e.error === 'canceled' ? abortError() : new Error(`Speech failed: ${e.error}`));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+      speechSynthesis.speak(utterance);
+    });
+  },
+
+  /** Generated audio for a whole track, cached with the place's other content. */
+  getTrackAudio(placeName: string, track: NarrationTrack, signal?: AbortSignal): Promise<string> {
+    const text = trackText(track);
+    return CacheService.getOrLoad(CacheKeys.audio(placeName, track.lang, track.id, hashText(text)), CacheTTL.content,
+      () => AIService.synthesizeSpeech(text, track.lang, signal));
+  },
+
+  /**
+   * Plays a track's generated audio from unit `from`, reporting the unit being spoken as playback moves.
+   * Units are timed by their share of the track's text, since generated audio has no word timings.
+   */
+  playTrackAudio(url: string, track: NarrationTrack, from: number, rate: number, onUnit: (unit: number) => void, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) return Promise.reject(abortError());
+    return new Promise((resolve, reject) => {
+      const audio = new Audio(url);
+      let current = from;
+      const finish = (error?: unknown) => {
+        audio.pause();
+        signal?.removeEventListener('abort', onAbort);
+        error ? reject(error) : resolve();
+      };
+      const onAbort = () => finish(abortError());
+      audio.onloadedmetadata = () => {
+        audio.currentTime = audio.duration * unitStart(track.units, from);
+        audio.playbackRate = rate;
+        audio.play().catch(finish);
+      };
+      audio.ontimeupdate = () => {
+        if (!audio.duration) return;
+        const unit = unitAt(track.units, audio.currentTime / audio.duration);
+        if (unit !== current) onUnit(current = unit);
+      };
+      audio.onended = () => finish();
+      audio.onerror = () => finish(new Error('Audio playback failed'));
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  },
+};
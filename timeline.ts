@@ -0,0 +1,199 @@
+import { HERITAGE_SECTIONS, TextSectionKey } from './heritageSections';
+import { HeritageCitations, HeritageContent, Poet, TimelineEvent, TimelineEventKind } from './types';
+
+// Dated events pulled out of generated content, and the dynasties they are plotted against.
+// Dates are recognised in every app language (numerals, centuries and era markers); the kind of event is read from
+// English keywords, so in other languages most events are plain `event`s.
+
+export interface DynastyBand {
+  label: string;
+  start: number;
+  end: number;
+  /** Tailwind background class for the band. */
+  color: string;
+}
+
+// Conventional ruling dates in the Andhra region; scholars differ by decades on most of them
+export const DYNASTY_BANDS: DynastyBand[] = [
+  { label: 'Mauryan', start: -322, end: -185, color: 'bg-orange-200' },
+  { label: 'Satavahana', start: -100, end: 220, color: 'bg-amber-200' },
+  { label: 'Ikshvaku', start: 225, end: 340, color: 'bg-lime-200' },
+  { label: 'Pallava', start: 275, end: 897, color: 'bg-emerald-200' },
+  { label: 'Vishnukundina', start: 420, end: 624, color: 'bg-teal-200' },
+  { label: 'Badami Chalukya', start: 543, end: 753, color: 'bg-cyan-200' },
+  { label: 'Eastern Chalukya', start: 624, end: 1070, color: 'bg-sky-200' },
+  { label: 'Eastern Ganga', start: 1078, end: 1434, color: 'bg-blue-200' },
+  { label: 'Kakatiya', start: 1163, end: 1323, color: 'bg-indigo-200' },
+  { label: 'Reddi', start: 1325, end: 1448, color: 'bg-violet-200' },
+  { label: 'Vijayanagara', start: 1336, end: 1646, color: 'bg-rose-200' },
+  { label: 'Qutb Shahi', start: 1518, end: 1687, color: 'bg-fuchsia-200' },
+  { label: 'Asaf Jahi', start: 1724, end: 1948, color: 'bg-purple-200' },
+  { label: 'Colonial', start: 1765, end: 1947, color: 'bg-stone-300' },
+];
+
+const KIND_KEYWORDS: { kind: TimelineEventKind; keywords: string[] }[] = [
+  { kind: 'invasion', keywords: ['invaded', 'invasion', 'sacked', 'plundered', 'destroyed', 'raided', 'captured', 'conquered', 'attacked', 'fell to', 'battle'] },
+  { kind: 'renovation', keywords: ['renovated', 'renovation', 'restored', 'restoration', 'rebuilt', 'repaired', 'reconstructed', 'conserved', 'expanded'] },
+  { kind: 'founded', keywords: ['built', 'constructed', 'founded', 'established', 'erected', 'consecrated', 'excavated', 'carved', 'laid'] },
+  { kind: 'patronage', keywords: ['patron', 'patronage', 'commissioned', 'endowed', 'grant', 'donated', 'donation', 'sponsored', 'gifted', 'reign'] },
+];
+
+// Era markers: English, then Telugu, Hindi, Tamil, Kannada, Odia and Urdu. Indian languages usually put the
+// marker first ("క్రీ.శ. 1530"), English either side ("AD 1530", "1530 CE"), so both positions are read.
+const BCE = String.raw`BCE|B\.C\.E\.|BC|B\.C\.|క్రీ\.?\s?పూ\.?|ई\.?\s?पू\.?|ईसा\s?पूर्व|கி\.?\s?மு\.?|ಕ್ರಿ\.?\s?ಪೂ\.?|ଖ୍ରୀଷ୍ଟପୂର୍ବ|ق\.?\s?م`;
+const CE = String.raw`CE|C\.E\.|AD|A\.D\.|క్రీ\.?\s?శ\.?|ई\.|ईस्वी|ईसवी|கி\.?\s?பி\.?|ಕ್ರಿ\.?\s?ಶ\.?|ଖ୍ରୀଷ୍ଟାବ୍ଦ|ء`;
+// An era marker standing on its own, not the start or end of a longer word
+const era = (name: string) => String.raw`(?<![\p{L}\p{M}])(?<${name}>${BCE}|${CE})(?![\p{L}\p{M}])`;
+const ORDINAL = String.raw`(?:st|nd|rd|th|వ|वीं|वी|ஆம்|ನೇ|ଶ|ତମ|ویں)?`;
+const CENTURY = String.raw`(?:centur(?:y|ies)|శతాబ్దం|శతాబ్ది|शताब्दी|सदी|நூற்றாண்டு|ಶತಮಾನ|ଶତାବ୍ଦୀ|صدی)`;
+const part = (name: string) => String.raw`(?:(?<${name}>early|mid|middle|late)[\s-]+)?`;
+const TO = String.raw`\s*(?:–|—|-|to)\s*`;
+// What makes a bare number a year: a word before it ("in 1530", "reign 1509–29"), which is left out of the match, or
+// circa, which is kept. A number in parentheses counts too, when nothing else is inside them: "(1530)", "(1509–29)".
+const DATE_CONTEXT = String.raw`(?:(?<=\b(?:in|by|from|since|until|till|year|between|during|around|dated|reign|ruled|r\.)\s+)|\b(?:c\.|ca\.|circa)\s*)`;
+// The word after a bare number, to tell "in 1530 the temple" from "in 500 years"
+const NEXT_WORD = String.raw`(?=(?:\s+(?<next>\p{L}+))?)`;
+// Words that may follow a year; any other lowercase word makes the number a count or a measure
+const FOLLOWS_YEAR = new Set([
+  'a', 'after', 'an', 'and', 'as', 'at', 'before', 'but', 'by', 'during', 'for', 'from', 'he', 'her', 'his', 'in', 'it',
+  'its', 'of', 'on', 'or', 'she', 'that', 'the', 'their', 'these', 'they', 'this', 'to', 'under', 'until', 'was', 'were',
+  'when', 'where', 'which', 'while', 'who', 'with',
+]);
+
+type Groups = Record<string, string | undefined>;
+
+// A lowercase word that cannot follow a year, as in "500 people" or "1000 pillars"
+const counted = (next?: string) => !!next && next === next.toLowerCase() && next !== next.toUpperCase() && !FOLLOWS_YEAR.has(next);
+
+// "1509–29" ends in 1529
+const yearRange = ({ a = '', b = '' }: Groups): [number, number] | null => {
+  const end = Number(b.length < a.length ? a.slice(0, a.length - b.length) + b : b);
+  return end > Number(a) ? [Number(a), end] : null;
+};
+
+// Most specific first, so "3rd century BCE – 3rd century CE" is one range rather than two centuries
+const PATTERNS: { pattern: RegExp; parse: (g: Groups) => [number, number] | null }[] = [
+  {
+    pattern: new RegExp(String.raw`(?:${era('pre')}\s*)?${part('part1')}(?<n1>\d{1,2})\s*${ORDINAL}\s*(?:${CENTURY})?\s*(?:${era('era1')})?${TO}${part('part2')}(?<n2>\d{1,2})\s*${ORDINAL}[\s-]*${CENTURY}\s*(?:${era('era2')})?`, 'giu'),
+    parse: g => {
+      const [start] = century(Number(g.n1), g.era1 || g.pre || g.era2, g.part1);
+      const [, end] = century(Number(g.n2), g.era2 || g.pre, g.part2);
+      return [start, end];
+    },
+  },
+  {
+    pattern: new RegExp(String.raw`(?:${era('pre')}\s*)?${part('part')}(?<n>\d{1,2})\s*${ORDINAL}[\s-]*${CENTURY}\s*(?:${era('era')})?`, 'giu'),
+    parse: g => century(Number(g.n), g.era || g.pre, g.part),
+  },
+  {
+    pattern: new RegExp(String.raw`(?:${era('pre')}\s*)?(?<a>\d{1,4})${TO}(?<b>\d{1,4})\s*(?:${era('era')})?`, 'giu'),
+    parse: g => {
+      const marker = g.era || g.pre;
+      return marker ? [year(Number(g.a), marker), year(Number(g.b), marker)] : null;
+    },
+  },
+  // "from 1336 to 1646", "(1509–29)"; not "Room 101-105"
+  { pattern: new RegExp(String.raw`${DATE_CONTEXT}(?<a>\d{3,4})${TO}(?<b>\d{2,4})\b${NEXT_WORD}`, 'giu'), parse: g => counted(g.next) ? null : yearRange(g) },
+  { pattern: new RegExp(String.raw`(?<=\()(?<a>\d{3,4})${TO}(?<b>\d{2,4})(?=\))`, 'gu'), parse: yearRange },
+  { pattern: /\b(?<decade>\d{3})0s\b/g, parse: g => [Number(g.decade) * 10, Number(g.decade) * 10 + 9] },
+  {
+    pattern: new RegExp(String.raw`${era('pre')}\s*(?<a>\d{1,4})|(?<b>\d{1,4})\s*${era('era')}`, 'giu'),
+    parse: g => {
+      const value = year(Number(g.a || g.b), g.pre || g.era);
+      return [value, value];
+    },
+  },
+  // "built in 1530", "c. 1530", "(1530)"; not "about 500 people", "(1000 pillars)" or "in 500 years"
+  { pattern: new RegExp(String.raw`${DATE_CONTEXT}(?<a>\d{3,4})\b${NEXT_WORD}`, 'giu'), parse: g => counted(g.next) ? null : [Number(g.a), Number(g.a)] },
+  { pattern: /(?<=\()(?<a>\d{3,4})(?=\))/g, parse: g => [Number(g.a), Number(g.a)] },
+];
+
+const isBce = (marker?: string) => !!marker && new RegExp(`^(?:${BCE})$`, 'iu').test(marker);
+
+const year = (value: number, marker?: string) => isBce(marker) ? -value : value;
+
+// The years a century (or its early, mid or late third) covers, e.g. 16th CE = 1500–1599 and 3rd BCE = 300–201 BCE
+const century = (n: number, marker?: string, part?: string): [number, number] => {
+  let [start, end] = isBce(marker) ? [-n * 100, -(n - 1) * 100 - 1] : [(n - 1) * 100, n * 100 - 1];
+  const third = Math.round((end - start) / 3);
+  if (part === 'early') end = start + third;
+  else if (part === 'mid' || part === 'middle') [start, end] = [start + third, end - third];
+  else if (part === 'late') start = end - third;
+  return [start, end];
+};
+
+// Native digits (Devanagari to Malayalam, and Urdu's extended Arabic-Indic) read as ASCII
+const asciiDigits = (text: string) =>
+  text.replace(/[०-९০-৯੦-੯૦-૯୦-୯௦-௯౦-౯೦-೯൦-൯]/g, d => String((d.codePointAt(0)! & 0x7f) - 0x66))
+    .replace(/[۰-۹]/g, d => String(d.codePointAt(0)! - 0x06f0));
+
+const classify = (text: string): TimelineEventKind => {
+  const lower = text.toLowerCase();
+  return KIND_KEYWORDS.find(rule => rule.keywords.some(k => lower.includes(k)))?.kind || 'event';
+};
+
+const MIN_YEAR = -1000;
+const MAX_YEAR = new Date().getFullYear();
+
+/** Every date range written in `text`, with the words leading up to each, in the order they appear. */
+export const findDates = (text: string): { start: number; end: number; dateText: string; context: string }[] => {
+  const source = asciiDigits(text);
+  const taken: [number, number][] = [];
+  const found: { start: number; end: number; dateText: string; index: number }[] = [];
+  for (const { pattern, parse } of PATTERNS) {
+    pattern.lastIndex = 0;
+    for (let m = pattern.exec(source); m; m = pattern.exec(source)) {
+      const from = m.index;
+      const to = from + m[0].length;
+      if (taken.some(([a, b]) => from < b && to > a)) continue;
+      const range = parse(m.groups || {});
+      if (!range) continue;
+      const [start, end] = range[0] <= range[1] ? range : [range[1], range[0]];
+      if (start < MIN_YEAR || end > MAX_YEAR) continue;
+      taken.push([from, to]);
+      found.push({ start, end, dateText: text.slice(from, to).trim(), index: from });
+    }
+  }
+  found.sort((a, b) => a.index - b.index);
+  // Each date is classified by the clause before it, so "built in 1530 and renovated in 1890" gives two kinds
+  return found.map((date, i) => ({ ...date, context: source.slice(i ? found[i - 1].index : 0, date.index + date.dateText.length) }));
+};
+
+// Splits on sentence ends, but not on the full stops in "c. 1530" or "B.C. 200"
+const sentences = (text: string) => text.split(/(?<=[.!?।۔])\s+(?=[^\sa-z0-9])/u).map(s => s.trim()).filter(Boolean);
+
+const normalize = (placeName: string) => placeName.trim().toLowerCase();
+
+/**
+ * The dated events in a place's generated content. Cited sections are read claim by claim, the rest sentence by
+ * sentence; poets contribute their lifetimes. Identical events repeated across sentences are kept once.
+ */
+export const extractEvents = (placeName: string, content: Partial<HeritageContent>, citations: HeritageCitations = {}): TimelineEvent[] => {
+  const events: TimelineEvent[] = [];
+  const seen = new Set<string>();
+  const add = (event: Omit<TimelineEvent, 'id' | 'placeName'>) => {
+    const key = `${event.section}|${event.kind}|${event.start}|${event.end}|${event.text}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    events.push({ id: `${normalize(placeName)}:${event.section}:${events.length}`, placeName, ...event });
+  };
+
+  for (const { key } of HERITAGE_SECTIONS) {
+    if (key === 'poets') continue;
+    const section = key as TextSectionKey;
+    const text = content[section];
+    if (!text) continue;
+    const parts = citations[section]?.map(claim => claim.text) || sentences(text);
+    for (const part of parts) {
+      for (const date of findDates(part)) {
+        add({ section, kind: classify(date.context), start: date.start, end: date.end, dateText: date.dateText, text: part });
+      }
+    }
+  }
+
+  for (const poet of (content.poets || []) as Poet[]) {
+    const [date] = findDates(poet.period);
+    if (date) add({ section: 'poets', kind: 'poet', start: date.start, end: date.end, dateText: date.dateText, text: poet.name });
+  }
+  return events;
+};
@@ -0,0 +1,34 @@
+import { CacheService, CacheKeys } from './cacheService';
+import { CatalogService } from './catalogService';
+import { BookmarkService } from './bookmarkService';
+import { validateContent } from './heritageValidation';
+import { extractEvents } from './timeline';
+import { HeritageCitations, HeritageContent, Language, TimelineEvent } from './types';
+
+const normalize = (placeName: string) => placeName.trim().toLowerCase();
+
+export const TimelineService = {
+  /**
+   * Dated events across the catalogued and bookmarked places: each catalogued site's own dating, plus whatever
+   * events can be read from the content generated for a place in `lang` so far. Places nobody has opened yet
+   * contribute only their catalog dating.
+   */
+  async load(lang: Language): Promise<TimelineEvent[]> {
+    const bookmarks = await BookmarkService.listBookmarks().catch(() => []);
+    const names = [...CatalogService.sites.map(site => site.titles.en), ...bookmarks.map(b => b.placeName)]
+      .filter((name, i, all) => all.findIndex(other => normalize(other) === normalize(name)) === i);
+
+    const events: TimelineEvent[] = CatalogService.sites.map(site => {
+      const [start, end] = site.century < 0 ? [site.century * 100, site.century * 100 + 99] : [(site.century - 1) * 100, site.century * 100 - 1];
+      return { id: `${site.id}:site`, placeName: site.titles.en, section: 'overview', kind: 'site', start, end, dateText: site.period, text: site.name };
+    });
+
+    for (const name of names) {
+      const content = await CacheService.get<Partial<HeritageContent>>(CacheKeys.content(name, lang));
+      if (!content) continue;
+      const citations = await CacheService.get<HeritageCitations>(CacheKeys.citations(name, lang));
+      events.push(...extractEvents(name, validateContent(content.value), citations?.value));
+    }
+    return events;
+  },
+};
@@ -0,0 +1,127 @@
+// Loose romanisation for search, so "Lepakshi", "లేపాక్షి" and "लेपाक्षी" all reduce to the same key.
+// Not a transliteration scheme for display (see TransliterationScheme for that): it deliberately throws away
+// vowel length, aspiration and retroflexion, the distinctions English spellings of Indian place names rarely keep.
+
+// The Brahmic Unicode blocks (Devanagari to Malayalam) share one 128-character layout, so one table covers
+// Hindi, Telugu, Tamil, Kannada and Odia. Indexed by code point within the block.
+const INDIC_BLOCK_START = 0x0900;
+const INDIC_BLOCK_END = 0x0d7f;
+const DEVANAGARI_END = 0x097f;
+
+const VOWELS: Record<number, string> = {
+  0x05: 'a', 0x06: 'aa', 0x07: 'i', 0x08: 'ii', 0x09: 'u', 0x0a: 'uu', 0x0b: 'ri', 0x0c: 'li',
+  0x0d: 'e', 0x0e: 'e', 0x0f: 'e', 0x10: 'ai', 0x11: 'o', 0x12: 'o', 0x13: 'o', 0x14: 'au', 0x60: 'ri', 0x61: 'li',
+};
+
+const VOWEL_SIGNS: Record<number, string> = {
+  0x3e: 'aa', 0x3f: 'i', 0x40: 'ii', 0x41: 'u', 0x42: 'uu', 0x43: 'ri', 0x44: 'ri', 0x45: 'e', 0x46: 'e', 0x47: 'e',
+  0x48: 'ai', 0x49: 'o', 0x4a: 'o', 0x4b: 'o', 0x4c: 'au', 0x57: 'au', 0x62: 'li', 0x63: 'li',
+};
+
+const CONSONANTS: Record<number, string> = {
+  0x15: 'k', 0x16: 'kh', 0x17: 'g', 0x18: 'gh', 0x19: 'n', 0x1a: 'ch', 0x1b: 'chh', 0x1c: 'j', 0x1d: 'jh', 0x1e: 'n',
+  0x1f: 't', 0x20: 'th', 0x21: 'd', 0x22: 'dh', 0x23: 'n', 0x24: 't', 0x25: 'th', 0x26: 'd', 0x27: 'dh', 0x28: 'n',
+  0x29: 'n', 0x2a: 'p', 0x2b: 'ph', 0x2c: 'b', 0x2d: 'bh', 0x2e: 'm', 0x2f: 'y', 0x30: 'r', 0x31: 'r', 0x32: 'l',
+  0x33: 'l', 0x34: 'l', 0x35: 'v', 0x36: 'sh', 0x37: 'sh', 0x38: 's', 0x39: 'h',
+  0x58: 'k', 0x59: 'kh', 0x5a: 'g', 0x5b: 'z', 0x5c: 'r', 0x5d: 'rh', 0x5e: 'f', 0x5f: 'y',
+};
+
+const VIRAMA = 0x4d;
+const NASALS: Record<number, string> = { 0x01: 'n', 0x02: 'm' };
+const VISARGA = 0x03;
+const DIGITS_START = 0x66;
+
+/**
+ * Romanises Brahmic-script text, leaving everything else untouched. Each consonant carries an inherent "a" unless a
+ * vowel sign or virama follows; in Devanagari the word-final one is dropped, as Hindi pronounces it.
+ */
+export const romanize = (text: string) => {
+  let out = '';
+  // Whether the last consonant still owes its inherent vowel, and whether it was Devanagari
+  let pending: false | 'devanagari' | 'other' = false;
+  const settle = (atWordEnd: boolean) => {
+    if (pending && !(atWordEnd && pending === 'devanagari')) out += 'a';
+    pending = false;
+  };
+
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if (code < INDIC_BLOCK_START || code > INDIC_BLOCK_END) {
+      settle(true);
+      out += char;
+      continue;
+    }
+    const index = code & 0x7f;
+    if (index === VIRAMA) {
+      pending = false;
+    } else if (VOWEL_SIGNS[index]) {
+      pending = false;
+      out += VOWEL_SIGNS[index];
+    } else if (CONSONANTS[index]) {
+      settle(false);
+      out += CONSONANTS[index];
+      pending = code <= DEVANAGARI_END ? 'devanagari' : 'other';
+    } else if (VOWELS[index]) {
+      settle(false);
+      out += VOWELS[index];
+    } else if (NASALS[index]) {
+      settle(false);
+      out += NASALS[index];
+    } else if (index === VISARGA) {
+      settle(false);
+      out += 'h';
+    } else if (index >= DIGITS_START && index < DIGITS_START + 10) {
+      settle(true);
+      out += String(index - DIGITS_START);
+    }
+    // Nukta, avagraha and length marks add nothing to the key
+  }
+  settle(true);
+  return out;
+};
+
+// Applied in order to lower-case Latin text. Aspirates and sibilants collapse first, so "ksh" ends up as "ks".
+const FOLDS: [RegExp, string][] = [
+  [/chh|ch/g, 'c'],
+  [/sh/g, 's'],
+  [/([kgjtdpb])h/g, '$1'],
+  [/x/g, 'ks'],
+  [/w/g, 'v'],
+  [/z/g, 'j'],
+  [/q/g, 'k'],
+  [/f/g, 'p'],
+  [/aa/g, 'a'],
+  [/ii|ee/g, 'i'],
+  [/uu|oo/g, 'u'],
+  // An anusvara reads as "m" before labials and "n" elsewhere, whichever way it was written
+  [/m(?=[^aeioupbm\s])/g, 'n'],
+  [/y\b/g, 'i'],
+  [/(.)\1+/g, '$1'],
+];
+
+/** The search key for a name in any supported script: romanised, stripped of diacritics and loosely folded. */
+export const searchKey = (text: string) => {
+  let key = romanize(text.normalize('NFC'))
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+  for (const [pattern, replacement] of FOLDS) key = key.replace(pattern, replacement);
+  return key;
+};
+
+/** Levenshtein distance, giving up (returning `max + 1`) once it is certain to exceed `max`. */
+export const editDistance = (a: string, b: string, max = Infinity) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    if (Math.min(...current) > max) return max + 1;
+    previous = current;
+  }
+  return previous[b.length];
+};
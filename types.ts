@@ -1,12 +1,19 @@
 
-export type Language = 'en' | 'te' | 'hi';
+export type Language = 'en' | 'te' | 'hi' | 'ta' | 'kn' | 'or' | 'ur';
 
 export interface Poet {
   name: string;
   period: string;
   language: string;
   contribution: string;
+  /** Major works, by their usual titles. */
+  works: string[];
+  /** In its original language and script. */
   famousVerse: string;
+  /** The verse in Latin script (ISO 15919). */
+  verseTransliteration: string;
+  /** The verse translated into the language the content was generated in. */
+  verseTranslation: string;
   source: string;
 }
 
@@ -23,20 +30,399 @@ export interface HeritageContent {
   poets: Poet[];
 }
 
+/** A Wikipedia article at the exact revision used as generation input. */
+export interface WikiSource {
+  lang: Language;
+  title: string;
+  revisionId: number;
+  url: string;
+}
+
+/** A labelled chunk of source text handed to the model, e.g. one article section. */
+export interface SourcePassage {
+  id: string;
+  heading: string;
+  anchor?: string;
+  text: string;
+  source?: WikiSource;
+}
+
+export interface WikiInfobox {
+  built?: string;
+  architect?: string;
+  dynasty?: string;
+  coordinates?: Coordinates;
+  /** Every infobox parameter, reduced to plain text. */
+  fields: Record<string, string>;
+}
+
+/** A full Wikipedia article from one language edition, split into sections. */
+export interface WikiArticle {
+  source: WikiSource;
+  sections: SourcePassage[];
+  infobox?: WikiInfobox;
+  /** Titles of the same article in the other supported editions, from interlanguage links. */
+  langlinks: Partial<Record<Language, string>>;
+}
+
+/** One generated sentence or claim and the passage ids it is based on (empty when uncited). */
+export interface CitedClaim {
+  text: string;
+  sources: string[];
+}
+
+export type HeritageCitations = Partial<Record<Exclude<keyof HeritageContent, 'poets'>, CitedClaim[]>>;
+
 export interface WikiImage {
   url: string;
   caption: string;
+  thumbUrl?: string;
+  width?: number;
+  height?: number;
+  author?: string;
+  license?: string;
+  licenseUrl?: string;
+  /** The file's description page on Wikimedia Commons / Wikipedia. */
+  descriptionUrl?: string;
+}
+
+export interface Coordinates {
+  lat: number;
+  lng: number;
 }
 
 export interface PlaceDetails {
   id: string;
   name: string;
-  coords?: { lat: number; lng: number };
-  content?: HeritageContent;
+  summary?: string;
+  source?: WikiSource;
+  passages?: SourcePassage[];
+  infobox?: WikiInfobox;
+  coords?: Coordinates;
+  content?: Partial<HeritageContent>;
+  citations?: HeritageCitations;
+  /** Sections that could not be generated, with the reason. */
+  sectionErrors?: Partial<Record<keyof HeritageContent, string>>;
   images: WikiImage[];
 }
 
+/** A photo sent with a chat message, e.g. an inscription or sculpture to identify. */
+export interface ChatAttachment {
+  /** Downscaled JPEG data URL. */
+  dataUrl: string;
+  name?: string;
+}
+
 export interface ChatMessage {
   role: 'user' | 'model';
   text: string;
+  attachments?: ChatAttachment[];
+  /** Set while the question waits in the outbox to be sent once the device is back online. */
+  outboxId?: string;
+}
+
+export interface MapPlace {
+  name: string;
+  coords: Coordinates;
+}
+
+export interface PlaceComparison {
+  architecture: string;
+  period: string;
+  patrons: string;
+  traditions: string;
+  summary: string;
+}
+
+export interface ReconstructionResult {
+  imageUrl: string;
+  prompt: string;
+}
+
+export interface ReconstructionOptions {
+  period?: string;
+  style?: string;
+  notes?: string;
+  /** Black/white PNG data URL; white marks the damaged region to restore. */
+  maskDataUrl?: string;
+}
+
+/** A question with one right option: about the generated content, or identifying a gallery photo. */
+export interface QuizChoiceQuestion {
+  kind: 'choice' | 'image';
+  prompt: string;
+  imageUrl?: string;
+  options: string[];
+  /** Index into `options`. */
+  answer: number;
+  /** Why the answer is right, shown when the learner gets it wrong. */
+  explanation: string;
+  section?: keyof HeritageContent;
+}
+
+/** Match every item (a poet) to its partner (their period). */
+export interface QuizMatchQuestion {
+  kind: 'match';
+  prompt: string;
+  pairs: { item: string; match: string }[];
+  explanation: string;
+}
+
+export type QuizQuestion = QuizChoiceQuestion | QuizMatchQuestion;
+
+/** The option index for a choice question, or the match picked for each pair of a match question. */
+export type QuizAnswer = number | string[];
+
+export interface QuizAttempt {
+  placeName: string;
+  /** The learning path the quiz was taken in, if any. */
+  pathId?: string;
+  lang: Language;
+  score: number;
+  total: number;
+  completedAt: number;
+}
+
+/** Someone using the app on this device, e.g. one student of a class sharing a tablet. */
+export interface Learner {
+  id: string;
+  name: string;
+  createdAt: number;
+  attempts: QuizAttempt[];
+}
+
+export type Confidence = 'high' | 'medium' | 'low';
+
+export type TransliterationScheme = 'ISO 15919' | 'IAST';
+
+/** One line of an inscription as read off a photo. */
+export interface InscriptionLine {
+  /** The line in its original script, as far as it could be made out. */
+  original: string;
+  transliteration: string;
+  translation: string;
+  confidence: Confidence;
+}
+
+/** What the model could read from a photo of an inscription. */
+export interface InscriptionReading {
+  /** e.g. "Brahmi", "Telugu-Kannada", "Nagari". */
+  script: string;
+  scriptConfidence: Confidence;
+  /** Language of the text, e.g. "Prakrit", "Sanskrit", "Old Telugu". */
+  language: string;
+  /** Approximate date from the letter forms, e.g. "c. 2nd century BCE". */
+  period: string;
+  periodConfidence: Confidence;
+  scheme: TransliterationScheme;
+  lines: InscriptionLine[];
+  /** Translation of the whole text into the app language. */
+  translation: string;
+  /** Damage, uncertain readings and how the dating was reached. */
+  notes: string;
+}
+
+/** A reading saved against a place. */
+export interface InscriptionRecord extends InscriptionReading {
+  id: string;
+  placeName: string;
+  /** Downscaled copy of the photo the reading came from. */
+  imageDataUrl: string;
+  /** Language the translation is in. */
+  lang: Language;
+  createdAt: number;
+}
+
+export interface ReconstructionVersion extends ReconstructionResult {
+  id: string;
+  context: string;
+  options: ReconstructionOptions;
+  createdAt: number;
+}
+
+/** A reconstruction the user kept for a place, with the photo it was made from. */
+export interface ReconstructionRecord extends ReconstructionVersion {
+  placeName: string;
+  /** Downscaled copy of the uploaded photo. */
+  originalImageUrl: string;
+}
+
+/**
+ * A place exported as a self-contained file: the generated report with its sources and images, plus what the
+ * user saved against it. `version` is bumped whenever the shape changes so older files can be migrated on import.
+ */
+export interface HeritageDossier {
+  schema: 'itihaasa.dossier';
+  version: number;
+  exportedAt: number;
+  lang: Language;
+  place: PlaceDetails;
+  reconstructions: ReconstructionRecord[];
+  inscriptions: InscriptionRecord[];
+}
+
+/** A place the user bookmarked. Keyed by the normalised place name, so each place is bookmarked once. */
+export interface Bookmark {
+  id: string;
+  placeName: string;
+  createdAt: number;
+}
+
+/** A named group of places, e.g. the stops of a field trip. */
+export interface Collection {
+  id: string;
+  name: string;
+  placeNames: string[];
+  createdAt: number;
+}
+
+/** The user's note on one section of a place. Keyed by place and section, so each section has at most one. */
+export interface PlaceNote {
+  id: string;
+  placeName: string;
+  section: keyof HeritageContent;
+  text: string;
+  updatedAt: number;
 }
+
+/** A chat answer the user kept with a place. */
+export interface PinnedAnswer {
+  id: string;
+  placeName: string;
+  question: string;
+  answer: string;
+  lang: Language;
+  createdAt: number;
+}
+
+/** Bookmarks, collections, notes and pinned answers as an exported file, versioned like `HeritageDossier`. */
+export interface LibraryExport {
+  schema: 'itihaasa.library';
+  version: number;
+  exportedAt: number;
+  bookmarks: Bookmark[];
+  collections: Collection[];
+  notes: PlaceNote[];
+  pins: PinnedAnswer[];
+}
+
+export type HeritageReligion = 'hindu' | 'buddhist' | 'jain' | 'islamic' | 'christian' | 'secular';
+
+export type HeritageCategory = 'temple' | 'stupa' | 'cave' | 'fort' | 'monastery' | 'mosque' | 'church' | 'palace' | 'archaeological';
+
+/** A curated heritage site, shipped with the app in catalog/*.json. */
+export interface HeritageSite {
+  /** Stable slug, e.g. `lepakshi`. */
+  id: string;
+  /** Display name in English. */
+  name: string;
+  /** Archaeological Survey of India monument number, for centrally protected sites. */
+  asiId?: string;
+  state: string;
+  district: string;
+  /** Human-readable dating, e.g. "16th century CE". */
+  period: string;
+  /** Century the main surviving fabric dates from, negative for BCE; used for sorting. */
+  century: number;
+  dynasty: string;
+  religion: HeritageReligion;
+  category: HeritageCategory;
+  coords: Coordinates;
+  /** Wikipedia article titles by language. English is required; it is the title the app loads the place under. */
+  titles: { en: string } & Partial<Record<Language, string>>;
+  /** Other names and spellings people search for, in any script. */
+  aliases?: string[];
+}
+
+/** One region's sites as shipped data. Versioned like `HeritageDossier`, so the import tool can upgrade old files. */
+export interface HeritageCatalog {
+  schema: 'itihaasa.catalog';
+  version: number;
+  /** The state the file covers, e.g. "Andhra Pradesh". */
+  region: string;
+  sites: HeritageSite[];
+}
+
+export type TimelineEventKind = 'founded' | 'patronage' | 'invasion' | 'renovation' | 'poet' | 'event' | 'site';
+
+/** A dated event at a place, extracted from its generated content (or, for `site`, from the catalog's dating). */
+export interface TimelineEvent {
+  id: string;
+  placeName: string;
+  /** Section the event was read from, to jump to when it is opened. */
+  section: keyof HeritageContent;
+  kind: TimelineEventKind;
+  /** First and last year covered, negative for BCE. Equal for a single year. */
+  start: number;
+  end: number;
+  /** The date as written in the source, e.g. "16th century" or "1530". */
+  dateText: string;
+  /** The sentence the date was found in, or the poet's name. */
+  text: string;
+}
+
+/** A verse by a poet, as quoted in a place's generated content. */
+export interface PoetVerse {
+  /** In its original language and script. */
+  original: string;
+  transliteration: string;
+  /** Translations into app languages, added as the verse is read in each. */
+  translations: Partial<Record<Language, string>>;
+  /** The place whose content quoted it, and the passage there that mentions the poet. */
+  placeName: string;
+  source: string;
+}
+
+/** A verse read into an app language: its transliteration and a translation. */
+export interface VerseTranslation {
+  transliteration: string;
+  translation: string;
+}
+
+/** One poet, however their name was spelled, gathered from every place whose content mentions them. */
+export interface PoetProfile {
+  id: string;
+  name: string;
+  /** Other spellings and scripts the poet has been named in. */
+  aliases: string[];
+  period: string;
+  language: string;
+  works: string[];
+  /** What the poet is known for, in each language it has been generated in. */
+  contributions: Partial<Record<Language, string>>;
+  verses: PoetVerse[];
+  /** Places whose content mentions the poet. */
+  places: string[];
+  updatedAt: number;
+}
+
+/** A place downloaded for use without a network. */
+export interface OfflinePlace {
+  id: string;
+  placeName: string;
+  /** Languages its generated content was downloaded in. */
+  langs: Language[];
+  /** Image URLs stored for it, full size and thumbnail, for removal. */
+  imageUrls: string[];
+  downloadedAt: number;
+}
+
+/** A request made offline, sent automatically when connectivity returns. */
+export type OutboxItem = { id: string; createdAt: number } & (
+  | {
+    kind: 'chat';
+    message: ChatMessage;
+    history: ChatMessage[];
+    lang: Language;
+    /** The place open when the question was asked, used as grounding. */
+    placeName?: string;
+  }
+  | {
+    kind: 'reconstruction';
+    /** The place the result is saved against, when the upload is of one. */
+    placeName?: string;
+    imageDataUrl: string;
+    context: string;
+    options: ReconstructionOptions;
+  }
+);
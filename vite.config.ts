@@ -2,17 +2,25 @@ import path from 'path';
 import { defineConfig, loadEnv } from 'vite';
 import react from '@vitejs/plugin-react';
 
-export default defineConfig(({ mode }) => {
+export default defineConfig(({ mode, isSsrBuild }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
+        proxy: {
+          // The API server (npm run server) holds the Gemini key; the browser only ever talks to it
+          '/api': `http://localhost:${env.PORT || 8787}`,
+        },
       },
       plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+      // Only public settings reach the browser bundle. The server build (npm run build:server) reads its own
+      // environment at runtime instead.
+      define: isSsrBuild ? {} : {
+        'process.env.AI_PROVIDER': JSON.stringify(env.AI_PROVIDER),
+        'process.env.API_BASE_URL': JSON.stringify(env.API_BASE_URL),
+        'process.env.MAP_TILE_URL': JSON.stringify(env.MAP_TILE_URL),
+        'process.env.MAP_TILE_ATTRIBUTION': JSON.stringify(env.MAP_TILE_ATTRIBUTION)
       },
       resolve: {
         alias: {
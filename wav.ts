@@ -0,0 +1,40 @@
+// Wraps raw 16-bit mono PCM in a WAV container so <audio> can play it.
+
+const base64ToBytes = (base64: string) => Uint8Array.from(atob(base64), c => c.charCodeAt(0));
+
+const bytesToBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Chunked, since spreading a large array into fromCharCode overflows the stack
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+
+export const pcmToWavDataUrl = (pcm: Uint8Array, sampleRate: number) => {
+  const header = new DataView(new ArrayBuffer(44));
+  const writeString = (offset: number, text: string) => [...text].forEach((c, i) => header.setUint8(offset + i, c.charCodeAt(0)));
+  writeString(0, 'RIFF');
+  header.setUint32(4, 36 + pcm.length, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  header.setUint32(16, 16, true);
+  header.setUint16(20, 1, true); // PCM
+  header.setUint16(22, 1, true); // mono
+  header.setUint32(24, sampleRate, true);
+  header.setUint32(28, sampleRate * 2, true);
+  header.setUint16(32, 2, true);
+  header.setUint16(34, 16, true);
+  writeString(36, 'data');
+  header.setUint32(40, pcm.length, true);
+
+  const wav = new Uint8Array(44 + pcm.length);
+  wav.set(new Uint8Array(header.buffer), 0);
+  wav.set(pcm, 44);
+  return `data:audio/wav;base64,${bytesToBase64(wav)}`;
+};
+
+/** Gemini returns `audio/L16;codec=pcm;rate=24000` as base64. */
+export const pcmBase64ToWavDataUrl = (base64: string, mimeType = '') =>
+  pcmToWavDataUrl(base64ToBytes(base64), Number(mimeType.match(/rate=(\d+)/)?.[1]) || 24000);
+
+export const silentWavDataUrl = (seconds: number, sampleRate = 8000) =>
+  pcmToWavDataUrl(new Uint8Array(Math.round(seconds * sampleRate) * 2), sampleRate);
@@ -1,43 +1,122 @@
 
-import { WikiImage } from './types';
+import { Coordinates, Language, SourcePassage, WikiArticle, WikiImage, WikiSource } from './types';
+import { parseInfobox, splitSections } from './wikitext';
+import { fetchJson } from './retry';
+import { LANGUAGES, translate } from './i18n';
+import { config } from './config';
+
+// Keep prompts bounded: long articles are truncated per section and overall
+const MAX_SECTION_CHARS = 4000;
+const MAX_ARTICLE_CHARS = 40000;
+
+const THUMB_WIDTH = 800;
+const MIN_IMAGE_SIDE = 300;
+const PHOTO_MIME_TYPES = ['image/jpeg', 'image/png', 'image/webp'];
+// File names that are almost never photographs of the place itself
+const JUNK_IMAGE_PATTERN = /(flag|icon|logo|locator|location|map|seal|emblem|coat[_ ]of[_ ]arms|symbol|signature|commons-|wiki|portal|ambox|question|stub|padlock|disambig|edit-|folder|pictogram|diagram|plan\b)/i;
+
+const isPhotograph = (fileTitle: string, info: { mime?: string; width?: number; height?: number }) =>
+  PHOTO_MIME_TYPES.includes(info.mime || '') &&
+  (info.width || 0) >= MIN_IMAGE_SIDE &&
+  (info.height || 0) >= MIN_IMAGE_SIDE &&
+  !JUNK_IMAGE_PATTERN.test(fileTitle);
+
+// extmetadata values are HTML fragments
+const stripHtml = (html?: string) => (html || '').replace(/<[^>]+>/g, '').replace(/\s+/g, ' ').trim();
+
+const permalink = (lang: Language, title: string, revisionId: number) =>
+  `https://${lang}.wikipedia.org/w/index.php?title=${encodeURIComponent(title.replace(/ /g, '_'))}${revisionId ? `&oldid=${revisionId}` : ''}`;
+
+// Through the API server when there is one (it caches and sends a proper User-Agent); straight to Wikipedia otherwise
+const apiUrl = (lang: Language) =>
+  config.aiProvider === 'server' ? `${config.apiBaseUrl}/wiki/${lang}?` : `https://${lang}.wikipedia.org/w/api.php?`;
 
 export const WikipediaService = {
-  async searchHeritagePlaces(query: string = "Heritage sites in Andhra Pradesh"): Promise<string[]> {
-    const url = `https://en.wikipedia.org/w/api.php?action=query&list=search&srsearch=${encodeURIComponent(query)}&format=json&origin=*`;
-    const response = await fetch(url);
-    const data = await response.json();
-    return data.query.search.map((s: any) => s.title);
+  /**
+   * Resolves every image on the article in one batched `imageinfo` query, drops icons, maps and
+   * other non-photographic files, and returns thumbnails with captions and licensing credits.
+   */
+  async getPlaceImages(title: string): Promise<WikiImage[]> {
+    const url = `${apiUrl('en')}action=query&generator=images&gimlimit=max&titles=${encodeURIComponent(title)}&redirects=1&prop=imageinfo&iiprop=url|size|mime|extmetadata&iiurlwidth=${THUMB_WIDTH}&iiextmetadatafilter=ImageDescription|ObjectName|Artist|LicenseShortName|LicenseUrl&format=json&formatversion=2&origin=*`;
+    const data = await fetchJson(url);
+    const pages: any[] = data.query?.pages || [];
+
+    const images: WikiImage[] = [];
+    for (const page of pages) {
+      const info = page.imageinfo?.[0];
+      if (!info || !isPhotograph(page.title, info)) continue;
+      const meta = info.extmetadata || {};
+      const fileName = page.title.replace(/^File:/, '').replace(/\.[a-z0-9]+$/i, '');
+      images.push({
+        url: info.url,
+        thumbUrl: info.thumburl,
+        width: info.width,
+        height: info.height,
+        caption: stripHtml(meta.ImageDescription?.value) || stripHtml(meta.ObjectName?.value) || fileName,
+        author: stripHtml(meta.Artist?.value) || undefined,
+        license: meta.LicenseShortName?.value,
+        licenseUrl: meta.LicenseUrl?.value,
+        descriptionUrl: info.descriptionurl
+      });
+    }
+    // Largest images first: they make the best hero images
+    return images.sort((a, b) => (b.width || 0) * (b.height || 0) - (a.width || 0) * (a.height || 0));
   },
 
-  async getPlaceImages(title: string): Promise<WikiImage[]> {
-    const url = `https://en.wikipedia.org/w/api.php?action=query&titles=${encodeURIComponent(title)}&prop=images&format=json&origin=*`;
-    const response = await fetch(url);
-    const data = await response.json();
+  async getSummary(title: string): Promise<string> {
+    const url = `${apiUrl('en')}action=query&prop=extracts&exintro&explaintext&titles=${encodeURIComponent(title)}&format=json&origin=*`;
+    const data = await fetchJson(url);
     const pages = data.query.pages;
     const pageId = Object.keys(pages)[0];
-    const images = pages[pageId].images || [];
-    
-    const imageUrls: WikiImage[] = [];
-    for (const img of images.slice(0, 5)) {
-      const imgUrl = `https://en.wikipedia.org/w/api.php?action=query&titles=${encodeURIComponent(img.title)}&prop=imageinfo&iiprop=url&format=json&origin=*`;
-      const imgRes = await fetch(imgUrl);
-      const imgData = await imgRes.json();
-      const imgPages = imgData.query.pages;
-      const imgPageId = Object.keys(imgPages)[0];
-      const url = imgPages[imgPageId].imageinfo?.[0]?.url;
-      if (url && !url.endsWith('.svg')) {
-        imageUrls.push({ url, caption: img.title.replace('File:', '') });
-      }
+    return pages[pageId].extract || "";
+  },
+
+  /**
+   * Fetches a full article from the given language edition in one request: plain-text sections,
+   * the pinned revision, the parsed infobox and interlanguage links to the other supported editions.
+   */
+  async getArticle(title: string, lang: Language = 'en'): Promise<WikiArticle> {
+    const url = `${apiUrl(lang)}action=query&prop=extracts|revisions|langlinks&explaintext&exsectionformat=wiki&rvprop=ids|content&rvslots=main&lllimit=max&titles=${encodeURIComponent(title)}&redirects=1&format=json&formatversion=2&origin=*`;
+    const data = await fetchJson(url);
+    const page = data.query.pages[0];
+    const revision = page.revisions?.[0];
+    const pageTitle: string = page.title || title;
+    const source: WikiSource = { lang, title: pageTitle, revisionId: revision?.revid || 0, url: permalink(lang, pageTitle, revision?.revid || 0) };
+
+    let budget = MAX_ARTICLE_CHARS;
+    const sections: SourcePassage[] = [];
+    splitSections(page.extract || '', translate(lang, 'wiki.introduction')).forEach((section, i) => {
+      if (budget <= 0) return;
+      const text = section.text.slice(0, Math.min(MAX_SECTION_CHARS, budget));
+      budget -= text.length;
+      sections.push({
+        id: `${lang.toUpperCase()}${i + 1}`,
+        heading: section.heading,
+        anchor: i === 0 ? undefined : section.heading.replace(/ /g, '_'),
+        text,
+        source
+      });
+    });
+
+    const langlinks: Partial<Record<Language, string>> = {};
+    for (const link of page.langlinks || []) {
+      if (LANGUAGES.includes(link.lang)) langlinks[link.lang as Language] = link.title;
     }
-    return imageUrls;
+
+    return {
+      source,
+      sections,
+      infobox: revision ? parseInfobox(revision.slots?.main?.content || '') : undefined,
+      langlinks
+    };
   },
 
-  async getSummary(title: string): Promise<string> {
-    const url = `https://en.wikipedia.org/w/api.php?action=query&prop=extracts&exintro&explaintext&titles=${encodeURIComponent(title)}&format=json&origin=*`;
-    const response = await fetch(url);
-    const data = await response.json();
+  async getCoordinates(title: string): Promise<Coordinates | undefined> {
+    const url = `${apiUrl('en')}action=query&prop=coordinates&titles=${encodeURIComponent(title)}&redirects=1&format=json&origin=*`;
+    const data = await fetchJson(url);
     const pages = data.query.pages;
     const pageId = Object.keys(pages)[0];
-    return pages[pageId].extract || "";
+    const coord = pages[pageId].coordinates?.[0];
+    return coord ? { lat: coord.lat, lng: coord.lon } : undefined;
   }
 };
@@ -0,0 +1,140 @@
+import { Coordinates, WikiInfobox } from './types';
+
+// Helpers for turning raw Wikipedia wikitext and plain-text extracts into structured data.
+
+const INFOBOX_FIELDS: Record<'built' | 'architect' | 'dynasty', string[]> = {
+  built: ['built', 'established', 'date_built', 'year_completed', 'completed', 'completion_date', 'founded', 'date', 'creator_date'],
+  architect: ['architect', 'architects', 'designer', 'architecture_style_designer', 'creator'],
+  dynasty: ['dynasty', 'patron', 'builder', 'built_by', 'culture', 'cultures', 'founder', 'governing_body'],
+};
+
+/** Returns the body of the first `{{Infobox ...}}` template, respecting nested templates. */
+const extractInfobox = (wikitext: string): string | null => {
+  const start = wikitext.search(/\{\{\s*Infobox/i);
+  if (start === -1) return null;
+  let depth = 0;
+  for (let i = start; i < wikitext.length - 1; i++) {
+    const pair = wikitext.slice(i, i + 2);
+    if (pair === '{{') { depth++; i++; }
+    else if (pair === '}}') {
+      depth--;
+      i++;
+      if (depth === 0) return wikitext.slice(start + 2, i - 1);
+    }
+  }
+  return null;
+};
+
+/** Splits a template body on `|` separators that are not inside nested templates or links. */
+const splitTopLevel = (body: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (let i = 0; i < body.length; i++) {
+    const pair = body.slice(i, i + 2);
+    if (pair === '{{' || pair === '[[') { depth++; current += pair; i++; continue; }
+    if (pair === '}}' || pair === ']]') { depth--; current += pair; i++; continue; }
+    if (body[i] === '|' && depth === 0) { parts.push(current); current = ''; continue; }
+    current += body[i];
+  }
+  parts.push(current);
+  return parts;
+};
+
+/** Reduces wikitext markup to readable plain text. */
+export const stripMarkup = (text: string): string => {
+  let result = text
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<ref[^>]*\/>/gi, '')
+    .replace(/<ref[^>]*>[\s\S]*?<\/ref>/gi, '')
+    .replace(/<br\s*\/?>/gi, ', ')
+    .replace(/<[^>]+>/g, '');
+  // Innermost templates first; keep the last positional argument of simple ones like {{circa|1530}}
+  let previous;
+  do {
+    previous = result;
+    result = result.replace(/\{\{([^{}]*)\}\}/g, (_, inner: string) => {
+      const args = inner.split('|').slice(1).filter(a => !a.includes('='));
+      return args.length ? args[args.length - 1] : '';
+    });
+  } while (result !== previous);
+  return result
+    .replace(/\[\[(?:[^|\]]*\|)?([^\]]*)\]\]/g, '$1')
+    .replace(/\[https?:\/\/\S+\s([^\]]*)\]/g, '$1')
+    .replace(/'{2,}/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/^[\s,]+|[\s,]+$/g, '');
+};
+
+/** Parses `{{coord|...}}` in decimal or degrees/minutes/seconds form. */
+export const parseCoord = (wikitext: string): Coordinates | undefined => {
+  const match = wikitext.match(/\{\{\s*coord\s*\|([^}]*)\}\}/i);
+  if (!match) return undefined;
+  const args = match[1].split('|').map(a => a.trim()).filter(a => a && !a.includes('='));
+  const hemisphere = args.findIndex(a => /^[NS]$/i.test(a));
+  if (hemisphere === -1) {
+    const [lat, lng] = args.map(Number);
+    return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : undefined;
+  }
+  const toDecimal = (parts: string[], direction: string) => {
+    const [d = 0, m = 0, s = 0] = parts.map(Number);
+    const value = d + m / 60 + s / 3600;
+    return /^[SW]$/i.test(direction) ? -value : value;
+  };
+  const east = args.findIndex((a, i) => i > hemisphere && /^[EW]$/i.test(a));
+  if (east === -1) return undefined;
+  const lat = toDecimal(args.slice(0, hemisphere), args[hemisphere]);
+  const lng = toDecimal(args.slice(hemisphere + 1, east), args[east]);
+  return Number.isFinite(lat) && Number.isFinite(lng) ? { lat, lng } : undefined;
+};
+
+export const parseInfobox = (wikitext: string): WikiInfobox | undefined => {
+  const body = extractInfobox(wikitext);
+  if (!body) return undefined;
+
+  const fields: Record<string, string> = {};
+  let coordinates: Coordinates | undefined;
+  for (const part of splitTopLevel(body).slice(1)) {
+    const eq = part.indexOf('=');
+    if (eq === -1) continue;
+    const key = part.slice(0, eq).trim().toLowerCase().replace(/\s+/g, '_');
+    const raw = part.slice(eq + 1).trim();
+    if (key === 'coordinates' || key === 'coords') {
+      coordinates = parseCoord(raw);
+      continue;
+    }
+    const value = stripMarkup(raw);
+    if (value) fields[key] = value;
+  }
+
+  const pick = (keys: string[]) => keys.map(k => fields[k]).find(Boolean);
+  return {
+    built: pick(INFOBOX_FIELDS.built),
+    architect: pick(INFOBOX_FIELDS.architect),
+    dynasty: pick(INFOBOX_FIELDS.dynasty),
+    coordinates: coordinates || parseCoord(wikitext),
+    fields,
+  };
+};
+
+// Trailing sections that hold links and references rather than prose, in every supported wiki
+const SKIPPED_SECTIONS = /^(references|notes|see also|external links|further reading|bibliography|sources|gallery|citations|మూలాలు|వనరులు|బయటి లింకులు|ఇవి కూడా చూడండి|సూచనలు|सन्दर्भ|संदर्भ|बाहरी कड़ियाँ|इन्हें भी देखें|टिप्पणी)$/i;
+
+/** Splits a plain-text extract (`exsectionformat=wiki`) into its lead and titled sections. */
+export const splitSections = (extract: string, leadHeading: string): { heading: string; text: string }[] => {
+  const sections: { heading: string; text: string }[] = [];
+  let current = { heading: leadHeading, text: '' };
+  for (const line of extract.split('\n')) {
+    const heading = line.match(/^(={2,})\s*(.+?)\s*\1\s*$/);
+    if (heading) {
+      sections.push(current);
+      current = { heading: heading[2], text: '' };
+    } else {
+      current.text += line + '\n';
+    }
+  }
+  sections.push(current);
+  return sections
+    .map(s => ({ heading: s.heading, text: s.text.trim() }))
+    .filter(s => s.text && !SKIPPED_SECTIONS.test(s.heading));
+};